@@ -0,0 +1,273 @@
+import puppeteer from 'puppeteer';
+import type { Browser, Page, PuppeteerLaunchOptions } from 'puppeteer';
+
+export interface BrowserPoolOptions {
+  // 同时打开的页面数上限，超出的渲染请求排队等待
+  maxPages?: number;
+  // 浏览器空闲多久后关闭（毫秒），0 表示不自动关闭
+  idleTimeoutMs?: number;
+  // 健康检查间隔（毫秒），0 表示不检查
+  healthCheckIntervalMs?: number;
+  launchOptions?: PuppeteerLaunchOptions;
+}
+
+export interface BrowserPoolStats {
+  running: boolean;
+  active_pages: number;
+  waiting: number;
+  max_pages: number;
+  launches: number;
+  renders: number;
+}
+
+const DEFAULT_MAX_PAGES = 4;
+const DEFAULT_IDLE_TIMEOUT_MS = 60 * 1000;
+const DEFAULT_HEALTH_CHECK_MS = 30 * 1000;
+// 健康检查时等待浏览器响应的最长时间
+const HEALTH_CHECK_TIMEOUT_MS = 5 * 1000;
+
+/**
+ * 共享的 Puppeteer 浏览器池：所有 PDF 渲染共用一个浏览器进程，每次渲染只新建页面。
+ * - 浏览器按需启动，空闲超时后自动关闭
+ * - 浏览器崩溃或失去响应时丢弃，下一次渲染自动重启；渲染途中崩溃会重试一次
+ * - 取消时只关闭对应页面，不影响其他并发的渲染
+ */
+export class BrowserPool {
+  private browser?: Browser;
+  private launching?: Promise<Browser>;
+  private activePages = 0;
+  private waiters: Array<() => void> = [];
+  private lastUsed = Date.now();
+  private timer?: NodeJS.Timeout;
+  private closed = false;
+  private launches = 0;
+  private renders = 0;
+  private maxPages: number;
+  private idleTimeoutMs: number;
+  private healthCheckIntervalMs: number;
+  private launchOptions: PuppeteerLaunchOptions;
+
+  constructor(options: BrowserPoolOptions = {}) {
+    this.maxPages = Math.max(1, options.maxPages ?? DEFAULT_MAX_PAGES);
+    this.idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+    this.healthCheckIntervalMs = options.healthCheckIntervalMs ?? DEFAULT_HEALTH_CHECK_MS;
+    this.launchOptions = { headless: true, ...options.launchOptions };
+  }
+
+  /**
+   * 从环境变量构建：
+   * - BROWSER_POOL_SIZE：同时渲染的页面数（默认 4）
+   * - BROWSER_IDLE_TIMEOUT_MS：空闲关闭时间（默认 60 秒，0 为不关闭）
+   * - BROWSER_HEALTH_CHECK_MS：健康检查间隔（默认 30 秒，0 为不检查）
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): BrowserPool {
+    const read = (value: string | undefined, fallback: number) => {
+      const parsed = Number(value);
+      return value !== undefined && value.trim() !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+    };
+    return new BrowserPool({
+      maxPages: read(env.BROWSER_POOL_SIZE, DEFAULT_MAX_PAGES) || DEFAULT_MAX_PAGES,
+      idleTimeoutMs: read(env.BROWSER_IDLE_TIMEOUT_MS, DEFAULT_IDLE_TIMEOUT_MS),
+      healthCheckIntervalMs: read(env.BROWSER_HEALTH_CHECK_MS, DEFAULT_HEALTH_CHECK_MS),
+    });
+  }
+
+  /**
+   * 在池中的页面上执行渲染，完成后关闭页面。signal 触发时关闭页面使渲染立即失败。
+   */
+  async withPage<T>(render: (page: Page) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(signal);
+    try {
+      try {
+        return await this.renderOnce(render, signal);
+      } catch (error) {
+        // 渲染途中浏览器崩溃：重启后重试一次
+        if (signal?.aborted || this.closed || this.browser?.isConnected()) {
+          throw error;
+        }
+        return await this.renderOnce(render, signal);
+      }
+    } finally {
+      this.release();
+    }
+  }
+
+  getStats(): BrowserPoolStats {
+    return {
+      running: !!this.browser?.isConnected(),
+      active_pages: this.activePages,
+      waiting: this.waiters.length,
+      max_pages: this.maxPages,
+      launches: this.launches,
+      renders: this.renders,
+    };
+  }
+
+  // 关闭浏览器并拒绝之后的渲染请求（用于服务退出）
+  async close() {
+    this.closed = true;
+    this.stopTimer();
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach((wake) => wake());
+    await this.closeBrowser();
+  }
+
+  private async renderOnce<T>(render: (page: Page) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const browser = await this.getBrowser();
+    const page = await browser.newPage();
+    const onAbort = () => {
+      page.close().catch(() => undefined);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    try {
+      const result = await render(page);
+      this.renders++;
+      return result;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      this.lastUsed = Date.now();
+      await page.close().catch(() => undefined);
+    }
+  }
+
+  private async acquire(signal?: AbortSignal) {
+    while (!this.closed && this.activePages >= this.maxPages) {
+      if (signal?.aborted) {
+        throw new Error('Rendering cancelled');
+      }
+      await new Promise<void>((resolve) => {
+        const wake = () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        };
+        const onAbort = () => {
+          this.waiters = this.waiters.filter((waiter) => waiter !== wake);
+          resolve();
+        };
+        this.waiters.push(wake);
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+    }
+    if (this.closed) {
+      throw new Error('Browser pool is closed');
+    }
+    if (signal?.aborted) {
+      throw new Error('Rendering cancelled');
+    }
+    this.activePages++;
+  }
+
+  private release() {
+    this.activePages--;
+    this.lastUsed = Date.now();
+    this.waiters.shift()?.();
+  }
+
+  private async getBrowser(): Promise<Browser> {
+    if (this.browser?.isConnected()) {
+      return this.browser;
+    }
+    if (!this.launching) {
+      this.launching = this.launch().finally(() => {
+        this.launching = undefined;
+      });
+    }
+    return this.launching;
+  }
+
+  private async launch(): Promise<Browser> {
+    await this.closeBrowser();
+    const browser = await puppeteer.launch(this.launchOptions);
+    this.launches++;
+    // 浏览器进程意外退出时丢弃引用，下次渲染重新启动
+    browser.on('disconnected', () => {
+      if (this.browser === browser) {
+        this.browser = undefined;
+      }
+    });
+    if (this.closed) {
+      await browser.close().catch(() => undefined);
+      throw new Error('Browser pool is closed');
+    }
+    this.browser = browser;
+    this.startTimer();
+    return browser;
+  }
+
+  private async closeBrowser() {
+    const browser = this.browser;
+    this.browser = undefined;
+    if (!browser) return;
+    await browser.close().catch(() => {
+      browser.process()?.kill('SIGKILL');
+    });
+  }
+
+  private startTimer() {
+    const interval = [this.healthCheckIntervalMs, this.idleTimeoutMs].filter((value) => value > 0);
+    if (this.timer || interval.length === 0) return;
+    this.timer = setInterval(() => {
+      this.maintain().catch(() => undefined);
+    }, Math.min(...interval));
+    // 定时器不阻止进程退出
+    this.timer.unref();
+  }
+
+  private stopTimer() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  // 定期维护：空闲超时关闭浏览器；浏览器无响应时强制结束，等待下次按需重启
+  private async maintain() {
+    const browser = this.browser;
+    if (!browser) {
+      this.stopTimer();
+      return;
+    }
+    if (this.activePages > 0) return;
+
+    if (this.idleTimeoutMs > 0 && Date.now() - this.lastUsed >= this.idleTimeoutMs) {
+      await this.closeBrowser();
+      this.stopTimer();
+      return;
+    }
+
+    if (this.healthCheckIntervalMs > 0) {
+      let timeout: NodeJS.Timeout | undefined;
+      const healthy = await Promise.race([
+        browser.version().then(() => true, () => false),
+        new Promise<boolean>((resolve) => {
+          timeout = setTimeout(() => resolve(false), HEALTH_CHECK_TIMEOUT_MS);
+        }),
+      ]);
+      clearTimeout(timeout);
+      if (!healthy && this.browser === browser) {
+        console.error('Browser pool: browser is unresponsive, restarting on next render');
+        this.browser = undefined;
+        browser.process()?.kill('SIGKILL');
+      }
+    }
+  }
+}
+
+let defaultPool: BrowserPool | undefined;
+
+// 进程级共享浏览器池，文档与图像转换器共用
+export function getDefaultBrowserPool(): BrowserPool {
+  if (!defaultPool) {
+    defaultPool = BrowserPool.fromEnv();
+  }
+  return defaultPool;
+}
+
+export async function closeDefaultBrowserPool() {
+  if (defaultPool) {
+    const pool = defaultPool;
+    defaultPool = undefined;
+    await pool.close();
+  }
+}
@@ -0,0 +1,476 @@
+import { ToolError } from './errors';
+import type { BlockNode, DocumentTree, ListNode } from './document-tree';
+
+/**
+ * 文档分块：把文档树展开为整篇线性文本（标题、段落、列表、表格等块之间以空行分隔），
+ * 再按章节、块边界或长度切分为块，供分批送入语言模型上下文。
+ * 块的偏移量均指向这段线性文本，页码与标题路径来自文档树。
+ */
+
+export type ChunkStrategy = 'heading' | 'paragraph' | 'size';
+export type ChunkUnit = 'chars' | 'tokens';
+
+export interface ChunkOptions {
+  // heading：每个章节开始新块；paragraph：在块边界处装箱；size：只按长度切分
+  strategy?: ChunkStrategy;
+  // 每块的最大长度（不含重叠部分），单位由 unit 决定
+  max_size?: number;
+  unit?: ChunkUnit;
+  // 每块开头重复前一块末尾的长度，必须小于 max_size
+  overlap?: number;
+}
+
+export interface ChunkRequest extends ChunkOptions {
+  // 上一页返回的 next_cursor
+  cursor?: string;
+  // 每页返回的块数
+  max_chunks?: number;
+}
+
+export interface DocumentChunk {
+  index: number;
+  text: string;
+  // 块所在章节的标题路径，从最外层标题开始
+  heading_path: string[];
+  // 块覆盖的页码范围，源文档有页码（PDF、演示文稿）时提供
+  pages?: { start: number; end: number };
+  // 在整篇线性文本中的字符偏移 [start_offset, end_offset)，包含重叠部分
+  start_offset: number;
+  end_offset: number;
+  chars: number;
+  tokens: number;
+}
+
+export interface ChunkedDocument {
+  metadata: DocumentTree['metadata'];
+  options: Required<ChunkOptions>;
+  total_chars: number;
+  total_tokens: number;
+  chunks: DocumentChunk[];
+}
+
+export interface ChunkPage {
+  metadata: DocumentTree['metadata'];
+  strategy: ChunkStrategy;
+  unit: ChunkUnit;
+  max_size: number;
+  overlap: number;
+  total_chunks: number;
+  total_chars: number;
+  total_tokens: number;
+  chunks: DocumentChunk[];
+  // 还有后续块时返回，原样传回 cursor 读取下一页
+  next_cursor?: string;
+}
+
+export const CHUNK_STRATEGIES: ChunkStrategy[] = ['heading', 'paragraph', 'size'];
+export const CHUNK_UNITS: ChunkUnit[] = ['chars', 'tokens'];
+export const DEFAULT_MAX_SIZE: Record<ChunkUnit, number> = { chars: 4000, tokens: 1000 };
+export const DEFAULT_MAX_CHUNKS = 10;
+
+// 中日韩字符大约各占 1 个 token，其他文字大约 4 个字符 1 个 token
+const CJK_PATTERN = /[\u1100-\u11ff\u3000-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/;
+
+// 优先在空行、换行、句末、空白处断开
+const BREAK_PATTERNS = [/\n\n+/g, /\n/g, /[.!?;:](?=\s)|[。！？；]/g, /\s+/g];
+
+interface Segment {
+  start: number;
+  end: number;
+  heading_path: string[];
+  page?: number;
+  heading: boolean;
+  // 所在章节的序号，heading 策略在章节变化处分块
+  section: number;
+}
+
+interface Range {
+  start: number;
+  end: number;
+}
+
+export function resolveChunkOptions(options: ChunkOptions = {}): Required<ChunkOptions> {
+  const unit = options.unit ?? 'chars';
+  if (!CHUNK_STRATEGIES.includes(options.strategy ?? 'heading')) {
+    throw new ToolError('INVALID_ARGUMENT', `Unknown chunking strategy "${options.strategy}"; use ${CHUNK_STRATEGIES.join(', ')}`);
+  }
+  if (!CHUNK_UNITS.includes(unit)) {
+    throw new ToolError('INVALID_ARGUMENT', `Unknown chunk size unit "${unit}"; use ${CHUNK_UNITS.join(', ')}`);
+  }
+  const resolved: Required<ChunkOptions> = {
+    strategy: options.strategy ?? 'heading',
+    unit,
+    max_size: options.max_size ?? DEFAULT_MAX_SIZE[unit],
+    overlap: options.overlap ?? 0,
+  };
+  if (!(resolved.max_size >= 1)) {
+    throw new ToolError('INVALID_ARGUMENT', 'max_size must be at least 1', { max_size: resolved.max_size });
+  }
+  if (resolved.overlap < 0 || resolved.overlap >= resolved.max_size) {
+    throw new ToolError('INVALID_ARGUMENT', `overlap must be between 0 and max_size (${resolved.max_size})`, {
+      overlap: resolved.overlap,
+      max_size: resolved.max_size,
+    });
+  }
+  return resolved;
+}
+
+export function estimateTokens(text: string): number {
+  let weight = 0;
+  for (let index = 0; index < text.length; index++) {
+    weight += CJK_PATTERN.test(text[index]) ? 1 : 0.25;
+  }
+  return Math.ceil(weight);
+}
+
+export function chunkDocumentTree(tree: DocumentTree, options: ChunkOptions = {}): ChunkedDocument {
+  const resolved = resolveChunkOptions(options);
+  const builder = new TextBuilder();
+  builder.appendBlocks(tree.children, []);
+  builder.appendFootnotes(tree);
+
+  const chunker = new Chunker(builder.text, builder.segments, resolved);
+  const chunks = chunker.chunk();
+  return {
+    metadata: tree.metadata,
+    options: resolved,
+    total_chars: builder.text.length,
+    total_tokens: estimateTokens(builder.text),
+    chunks,
+  };
+}
+
+/**
+ * 取出一页分块。cursor 记录文档指纹与下一块的序号，
+ * 文档内容或分块选项变化后旧 cursor 失效，避免拼接出不一致的结果。
+ */
+export function paginateChunks(
+  document: ChunkedDocument,
+  fingerprint: string,
+  cursor?: string,
+  maxChunks: number = DEFAULT_MAX_CHUNKS
+): ChunkPage {
+  const start = cursor === undefined ? 0 : decodeCursor(cursor, fingerprint);
+  const end = Math.min(start + maxChunks, document.chunks.length);
+  return {
+    metadata: document.metadata,
+    ...document.options,
+    total_chunks: document.chunks.length,
+    total_chars: document.total_chars,
+    total_tokens: document.total_tokens,
+    chunks: document.chunks.slice(start, end),
+    ...(end < document.chunks.length ? { next_cursor: encodeCursor(fingerprint, end) } : {}),
+  };
+}
+
+function encodeCursor(fingerprint: string, index: number): string {
+  return Buffer.from(JSON.stringify({ f: fingerprint, i: index }), 'utf-8').toString('base64url');
+}
+
+function decodeCursor(cursor: string, fingerprint: string): number {
+  let value: { f?: unknown; i?: unknown };
+  try {
+    value = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    throw new ToolError('INVALID_ARGUMENT', 'Invalid cursor', { cursor });
+  }
+  if (!value || typeof value.i !== 'number' || !Number.isInteger(value.i) || value.i < 0) {
+    throw new ToolError('INVALID_ARGUMENT', 'Invalid cursor', { cursor });
+  }
+  if (value.f !== fingerprint) {
+    throw new ToolError(
+      'INVALID_ARGUMENT',
+      'The cursor does not match this document and chunking options; pass the same input and options as the first call, or start again without a cursor',
+      { cursor }
+    );
+  }
+  return value.i;
+}
+
+// 把文档树展开为线性文本，并记录每个块的位置、标题路径与页码
+class TextBuilder {
+  text = '';
+  segments: Segment[] = [];
+  private page?: number;
+  private section = 0;
+
+  appendBlocks(blocks: BlockNode[], headingPath: string[]) {
+    for (const block of blocks) {
+      // 没有页码的块沿用前一个块的页码
+      this.page = block.page ?? this.page;
+      if (block.type === 'section') {
+        this.section++;
+        const path = block.title ? [...headingPath, block.title] : headingPath;
+        if (block.title) {
+          this.push(`${'#'.repeat(Math.min(block.level, 6))} ${block.title}`, path, true);
+        }
+        this.appendBlocks(block.children, path);
+        continue;
+      }
+      this.push(blockText(block), headingPath, false);
+    }
+  }
+
+  appendFootnotes(tree: DocumentTree) {
+    if (tree.footnotes.length === 0) return;
+    this.section++;
+    // 与正文中的脚注引用使用相同的标号
+    const labels = footnoteLabels(tree.children, new Map());
+    for (const footnote of tree.footnotes) {
+      const text = footnote.children.map(blockText).filter(Boolean).join('\n');
+      this.push(`[${labels.get(footnote.id) ?? footnote.id}] ${text}`, [], false);
+    }
+  }
+
+  private push(text: string, headingPath: string[], heading: boolean) {
+    if (!text.trim()) return;
+    if (this.text) this.text += '\n\n';
+    const start = this.text.length;
+    this.text += text;
+    this.segments.push({
+      start,
+      end: this.text.length,
+      heading_path: headingPath,
+      ...(this.page !== undefined ? { page: this.page } : {}),
+      heading,
+      section: this.section,
+    });
+  }
+}
+
+function footnoteLabels(value: unknown, labels: Map<string, string>): Map<string, string> {
+  if (Array.isArray(value)) {
+    value.forEach((item) => footnoteLabels(item, labels));
+  } else if (value && typeof value === 'object') {
+    const node = value as { type?: unknown; id?: unknown; label?: unknown };
+    if (node.type === 'footnote_ref' && typeof node.id === 'string' && typeof node.label === 'string') {
+      labels.set(node.id, node.label);
+    } else {
+      Object.values(value).forEach((child) => footnoteLabels(child, labels));
+    }
+  }
+  return labels;
+}
+
+function blockText(block: BlockNode): string {
+  switch (block.type) {
+    case 'section':
+      return [block.title, ...block.children.map(blockText)].filter(Boolean).join('\n\n');
+    case 'paragraph':
+      return block.text;
+    case 'list':
+      return listText(block, '');
+    case 'table': {
+      const rows = block.rows.map((row) => `| ${row.cells.map((cell) => cell.text.replace(/\s*\n\s*/g, ' ')).join(' | ')} |`);
+      return [block.caption, ...rows].filter(Boolean).join('\n');
+    }
+    case 'image': {
+      const description = [block.alt, block.caption].filter(Boolean).join(' - ');
+      return description ? `[Image: ${description}]` : '';
+    }
+    case 'code':
+      return `\`\`\`${block.language || ''}\n${block.text}\n\`\`\``;
+    case 'blockquote':
+      return block.children.map(blockText).filter(Boolean).join('\n\n').replace(/^/gm, '> ');
+    case 'thematic_break':
+      return '';
+  }
+}
+
+function listText(list: ListNode, indent: string): string {
+  return list.items.map((item, index) => {
+    const marker = list.ordered ? `${(list.start ?? 1) + index}. ` : '- ';
+    const checkbox = item.checked === undefined ? '' : item.checked ? '[x] ' : '[ ] ';
+    const nested = `${indent}  `;
+    const body = item.children
+      .map((child) => (child.type === 'list' ? listText(child, nested) : blockText(child).replace(/^/gm, nested)))
+      .filter((text) => text.trim())
+      .join('\n');
+    return `${indent}${marker}${checkbox}${body.slice(nested.length)}`;
+  }).join('\n');
+}
+
+/**
+ * 先按策略得到互不重叠的块范围（每块不超过 max_size），再向前扩展 overlap 得到最终的块。
+ * 长度按前缀和计算：chars 单位每个字符计 1，tokens 单位使用 estimateTokens 的估算。
+ */
+class Chunker {
+  private weights: Float64Array;
+
+  constructor(private text: string, private segments: Segment[], private options: Required<ChunkOptions>) {
+    this.weights = new Float64Array(text.length + 1);
+    for (let index = 0; index < text.length; index++) {
+      const weight = options.unit === 'chars' ? 1 : CJK_PATTERN.test(text[index]) ? 1 : 0.25;
+      this.weights[index + 1] = this.weights[index] + weight;
+    }
+  }
+
+  chunk(): DocumentChunk[] {
+    let ranges: Range[];
+    switch (this.options.strategy) {
+      case 'size':
+        ranges = this.split(0, this.text.length);
+        break;
+      case 'paragraph':
+        ranges = this.pack(this.segments);
+        break;
+      case 'heading':
+        ranges = this.sections().flatMap((segments) => this.pack(segments));
+        break;
+    }
+
+    return ranges.map((range, index) => {
+      const start = index > 0 ? this.overlapStart(range.start, ranges[index - 1].start) : range.start;
+      const text = this.text.slice(start, range.end);
+      const covered = this.segments.filter((segment) => segment.start < range.end && segment.end > start);
+      const pages = covered.map((segment) => segment.page).filter((page): page is number => page !== undefined);
+      return {
+        index,
+        text,
+        heading_path: this.headingPath(range),
+        ...(pages.length > 0 ? { pages: { start: Math.min(...pages), end: Math.max(...pages) } } : {}),
+        start_offset: start,
+        end_offset: range.end,
+        chars: text.length,
+        tokens: estimateTokens(text),
+      };
+    });
+  }
+
+  // 按章节分组；只有标题、没有正文的章节（后面紧跟子标题）并入下一组
+  private sections(): Segment[][] {
+    const groups: Segment[][] = [];
+    let pending: Segment[] = [];
+    for (const segment of this.segments) {
+      const current = groups[groups.length - 1];
+      if (segment.heading) {
+        pending.push(segment);
+      } else if (pending.length > 0 || !current || current[current.length - 1].section !== segment.section) {
+        groups.push([...pending, segment]);
+        pending = [];
+      } else {
+        current.push(segment);
+      }
+    }
+    if (pending.length > 0) groups.push(pending);
+    return groups;
+  }
+
+  // 依次装入片段直到超过 max_size；过长的片段单独切分，块末尾的标题移到下一块开头
+  private pack(segments: Segment[]): Range[] {
+    const ranges: Range[] = [];
+    let current: Range | undefined;
+    let trailingHeading: { start: number; previousEnd: number } | undefined;
+
+    for (const segment of segments) {
+      if (current && this.size(current.start, segment.end) <= this.options.max_size) {
+        trailingHeading = segment.heading ? trailingHeading ?? { start: segment.start, previousEnd: current.end } : undefined;
+        current.end = segment.end;
+        continue;
+      }
+
+      let start = segment.start;
+      if (current && trailingHeading) {
+        if (trailingHeading.start > current.start) {
+          ranges.push({ start: current.start, end: trailingHeading.previousEnd });
+        }
+        start = trailingHeading.start;
+      } else if (current) {
+        ranges.push(current);
+      }
+      current = undefined;
+      trailingHeading = undefined;
+
+      if (this.size(start, segment.end) > this.options.max_size) {
+        ranges.push(...this.split(start, segment.end));
+        continue;
+      }
+      current = { start, end: segment.end };
+      trailingHeading = segment.heading ? { start, previousEnd: start } : undefined;
+    }
+    if (current) ranges.push(current);
+    return ranges;
+  }
+
+  // 把一段文本切成不超过 max_size 的若干段，尽量在自然断点处断开
+  private split(start: number, end: number): Range[] {
+    const ranges: Range[] = [];
+    let position = this.skipWhitespace(start, end);
+    while (position < end) {
+      const limit = Math.min(this.advance(position, this.options.max_size), end);
+      const cut = limit >= end ? end : this.breakPoint(position, limit);
+      ranges.push({ start: position, end: this.trimEnd(position, cut) });
+      position = this.skipWhitespace(cut, end);
+    }
+    return ranges;
+  }
+
+  // 在 (start, limit] 的后半段中寻找断点，找不到时在 limit 处硬切
+  private breakPoint(start: number, limit: number): number {
+    const floor = start + Math.floor((limit - start) / 2);
+    const window = this.text.slice(floor, limit);
+    for (const pattern of BREAK_PATTERNS) {
+      let best = -1;
+      for (const match of window.matchAll(pattern)) {
+        best = (match.index ?? 0) + match[0].length;
+      }
+      if (best > 0) return floor + best;
+    }
+    return limit;
+  }
+
+  // 从 start 起不超过 budget 的最远位置，至少前进一个字符
+  private advance(start: number, budget: number): number {
+    let low = start + 1;
+    let high = this.text.length;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (this.weights[middle] - this.weights[start] <= budget) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return low;
+  }
+
+  // 向前扩展 overlap，并对齐到单词开头；不越过前一块的起点
+  private overlapStart(start: number, previousStart: number): number {
+    if (this.options.overlap === 0) return start;
+    let position = start;
+    while (position > previousStart + 1 && this.weights[start] - this.weights[position - 1] <= this.options.overlap) {
+      position--;
+    }
+    if (position < start && position > 0 && !/\s/.test(this.text[position - 1])) {
+      const boundary = this.text.slice(position, start).search(/\s/);
+      if (boundary >= 0) position += boundary;
+    }
+    return this.skipWhitespace(position, start);
+  }
+
+  // 块中第一个正文片段的标题路径；只有标题时取最后一个标题
+  private headingPath(range: Range): string[] {
+    let last: Segment | undefined;
+    for (const segment of this.segments) {
+      if (segment.end <= range.start) continue;
+      if (segment.start >= range.end) break;
+      if (!segment.heading) return segment.heading_path;
+      last = segment;
+    }
+    return last?.heading_path ?? [];
+  }
+
+  private size(start: number, end: number): number {
+    return this.weights[end] - this.weights[start];
+  }
+
+  private skipWhitespace(position: number, end: number): number {
+    while (position < end && /\s/.test(this.text[position])) position++;
+    return position;
+  }
+
+  private trimEnd(start: number, end: number): number {
+    while (end > start && /\s/.test(this.text[end - 1])) end--;
+    return end;
+  }
+}
@@ -1,13 +1,24 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import * as path from 'path';
 import * as fs from 'fs-extra';
 import { DocumentConverter } from './converter.js';
+import { closeDefaultBrowserPool } from './browser-pool.js';
+import { ConversionCache } from './conversion-cache.js';
+import { closeDefaultOcrEngine, parseOcrLanguages } from './ocr.js';
 import type { ConversionOptions } from './converter.js';
+import { DOCUMENT_TREE_SCHEMA } from './document-tree.js';
+import { PdfToolkit } from './pdf-tools.js';
+import type { PdfToolResult } from './pdf-tools.js';
+import { ImageConverter } from './image-converter.js';
+import type { ImageConversionResult } from './image-converter.js';
+import type { BudgetFormat } from './image-budget.js';
 
 const program = new Command();
 const converter = new DocumentConverter();
+const pdfToolkit = new PdfToolkit();
+const imageConverter = new ImageConverter();
 
 program
   .name('mcp-doc-converter')
@@ -19,10 +30,28 @@ program
   .description('Convert a document to another format')
   .requiredOption('-i, --input <path>', 'Input file path')
   .requiredOption('-o, --output <path>', 'Output file path')
-  .requiredOption('-f, --format <format>', 'Target format (pdf, docx, md, html, txt)')
+  .requiredOption('-f, --format <format>', 'Target format (pdf, docx, md, html, txt, epub, json, hocr)')
   .option('--preserve-formatting', 'Preserve original formatting', false)
+  .option('--no-pdf-layout', 'Extract PDF input as plain text without layout analysis')
+  .option('--ocr <mode>', 'OCR for PDF input: auto (pages without text), always, never', 'auto')
+  .option('--ocr-lang <languages>', 'OCR languages, e.g. eng+chi_sim')
+  .option('--sheets <sheets>', 'Spreadsheet input: sheets to convert, by name or 1-based index, comma separated')
+  .option('--range <range>', 'Spreadsheet input: cell range, e.g. "A1:D20"')
+  .option('--formulas', 'Spreadsheet input: output formulas instead of evaluated values', false)
   .option('--extract-images', 'Extract images separately', false)
   .option('--image-dir <path>', 'Directory to save extracted images')
+  .option('--pages <range>', 'PDF to image: pages to render, e.g. "1-3,5" (default: all)')
+  .option('--dpi <number>', 'PDF to image: rendering resolution (default: 150)', parseFloat)
+  .option('--sprite', 'PDF to image: combine pages into a single contact sheet', false)
+  .option('--columns <number>', 'PDF to image: pages per row in the contact sheet', parseInt)
+  .option('--frame <number>', 'Animated GIF/WebP: output only this frame (1-based)', parseInt)
+  .option('--loop <number>', 'Animated GIF/WebP output: loop count (0 loops forever)', parseInt)
+  .option('--delay <ms>', 'Animated GIF/WebP output: delay of every frame in milliseconds', parseInt)
+  .option('--metadata <mode>', 'Image output metadata: strip, keep or strip_gps (default: strip)')
+  .option('--no-auto-orient', 'Image output: keep the EXIF orientation tag instead of rotating pixels')
+  .option('--icc <profile>', 'Image output color profile: keep, srgb, p3, cmyk or an ICC file path')
+  .option('--artist <text>', 'Image output: set the EXIF artist')
+  .option('--copyright <text>', 'Image output: set the EXIF copyright')
   .action(async (options) => {
     try {
       console.log('🔄 Converting document...');
@@ -32,9 +61,47 @@ program
 
       const convOpts: ConversionOptions = {
         preserve_formatting: options.preserveFormatting,
+        pdf_layout: options.pdfLayout,
+        ocr: options.ocr,
+        ocr_languages: parseOcrLanguages(options.ocrLang),
         extract_images: options.extractImages,
         image_output_dir: options.imageDir ? path.resolve(options.imageDir) : undefined,
       };
+      if (options.sheets || options.range || options.formulas) {
+        convOpts.spreadsheet_options = {
+          sheets: options.sheets ? String(options.sheets).split(',').map((sheet: string) => sheet.trim()).filter(Boolean) : undefined,
+          range: options.range,
+          formulas: options.formulas,
+        };
+      }
+      if (options.pages || options.dpi || options.sprite || options.columns) {
+        convOpts.image_options = {
+          rasterize: {
+            pages: options.pages,
+            dpi: options.dpi,
+            layout: options.sprite ? 'sprite' : 'pages',
+            columns: options.columns,
+          },
+        };
+      }
+      if (options.frame !== undefined || options.loop !== undefined || options.delay !== undefined) {
+        convOpts.image_options = {
+          ...convOpts.image_options,
+          animation: { frame: options.frame, loop: options.loop, delay: options.delay },
+        };
+      }
+      if (options.metadata || !options.autoOrient || options.icc || options.artist || options.copyright) {
+        const icc = options.icc && !['keep', 'srgb', 'p3', 'cmyk'].includes(options.icc) ? path.resolve(options.icc) : options.icc;
+        convOpts.image_options = {
+          ...convOpts.image_options,
+          metadata: {
+            mode: options.metadata,
+            auto_orient: options.autoOrient,
+            icc,
+            ...(options.artist || options.copyright ? { set: { artist: options.artist, copyright: options.copyright } } : {}),
+          },
+        };
+      }
 
       if (isWordToPdf) {
         // 针对 Word→PDF 默认开启高保真排版与中文字体优先
@@ -55,9 +122,16 @@ program
       if (result.success) {
         console.log('✅ Conversion completed successfully!');
         console.log(`📄 Output: ${result.output_path}`);
+        if (result.output_files && result.output_files.length > 1) {
+          console.log(`🖼️  Rendered ${result.output_files.length} pages:`);
+          result.output_files.forEach((file) => console.log(`   ${file}`));
+        }
         if (result.extracted_images && result.extracted_images.length > 0) {
           console.log(`🖼️  Extracted ${result.extracted_images.length} images`);
         }
+        // 关闭共享浏览器与 OCR 引擎，否则进程会因它们仍在运行而无法退出
+        await closeDefaultBrowserPool();
+        await closeDefaultOcrEngine();
       } else {
         console.error('❌ Conversion failed:', result.message);
         process.exit(1);
@@ -90,6 +164,17 @@ program
       if (info.pages) {
         console.log(`Pages: ${info.pages}`);
       }
+      if (info.slides !== undefined) {
+        console.log(`Slides: ${info.slides}`);
+      }
+      if (info.has_text_layer !== undefined) {
+        const scanned = info.pages_without_text?.length ? ` (no text on pages ${info.pages_without_text.join(', ')})` : '';
+        console.log(`Text layer: ${info.has_text_layer ? 'yes' : 'no'}${scanned}`);
+      }
+      if (info.sheets) {
+        console.log('Sheets:');
+        info.sheets.forEach((sheet) => console.log(`  ${sheet.name}: ${sheet.rows} rows × ${sheet.columns} columns${sheet.range ? ` (${sheet.range})` : ''}`));
+      }
       if (info.title) {
         console.log(`Title: ${info.title}`);
       }
@@ -108,6 +193,253 @@ program
     }
   });
 
+program
+  .command('chunk')
+  .description('Split a document into chunks for language models')
+  .requiredOption('-i, --input <path>', 'Input file path')
+  .option('-s, --strategy <strategy>', 'heading, paragraph or size', 'heading')
+  .option('-u, --unit <unit>', 'Unit of --max-size and --overlap: chars or tokens (estimated)', 'chars')
+  .option('--max-size <number>', 'Maximum chunk size (default: 4000 chars or 1000 tokens)', parseFloat)
+  .option('--overlap <number>', 'Text repeated from the previous chunk', parseFloat)
+  .option('--no-pdf-layout', 'Extract PDF input as plain text without layout analysis')
+  .option('--ocr <mode>', 'OCR for PDF input: auto (pages without text), always, never', 'auto')
+  .option('--ocr-lang <languages>', 'OCR languages, e.g. eng+chi_sim')
+  .option('--json', 'Print the chunks as JSON', false)
+  .action(async (options) => {
+    try {
+      const filePath = path.resolve(options.input);
+      if (!(await fs.pathExists(filePath))) {
+        console.error('❌ File does not exist:', filePath);
+        process.exit(1);
+      }
+
+      const result = await converter.chunkDocument(
+        await fs.readFile(filePath),
+        path.basename(filePath),
+        {
+          strategy: options.strategy,
+          unit: options.unit,
+          max_size: options.maxSize,
+          overlap: options.overlap,
+          max_chunks: Number.MAX_SAFE_INTEGER,
+        },
+        { pdf_layout: options.pdfLayout, ocr: options.ocr, ocr_languages: parseOcrLanguages(options.ocrLang) }
+      );
+
+      if (options.json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        result.chunks.forEach((chunk) => {
+          const details = [
+            chunk.heading_path.length > 0 ? chunk.heading_path.join(' › ') : undefined,
+            chunk.pages ? (chunk.pages.end !== chunk.pages.start ? `pages ${chunk.pages.start}-${chunk.pages.end}` : `page ${chunk.pages.start}`) : undefined,
+            `chars ${chunk.start_offset}-${chunk.end_offset}`,
+            `~${chunk.tokens} tokens`,
+          ].filter(Boolean);
+          console.log(`\n── Chunk ${chunk.index + 1}/${result.total_chunks} · ${details.join(' · ')}`);
+          console.log(chunk.text);
+        });
+        console.log(`\n✅ ${result.total_chunks} chunks, ${result.total_chars} characters (~${result.total_tokens} tokens)`);
+      }
+      // 扫描版 PDF 会启动 OCR 引擎，关闭后进程才能退出
+      await closeDefaultOcrEngine();
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+const pdf = program
+  .command('pdf')
+  .description('Merge, split and edit existing PDF files');
+
+pdf
+  .command('merge')
+  .description('Merge PDFs and images into one PDF; select PDF pages with file.pdf:1-3')
+  .argument('<inputs...>', 'PDF or image files, in order')
+  .requiredOption('-o, --output <path>', 'Output PDF path')
+  .option('--image-page-size <size>', 'Page size for images: a4, letter or fit', 'a4')
+  .action(async (inputs: string[], options) => {
+    await runPdfTool(() => pdfToolkit.merge(
+      inputs.map((input) => {
+        // 末尾的 ":<页码范围>" 选择 PDF 的部分页面
+        const match = input.match(/^(.*\.pdf):([\d\s,\-]+|last)$/i);
+        return match ? { path: path.resolve(match[1]), pages: match[2] } : { path: path.resolve(input) };
+      }),
+      path.resolve(options.output),
+      { image_page_size: options.imagePageSize }
+    ));
+  });
+
+pdf
+  .command('split')
+  .description('Split a PDF by page ranges, every N pages or by bookmarks')
+  .requiredOption('-i, --input <path>', 'Input PDF path')
+  .requiredOption('-o, --output-dir <path>', 'Directory for the split files')
+  .option('--ranges <ranges>', 'One file per range, separated by semicolons, e.g. "1-3;4-10;11-"')
+  .option('--every <number>', 'One file per N pages (default: 1)', parseInt)
+  .option('--bookmarks', 'One file per bookmark', false)
+  .option('--bookmark-level <number>', 'Bookmark level to split on (1 = top level)', parseInt)
+  .action(async (options) => {
+    await runPdfTool(() => pdfToolkit.split(path.resolve(options.input), path.resolve(options.outputDir), {
+      ranges: options.ranges ? String(options.ranges).split(';').map((range: string) => range.trim()).filter(Boolean) : undefined,
+      every: options.every,
+      by_bookmarks: options.bookmarks,
+      bookmark_level: options.bookmarkLevel,
+    }));
+  });
+
+pdf
+  .command('pages')
+  .description('Extract, reorder, delete or rotate PDF pages')
+  .requiredOption('-i, --input <path>', 'Input PDF path')
+  .requiredOption('-o, --output <path>', 'Output PDF path')
+  .option('--pages <range>', 'Pages to keep, in output order, e.g. "3,1,2" or "5-"')
+  .option('--delete <range>', 'Pages to remove, e.g. "2,4-6"')
+  .option('--rotate <rule...>', 'Clockwise rotation as <angle> or <pages>:<angle>, e.g. 90 or "1-3:180"')
+  .action(async (options) => {
+    const rotate = (options.rotate as string[] | undefined)?.map((rule) => {
+      const separator = rule.lastIndexOf(':');
+      return separator >= 0
+        ? { pages: rule.slice(0, separator), angle: Number(rule.slice(separator + 1)) }
+        : { angle: Number(rule) };
+    });
+    await runPdfTool(() => pdfToolkit.editPages(path.resolve(options.input), path.resolve(options.output), {
+      pages: options.pages,
+      delete: options.delete,
+      rotate,
+    }));
+  });
+
+pdf
+  .command('number')
+  .description('Stamp page numbers on a PDF')
+  .requiredOption('-i, --input <path>', 'Input PDF path')
+  .requiredOption('-o, --output <path>', 'Output PDF path')
+  .option('--format <text>', 'Page number text with {page} and {total}', '{page} / {total}')
+  .option('--position <position>', 'bottom-center, bottom-left, bottom-right, top-center, top-left or top-right', 'bottom-center')
+  .option('--pages <range>', 'Pages to number, e.g. "2-" (default: all)')
+  .option('--start <number>', 'Number shown on the first numbered page', parseInt)
+  .option('--font-size <number>', 'Font size in points', parseFloat)
+  .option('--color <hex>', 'Text color, e.g. "#333333"')
+  .action(async (options) => {
+    await runPdfTool(() => pdfToolkit.addPageNumbers(path.resolve(options.input), path.resolve(options.output), {
+      format: options.format,
+      position: options.position,
+      pages: options.pages,
+      start: options.start,
+      font_size: options.fontSize,
+      color: options.color,
+    }));
+  });
+
+async function runPdfTool(operation: () => Promise<PdfToolResult>) {
+  try {
+    const result = await operation();
+    console.log(`✅ ${result.message}`);
+    if (result.parts) {
+      result.parts.forEach((part) => console.log(`📄 ${part.output_path} (${part.pages.length} pages${part.title ? `, ${part.title}` : ''})`));
+    } else {
+      console.log(`📄 Output: ${result.output_path} (${result.pages} pages)`);
+    }
+  } catch (error) {
+    console.error('❌ Error:', error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
+const image = program
+  .command('image')
+  .description('Build multi-page documents from images, split multi-page images and optimize image size');
+
+image
+  .command('combine')
+  .description('Combine images into one multi-page PDF or TIFF, one image per page')
+  .argument('<inputs...>', 'Image files in page order, or a single directory')
+  .requiredOption('-o, --output <path>', 'Output path (.pdf, .tif or .tiff)')
+  .option('--page-size <size>', 'fit, a3, a4, a5, letter or legal', 'a4')
+  .option('--fit <mode>', 'contain, cover, fill or shrink', 'shrink')
+  .option('--margin <points>', 'Page margin in points (default: 36, 0 for fit)', parseFloat)
+  .option('--orientation <orientation>', 'auto, portrait or landscape', 'auto')
+  .option('--dpi <number>', 'Resolution of TIFF pages', parseInt)
+  .option('--compression <type>', 'TIFF compression: lzw, deflate, jpeg, ccittfax4 or none', 'lzw')
+  .action(async (inputs: string[], options) => {
+    await runImageTool(async () => {
+      // 只给出一个目录时合成其中的全部图像
+      const single = inputs.length === 1 ? path.resolve(inputs[0]) : undefined;
+      const files = single && (await fs.stat(single)).isDirectory()
+        ? await imageConverter.listImageFiles(single)
+        : inputs.map((input) => path.resolve(input));
+      if (files.length === 0) {
+        throw new Error(`No image files found in ${inputs[0]}`);
+      }
+      return imageConverter.combineImages(files.map((file) => ({ path: file })), path.resolve(options.output), {
+        page_size: options.pageSize,
+        fit: options.fit,
+        margin: options.margin,
+        orientation: options.orientation,
+        dpi: options.dpi,
+        compression: options.compression,
+      });
+    });
+  });
+
+image
+  .command('frames')
+  .description('Export the frames of a multi-page TIFF as separate images')
+  .requiredOption('-i, --input <path>', 'Input multi-page image')
+  .requiredOption('-o, --output <path>', 'Output path; the frame number is appended for multiple frames')
+  .option('-f, --format <format>', 'Image format of the frames', 'png')
+  .option('--pages <range>', 'Frames to export, e.g. "1-3,5" (default: all)')
+  .action(async (options) => {
+    await runImageTool(() => imageConverter.splitImageFrames(path.resolve(options.input), path.resolve(options.output), options.format, {
+      pages: options.pages,
+    }));
+  });
+
+image
+  .command('optimize')
+  .description('Re-encode an image, optionally searching quality and size to fit a byte budget')
+  .requiredOption('-i, --input <path>', 'Input image')
+  .requiredOption('-o, --output <path>', 'Output path; the extension follows the chosen format')
+  .option('-q, --quality <number>', 'Quality, or the highest quality tried with --max-size', parseInt, 80)
+  .option('-f, --format <format>', 'Output format (default: the input format)')
+  .option('--max-size <size>', 'Byte budget, e.g. 500000, 800KB or 2MB', parseByteSize)
+  .option('--max-width <pixels>', 'Maximum width', parseInt)
+  .option('--max-height <pixels>', 'Maximum height', parseInt)
+  .option('--formats <list>', 'Formats allowed for the result, e.g. webp,jpeg')
+  .action(async (options) => {
+    await runImageTool(() => imageConverter.optimizeImage(path.resolve(options.input), path.resolve(options.output), options.quality, options.format, {
+      max_bytes: options.maxSize,
+      max_width: options.maxWidth,
+      max_height: options.maxHeight,
+      formats: options.formats ? String(options.formats).split(',').map((format: string) => format.trim()).filter(Boolean) as BudgetFormat[] : undefined,
+    }));
+  });
+
+// 字节数，支持 KB / MB 后缀（按 1024 换算）
+function parseByteSize(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(b|kb?|mb?)?$/i);
+  if (!match) {
+    throw new InvalidArgumentError('Expected a byte count such as 500000, 800KB or 2MB.');
+  }
+  const unit = (match[2] || 'b').toLowerCase()[0];
+  return Math.round(parseFloat(match[1]) * (unit === 'm' ? 1024 * 1024 : unit === 'k' ? 1024 : 1));
+}
+
+async function runImageTool(operation: () => Promise<ImageConversionResult>) {
+  try {
+    const result = await operation();
+    console.log(`✅ ${result.message}`);
+    for (const file of result.output_files ?? [result.output_path]) {
+      console.log(`🖼️  ${file}`);
+    }
+  } catch (error) {
+    console.error('❌ Error:', error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
+
 program
   .command('formats')
   .description('List supported input and output formats')
@@ -125,11 +457,94 @@ program
     });
   });
 
+program
+  .command('schema')
+  .description('Print the JSON Schema of the json output format (document tree)')
+  .action(() => {
+    console.log(JSON.stringify(DOCUMENT_TREE_SCHEMA, null, 2));
+  });
+
+program
+  .command('cache')
+  .description('Inspect or clear the conversion cache (enabled with CONVERSION_CACHE or CONVERSION_CACHE_DIR)')
+  .option('--clear', 'Remove all cached conversions')
+  .option('--prune', 'Remove expired entries and enforce the size limit')
+  .option('--dir <path>', 'Cache directory (default: CONVERSION_CACHE_DIR or the system temp directory)')
+  .action(async (options) => {
+    try {
+      const cache = options.dir
+        ? new ConversionCache({ directory: options.dir })
+        : converter.getCache();
+
+      if (options.clear) {
+        const removed = await cache.clear();
+        console.log(`🧹 Removed ${removed} cached conversions`);
+      } else if (options.prune) {
+        const removed = await cache.prune();
+        console.log(`🧹 Pruned ${removed} cached conversions`);
+      }
+
+      const stats = await cache.getStats();
+      console.log('\n🗄️  Conversion Cache:');
+      console.log(`Enabled: ${stats.enabled ? 'yes' : 'no'}`);
+      console.log(`Directory: ${stats.directory}`);
+      console.log(`Entries: ${stats.entries}`);
+      console.log(`Size: ${(stats.total_bytes / 1024 / 1024).toFixed(2)} MB / ${(stats.max_bytes / 1024 / 1024).toFixed(0)} MB`);
+      console.log(`TTL: ${(stats.ttl_ms / 3600000).toFixed(1)} h`);
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
 program
   .command('mcp')
   .description('Start MCP server mode')
-  .action(() => {
-    console.log('🚀 Starting MCP Document Converter Server...');
+  .option('-t, --transport <mode>', 'MCP transport: stdio, sse or both (env MCP_TRANSPORT)')
+  .option('-p, --port <port>', 'HTTP port for the status page and SSE transport (env PORT)')
+  .option('--max-sessions <count>', 'Maximum concurrent SSE sessions (env MCP_MAX_SESSIONS)')
+  .option('--host <address>', 'Address the HTTP server listens on (env MCP_HOST, default: 127.0.0.1)')
+  .option('--auth-token <token>', 'Bearer token required by the SSE endpoints (env MCP_AUTH_TOKEN, default: random)')
+  .option('--allowed-origins <origins>', 'Comma-separated browser origins allowed to call the HTTP server (env MCP_ALLOWED_ORIGINS)')
+  .option('--no-http', 'Disable the built-in HTTP server (same as NO_HTTP_SERVER)')
+  .option('--allow-read <dirs...>', 'Directories the server may read from (env MCP_ALLOWED_READ_DIRS)')
+  .option('--allow-write <dirs...>', 'Directories the server may read from and write to (env MCP_ALLOWED_WRITE_DIRS)')
+  .option('--sandbox-config <path>', 'JSON file with read_roots and write_roots (env MCP_SANDBOX_CONFIG)')
+  .action((options) => {
+    if (options.transport) {
+      process.env.MCP_TRANSPORT = options.transport;
+    }
+    if (options.port) {
+      process.env.PORT = options.port;
+    }
+    if (options.maxSessions) {
+      process.env.MCP_MAX_SESSIONS = options.maxSessions;
+    }
+    if (options.host) {
+      process.env.MCP_HOST = options.host;
+    }
+    if (options.authToken) {
+      process.env.MCP_AUTH_TOKEN = options.authToken;
+    }
+    if (options.allowedOrigins) {
+      process.env.MCP_ALLOWED_ORIGINS = options.allowedOrigins;
+    }
+    if (options.http === false) {
+      process.env.NO_HTTP_SERVER = 'true';
+    }
+    // 文件系统沙箱：命令行指定的目录追加到环境变量中的目录之后
+    const appendDirs = (name: string, dirs?: string[]) => {
+      if (!dirs || dirs.length === 0) return;
+      const existing = process.env[name] ? [process.env[name] as string] : [];
+      process.env[name] = [...existing, ...dirs.map((dir) => path.resolve(dir))].join(path.delimiter);
+    };
+    appendDirs('MCP_ALLOWED_READ_DIRS', options.allowRead);
+    appendDirs('MCP_ALLOWED_WRITE_DIRS', options.allowWrite);
+    if (options.sandboxConfig) {
+      process.env.MCP_SANDBOX_CONFIG = path.resolve(options.sandboxConfig);
+    }
+    // stdio 模式下 stdout 被 MCP 协议占用，提示信息输出到 stderr
+    console.error('🚀 Starting MCP Document Converter Server...');
     // 导入并启动MCP服务器
     require('./index.js');
   });
@@ -142,6 +557,9 @@ program
   .requiredOption('-f, --format <format>', 'Target format')
   .option('--pattern <pattern>', 'File pattern to match (glob)', '**/*')
   .option('--preserve-formatting', 'Preserve original formatting', false)
+  .option('--no-pdf-layout', 'Extract PDF input as plain text without layout analysis')
+  .option('--ocr <mode>', 'OCR for PDF input: auto (pages without text), always, never', 'auto')
+  .option('--ocr-lang <languages>', 'OCR languages, e.g. eng+chi_sim')
   .action(async (options) => {
     try {
       const inputDir = path.resolve(options.dir);
@@ -156,7 +574,7 @@ program
       
       // 简单的文件查找（这里可以扩展为使用glob模式）
       const files = await fs.readdir(inputDir);
-      const supportedExts = ['.pdf', '.docx', '.doc', '.html', '.htm', '.md', '.txt'];
+      const supportedExts = ['.pdf', '.docx', '.doc', '.rtf', '.odt', '.html', '.htm', '.md', '.txt', '.epub', '.pptx', '.odp', '.xlsx', '.xls', '.ods', '.csv'];
       
       const filesToConvert = files.filter(file => 
         supportedExts.some(ext => file.toLowerCase().endsWith(ext))
@@ -185,6 +603,9 @@ program
             options.format,
             {
               preserve_formatting: options.preserveFormatting,
+              pdf_layout: options.pdfLayout,
+              ocr: options.ocr,
+              ocr_languages: parseOcrLanguages(options.ocrLang),
             }
           );
           
@@ -204,6 +625,8 @@ program
       console.log(`\n📊 Batch conversion completed:`);
       console.log(`  ✅ Successful: ${successCount}`);
       console.log(`  ❌ Failed: ${failCount}`);
+      await closeDefaultBrowserPool();
+      await closeDefaultOcrEngine();
       
     } catch (error) {
       console.error('❌ Error:', error instanceof Error ? error.message : String(error));
@@ -224,6 +647,18 @@ program
     console.log('📊 Get document info:');
     console.log('  npx mcp-document-converter info -f document.pdf\n');
     
+    console.log('📑 Merge PDFs and images into one PDF:');
+    console.log('  npx mcp-document-converter pdf merge -o bundle.pdf report.pdf appendix.pdf:1-3 scan.jpg\n');
+    
+    console.log('🖼️  Combine scanned pages into one PDF:');
+    console.log('  npx mcp-document-converter image combine ./scans -o receipts.pdf --page-size a4 --fit contain\n');
+    
+    console.log('📦 Compress an image under an upload limit:');
+    console.log('  npx mcp-document-converter image optimize -i photo.jpg -o upload.jpg --max-size 1MB --formats webp,jpeg\n');
+    
+    console.log('✂️  Split a document into chunks for language models:');
+    console.log('  npx mcp-document-converter chunk -i document.pdf -u tokens --max-size 1000 --overlap 100\n');
+    
     console.log('📋 List supported formats:');
     console.log('  npx mcp-document-converter formats\n');
     
@@ -232,6 +667,9 @@ program
     
     console.log('🚀 Start MCP server:');
     console.log('  npx mcp-document-converter mcp\n');
+
+    console.log('🌐 Start shared MCP server over HTTP (SSE):');
+    console.log('  npx mcp-document-converter mcp --transport sse --port 3000\n');
   });
 
 program.parse();
\ No newline at end of file
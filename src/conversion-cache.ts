@@ -0,0 +1,266 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as os from 'os';
+import { createHash, randomUUID } from 'crypto';
+
+export interface ConversionCacheOptions {
+  enabled?: boolean;
+  directory?: string;
+  // 缓存总大小上限（字节），超出时按最近访问时间淘汰
+  maxBytes?: number;
+  // 缓存条目的有效期（毫秒）
+  ttlMs?: number;
+}
+
+export interface CachedConversion {
+  key: string;
+  target_format: string;
+  size: number;
+  created_at: number;
+  last_access: number;
+  message: string;
+  metadata?: any;
+}
+
+export interface ConversionCacheStats {
+  enabled: boolean;
+  directory: string;
+  entries: number;
+  total_bytes: number;
+  max_bytes: number;
+  ttl_ms: number;
+  hits: number;
+  misses: number;
+}
+
+const DEFAULT_MAX_BYTES = 500 * 1024 * 1024;
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+// 缓存键格式版本，转换逻辑不兼容变化时递增以使旧缓存失效
+const KEY_VERSION = 8;
+
+/**
+ * 基于内容寻址的磁盘转换缓存：键由输入文件内容哈希、目标格式和规范化后的转换选项组成。
+ * 每个条目保存为 `<key>.out`（输出文件）与 `<key>.json`（结果信息）。
+ */
+export class ConversionCache {
+  readonly enabled: boolean;
+  readonly directory: string;
+  private maxBytes: number;
+  private ttlMs: number;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(options: ConversionCacheOptions = {}) {
+    this.enabled = options.enabled ?? true;
+    this.directory = path.resolve(options.directory || path.join(os.tmpdir(), 'mcp-document-converter-cache'));
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+  }
+
+  /**
+   * 从环境变量构建（默认关闭）：
+   * - CONVERSION_CACHE：设为 true/1 启用缓存
+   * - CONVERSION_CACHE_DIR：缓存目录，设置后同样启用缓存
+   * - CONVERSION_CACHE_MAX_BYTES：缓存总大小上限（默认 500MB）
+   * - CONVERSION_CACHE_TTL_MS：条目有效期（默认 24 小时）
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): ConversionCache {
+    const flag = (env.CONVERSION_CACHE || '').trim().toLowerCase();
+    const read = (value: string | undefined, fallback: number) => {
+      const parsed = Number(value);
+      return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+    };
+    return new ConversionCache({
+      enabled: ['1', 'true', 'yes', 'on'].includes(flag) || (!!env.CONVERSION_CACHE_DIR && !['0', 'false', 'no', 'off'].includes(flag)),
+      directory: env.CONVERSION_CACHE_DIR,
+      maxBytes: read(env.CONVERSION_CACHE_MAX_BYTES, DEFAULT_MAX_BYTES),
+      ttlMs: read(env.CONVERSION_CACHE_TTL_MS, DEFAULT_TTL_MS),
+    });
+  }
+
+  // 计算缓存键：输入内容哈希 + 输入格式 + 目标格式 + 规范化选项。
+  // 输入格式按扩展名识别，同样的字节作为 CSV 与 TXT 转换结果不同
+  async computeKey(inputPath: string, inputFormat: string, targetFormat: string, options: unknown): Promise<string> {
+    const contentHash = await hashFile(inputPath);
+    return createHash('sha256')
+      .update(JSON.stringify({
+        version: KEY_VERSION,
+        input: contentHash,
+        input_format: inputFormat.toLowerCase(),
+        target_format: targetFormat.toLowerCase(),
+        options: normalizeOptions(options) ?? {},
+      }))
+      .digest('hex');
+  }
+
+  // 命中时将缓存的输出复制到 outputPath 并返回条目信息；过期或缺失时返回 undefined
+  async restore(key: string, outputPath: string): Promise<CachedConversion | undefined> {
+    const entry = await this.readEntry(key);
+    if (!entry || Date.now() - entry.created_at > this.ttlMs) {
+      if (entry) {
+        await this.removeEntry(key);
+      }
+      this.misses++;
+      return undefined;
+    }
+
+    try {
+      await fs.ensureDir(path.dirname(outputPath));
+      await fs.copy(this.outputFile(key), outputPath);
+    } catch {
+      await this.removeEntry(key);
+      this.misses++;
+      return undefined;
+    }
+
+    entry.last_access = Date.now();
+    await fs.writeJson(this.entryFile(key), entry).catch(() => undefined);
+    this.hits++;
+    return entry;
+  }
+
+  // 保存转换输出；先写入临时文件再重命名，避免并发读取到不完整的文件
+  async store(key: string, outputPath: string, targetFormat: string, result: { message: string; metadata?: any }) {
+    const stats = await fs.stat(outputPath);
+    if (stats.size > this.maxBytes) {
+      return;
+    }
+
+    await fs.ensureDir(this.directory);
+    const tempFile = path.join(this.directory, `.${key}.${randomUUID()}.tmp`);
+    await fs.copy(outputPath, tempFile);
+    await fs.move(tempFile, this.outputFile(key), { overwrite: true });
+
+    const now = Date.now();
+    const entry: CachedConversion = {
+      key,
+      target_format: targetFormat,
+      size: stats.size,
+      created_at: now,
+      last_access: now,
+      message: result.message,
+      ...(result.metadata ? { metadata: result.metadata } : {}),
+    };
+    await fs.writeJson(this.entryFile(key), entry);
+    await this.prune();
+  }
+
+  async getStats(): Promise<ConversionCacheStats> {
+    const entries = await this.listEntries();
+    return {
+      enabled: this.enabled,
+      directory: this.directory,
+      entries: entries.length,
+      total_bytes: entries.reduce((total, entry) => total + entry.size, 0),
+      max_bytes: this.maxBytes,
+      ttl_ms: this.ttlMs,
+      hits: this.hits,
+      misses: this.misses,
+    };
+  }
+
+  // 清空缓存，返回删除的条目数
+  async clear(): Promise<number> {
+    const entries = await this.listEntries();
+    await Promise.all(entries.map((entry) => this.removeEntry(entry.key)));
+    return entries.length;
+  }
+
+  // 删除过期条目；总大小超出上限时按最近访问时间从旧到新淘汰
+  async prune(): Promise<number> {
+    const entries = await this.listEntries();
+    const now = Date.now();
+    let removed = 0;
+    const alive: CachedConversion[] = [];
+    for (const entry of entries) {
+      if (now - entry.created_at > this.ttlMs) {
+        await this.removeEntry(entry.key);
+        removed++;
+      } else {
+        alive.push(entry);
+      }
+    }
+
+    let total = alive.reduce((sum, entry) => sum + entry.size, 0);
+    alive.sort((a, b) => a.last_access - b.last_access);
+    for (const entry of alive) {
+      if (total <= this.maxBytes) break;
+      await this.removeEntry(entry.key);
+      total -= entry.size;
+      removed++;
+    }
+    return removed;
+  }
+
+  private async listEntries(): Promise<CachedConversion[]> {
+    if (!(await fs.pathExists(this.directory))) {
+      return [];
+    }
+    const files = await fs.readdir(this.directory);
+    const entries = await Promise.all(
+      files
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => this.readEntry(path.basename(file, '.json')))
+    );
+    return entries.filter((entry): entry is CachedConversion => !!entry);
+  }
+
+  private async readEntry(key: string): Promise<CachedConversion | undefined> {
+    try {
+      return await fs.readJson(this.entryFile(key));
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async removeEntry(key: string) {
+    await fs.remove(this.entryFile(key)).catch(() => undefined);
+    await fs.remove(this.outputFile(key)).catch(() => undefined);
+  }
+
+  private entryFile(key: string) {
+    return path.join(this.directory, `${key}.json`);
+  }
+
+  private outputFile(key: string) {
+    return path.join(this.directory, `${key}.out`);
+  }
+}
+
+let defaultCache: ConversionCache | undefined;
+
+// 进程级默认缓存，基于环境变量在首次使用时创建
+export function getDefaultConversionCache(): ConversionCache {
+  if (!defaultCache) {
+    defaultCache = ConversionCache.fromEnv();
+  }
+  return defaultCache;
+}
+
+function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('error', reject)
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+}
+
+// 规范化选项：按键名排序并去掉 undefined/null，使等价的选项得到相同的缓存键
+function normalizeOptions(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => normalizeOptions(item));
+  }
+  if (value && typeof value === 'object') {
+    const normalized: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      const item = normalizeOptions((value as Record<string, unknown>)[key]);
+      if (item !== undefined) {
+        normalized[key] = item;
+      }
+    }
+    return normalized;
+  }
+  return value === null ? undefined : value;
+}
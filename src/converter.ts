@@ -1,19 +1,46 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
+import * as os from 'os';
 import * as mime from 'mime-types';
 import mammoth from 'mammoth';
-import pdfParse from 'pdf-parse';
+import sharp from 'sharp';
 import TurndownService from 'turndown';
 import { marked } from 'marked';
-import puppeteer from 'puppeteer';
+import { HTMLElement, Node, parse, TextNode } from 'node-html-parser';
 import { Document, Packer, Paragraph, TextRun } from 'docx';
-import { ImageConverter, ImageConversionOptions, ImageConversionResult } from './image-converter';
+import { htmlToDocx } from './html-to-docx';
+import { htmlToEpub, readEpub } from './epub';
+import { LEGACY_DOCUMENT_FORMATS, readLegacyDocument } from './legacy-documents';
+import { buildDocumentTree, DOCUMENT_TREE_SCHEMA, DocumentTree } from './document-tree';
+import { ChunkedDocument, chunkDocumentTree, ChunkPage, ChunkRequest, paginateChunks, resolveChunkOptions } from './chunker';
+import { presentationToHtml, presentationToText, readPresentation } from './presentation';
+import { getSpreadsheetInfo, readSpreadsheet, SheetInfo, sheetsToHtml, sheetsToTsv, SPREADSHEET_FORMATS, SpreadsheetOptions } from './spreadsheet';
+import { layoutToHtml, readPdfLayout } from './pdf-layout';
+import { getDefaultOcrEngine, OCR_TARGET_FORMATS, OcrEngine, recognizePdfPages } from './ocr';
+import { iccProfilePath, ImageConverter, ImageConversionOptions, ImageConversionResult, PDF_RASTER_FORMATS } from './image-converter';
 import { spawn } from 'child_process';
+import { createHash } from 'crypto';
+import { fileURLToPath } from 'url';
+import type { Page } from 'puppeteer';
+import { getDefaultPathGuard, PathGuard } from './path-guard';
+import { BrowserPool, getDefaultBrowserPool } from './browser-pool';
+import { ConversionCache, getDefaultConversionCache } from './conversion-cache';
+import { extractDataUriImages, extractPdfImages, ImageCollector } from './image-extractor';
+import { ToolError, toToolError } from './errors';
+import type { ToolErrorCode } from './errors';
 
 export interface ConversionOptions {
   preserve_formatting?: boolean;
+  // PDF 输入是否进行版面分析（重建标题、段落、列表、表格），默认开启
+  pdf_layout?: boolean;
+  // OCR 模式：auto 只识别没有文字层的 PDF 页面（默认），always 识别所有页面，never 不识别
+  ocr?: 'auto' | 'always' | 'never';
+  // OCR 语言，如 ['eng', 'chi_sim']，默认取 OCR_LANGUAGES 环境变量
+  ocr_languages?: string[];
   extract_images?: boolean;
   image_output_dir?: string;
+  // 电子表格输入选项：工作表、单元格范围、公式或计算结果
+  spreadsheet_options?: SpreadsheetOptions;
   // 图像转换选项
   image_options?: ImageConversionOptions;
   // PDF 输出选项
@@ -42,50 +69,288 @@ export interface DocumentInfo {
   author?: string;
   created?: Date;
   modified?: Date;
+  // PDF 是否有文字层（没有时转换需要 OCR）
+  has_text_layer?: boolean;
+  // 没有文字层的页码
+  pages_without_text?: number[];
+  // 电子表格的工作表名称与尺寸
+  sheets?: SheetInfo[];
+  // 演示文稿的幻灯片数量
+  slides?: number;
+}
+
+export type ConversionStage = 'reading' | 'rendering' | 'writing' | 'done';
+
+export interface ConversionProgress {
+  stage: ConversionStage;
+  percent: number;
+  message?: string;
+}
+
+// 转换上下文：用于取消转换以及上报进度（异步任务、MCP 进度通知）
+export interface ConversionContext {
+  signal?: AbortSignal;
+  onProgress?: (progress: ConversionProgress) => void;
+  // 覆盖转换器默认的文件系统沙箱（例如额外允许服务器自己的临时目录）
+  pathGuard?: PathGuard;
+}
+
+export interface DocumentConverterOptions {
+  pathGuard?: PathGuard;
+  browserPool?: BrowserPool;
+  cache?: ConversionCache;
+  ocr?: OcrEngine;
+}
+
+export class ConversionCancelledError extends Error {
+  constructor(message: string = 'Conversion cancelled') {
+    super(message);
+    this.name = 'ConversionCancelledError';
+  }
+}
+
+export interface DocumentContent {
+  // 源文档格式
+  format?: string;
+  text: string;
+  html?: string;
+  metadata?: any;
+  // 启用 extract_images 时提取出的图片文件路径
+  images?: string[];
+  // 源文件所在目录，用于解析文档中相对路径的图片
+  base_dir?: string;
+  // 经 OCR 识别的 PDF 页码
+  ocr_pages?: number[];
+}
+
+export interface BufferConversionResult extends ConversionResult {
+  buffer?: Buffer;
+  mime_type?: string;
+  file_name?: string;
 }
 
 export interface ConversionResult {
   success: boolean;
   output_path: string;
   message: string;
+  cancelled?: boolean;
+  // 失败时的错误码，见 errors.ts
+  error_code?: ToolErrorCode;
   extracted_images?: string[];
+  // 生成多个文件时（PDF 多页栅格化）的全部输出路径
+  output_files?: string[];
   metadata?: any;
 }
 
+// 内存中保留的分块结果数量，供 chunk_document 按 cursor 翻页
+const CHUNK_CACHE_ENTRIES = 8;
+// 可引用本地文件的输入格式，以及会把引用的文件嵌入输出的目标格式
+const LOCAL_RESOURCE_SOURCES = ['md', 'html'];
+const LOCAL_RESOURCE_TARGETS = ['docx', 'epub', 'pdf'];
+
 export class DocumentConverter {
   private turndownService: TurndownService;
   private imageConverter: ImageConverter;
+  private pathGuard: PathGuard;
+  private browserPool: BrowserPool;
+  private cache: ConversionCache;
+  private ocr: OcrEngine;
+  private chunkCache = new Map<string, ChunkedDocument>();
 
-  constructor() {
+  constructor(converterOptions: DocumentConverterOptions = {}) {
+    this.pathGuard = converterOptions.pathGuard ?? getDefaultPathGuard();
+    this.browserPool = converterOptions.browserPool ?? getDefaultBrowserPool();
+    this.cache = converterOptions.cache ?? getDefaultConversionCache();
+    this.ocr = converterOptions.ocr ?? getDefaultOcrEngine();
     this.turndownService = new TurndownService({
       headingStyle: 'atx',
       codeBlockStyle: 'fenced',
     });
-    this.imageConverter = new ImageConverter();
+    // Turndown 默认不支持表格，输出为 GFM 表格（第一行作为表头）
+    this.turndownService.addRule('table', {
+      filter: 'table',
+      replacement: (_content, node) => {
+        const rows: string[][] = Array.from<any>((node as any).querySelectorAll('tr'))
+          .map((row) => Array.from<any>(row.childNodes)
+            .filter((cell) => /^(TD|TH)$/i.test(cell.nodeName))
+            .map((cell) => this.turndownService.turndown(cell.innerHTML)
+              .replace(/\s*\n+\s*/g, ' ')
+              .replace(/\|/g, '\\|')))
+          .filter((cells) => cells.length > 0);
+        if (rows.length === 0) {
+          return '';
+        }
+        const columns = Math.max(...rows.map((cells) => cells.length));
+        const line = (cells: string[]) =>
+          `| ${Array.from({ length: columns }, (_, i) => cells[i] ?? '').join(' | ')} |`;
+        const [header, ...body] = rows;
+        return `\n\n${[line(header), line(Array(columns).fill('---')), ...body.map(line)].join('\n')}\n\n`;
+      },
+    });
+    this.imageConverter = new ImageConverter({ pathGuard: this.pathGuard });
   }
 
+  /**
+   * 转换文件。启用转换缓存时，相同内容、目标格式与选项的转换直接复用缓存结果，
+   * 结果的 metadata.cache_hit 表示是否命中缓存。
+   */
   async convertDocument(
     inputPath: string,
     outputPath: string,
     targetFormat: string,
-    options: ConversionOptions = {}
+    options: ConversionOptions = {},
+    context: ConversionContext = {}
+  ): Promise<ConversionResult> {
+    const cacheKey = await this.getCacheKey(inputPath, outputPath, targetFormat, options, context);
+    if (!cacheKey) {
+      return this.performConversion(inputPath, outputPath, targetFormat, options, context);
+    }
+
+    const cached = await this.cache.restore(cacheKey, outputPath).catch(() => undefined);
+    if (cached) {
+      context.onProgress?.({ stage: 'done', percent: 100, message: 'Restored from conversion cache' });
+      return {
+        success: true,
+        output_path: outputPath,
+        message: cached.message,
+        metadata: { ...cached.metadata, cache_hit: true },
+      };
+    }
+
+    const result = await this.performConversion(inputPath, outputPath, targetFormat, options, context);
+    if (!result.success) {
+      return result;
+    }
+    // 写入缓存失败（例如磁盘已满）不影响本次转换结果
+    await this.cache.store(cacheKey, result.output_path || outputPath, targetFormat, result).catch((error) => {
+      console.error(`Failed to store conversion in cache: ${error instanceof Error ? error.message : String(error)}`);
+    });
+    return { ...result, metadata: { ...result.metadata, cache_hit: false } };
+  }
+
+  getCache(): ConversionCache {
+    return this.cache;
+  }
+
+  /**
+   * 计算缓存键；缓存未启用或转换会产生额外文件（提取图片）、依赖其他文件（图片水印、文档引用的本地图片）时返回 undefined。
+   * 先做沙箱检查，避免通过缓存绕过访问限制；任何检查失败都交给实际转换流程报告错误。
+   */
+  private async getCacheKey(
+    inputPath: string,
+    outputPath: string,
+    targetFormat: string,
+    options: ConversionOptions,
+    context: ConversionContext
+  ): Promise<string | undefined> {
+    if (
+      !this.cache.enabled ||
+      options.extract_images ||
+      options.image_options?.watermark?.image ||
+      (options.image_options && iccProfilePath(options.image_options))
+    ) {
+      return undefined;
+    }
+    try {
+      const guard = context.pathGuard ?? this.pathGuard;
+      await guard.assertReadable(inputPath);
+      await guard.assertWritable(outputPath);
+      const inputFormat = this.detectFormat(inputPath);
+      // PDF 多页栅格化可能生成多个文件，不使用缓存
+      if (!this.isConversionSupported(inputFormat, targetFormat) || this.isPdfRasterization(inputFormat, targetFormat)) {
+        return undefined;
+      }
+      // Markdown / HTML 转 DOCX、EPUB、PDF 时会嵌入引用的本地文件：缓存键反映不了这些文件的内容，
+      // 也无法保证命中的结果只包含当前沙箱允许读取的文件，引用了本地文件时不使用缓存
+      if (
+        LOCAL_RESOURCE_SOURCES.includes(inputFormat) &&
+        LOCAL_RESOURCE_TARGETS.includes(targetFormat) &&
+        referencesLocalFiles(await fs.readFile(inputPath, 'utf-8'))
+      ) {
+        return undefined;
+      }
+      return await this.cache.computeKey(inputPath, inputFormat, targetFormat, options);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * 创建图片收集器：默认写入输出文件旁的 `<文件名>_images` 目录。
+   * 只有 Markdown/HTML 输出会改写图片链接（相对于输出文件，没有输出文件时为绝对路径）；
+   * 其他格式仍内联图片，以便 PDF 等渲染结果保持完整。
+   */
+  private async createImageCollector(
+    outputPath: string | undefined,
+    imageOutputDir: string | undefined,
+    targetFormat: string,
+    guard: PathGuard
+  ): Promise<ImageCollector | undefined> {
+    if (!outputPath && !imageOutputDir) {
+      return undefined;
+    }
+    const outputName = outputPath ? path.parse(outputPath).name : 'image';
+    const imageDir = imageOutputDir
+      ? path.resolve(imageOutputDir)
+      : path.join(path.dirname(outputPath as string), `${outputName}_images`);
+    await guard.assertWritable(imageDir);
+    return new ImageCollector(imageDir, {
+      documentDir: outputPath ? path.dirname(path.resolve(outputPath)) : undefined,
+      prefix: outputName,
+      rewriteLinks: targetFormat === 'md' || targetFormat === 'html' || targetFormat === 'json',
+    });
+  }
+
+  private async performConversion(
+    inputPath: string,
+    outputPath: string,
+    targetFormat: string,
+    options: ConversionOptions = {},
+    context: ConversionContext = {}
   ): Promise<ConversionResult> {
+    const { signal } = context;
+    const report = (stage: ConversionStage, percent: number, message?: string) => {
+      context.onProgress?.({ stage, percent, message });
+    };
+
     try {
+      this.throwIfAborted(signal);
+      report('reading', 0, 'Preparing conversion');
+
+      // 沙箱检查：输入、输出以及选项中引用的路径
+      const guard = context.pathGuard ?? this.pathGuard;
+      await guard.assertReadable(inputPath);
+      await guard.assertWritable(outputPath);
+      if (options.image_output_dir) {
+        await guard.assertWritable(options.image_output_dir);
+      }
+      if (options.image_options?.watermark?.image) {
+        await guard.assertReadable(options.image_options.watermark.image);
+      }
+      const iccPath = options.image_options && iccProfilePath(options.image_options);
+      if (iccPath) {
+        await guard.assertReadable(iccPath);
+      }
+
       // 检查输入文件是否存在
       if (!(await fs.pathExists(inputPath))) {
-        throw new Error(`Input file does not exist: ${inputPath}`);
+        throw new ToolError('FILE_NOT_FOUND', `Input file does not exist: ${inputPath}`, { path: inputPath });
       }
 
-      // 确保输出目录存在
-      await fs.ensureDir(path.dirname(outputPath));
-
       // 检测输入文件格式
       const inputFormat = this.detectFormat(inputPath);
+      this.assertConversionSupported(inputFormat, targetFormat);
+
+      // 确保输出目录存在
+      await fs.ensureDir(path.dirname(outputPath));
       
       // 在 Windows 上优先使用 Word COM（高保真）进行 DOCX/DOC -> PDF 转换
       if ((inputFormat === 'docx' || inputFormat === 'doc') && targetFormat === 'pdf') {
-        const usedWordCom = await this.convertDocxToPdfViaWordCom(inputPath, outputPath);
+        report('rendering', 10, 'Trying Microsoft Word (COM)');
+        const usedWordCom = await this.convertDocxToPdfViaWordCom(inputPath, outputPath, signal);
+        this.throwIfAborted(signal);
         if (usedWordCom) {
+          report('done', 100);
           return {
             success: true,
             output_path: outputPath,
@@ -93,8 +358,11 @@ export class DocumentConverter {
           };
         }
         // 若未安装 Word 或 COM 失败，尝试 DocumentAssistant 的 Python 脚本
-        const usedPython = await this.convertDocxToPdfViaPython(inputPath, outputPath);
+        report('rendering', 20, 'Trying DocumentAssistant script');
+        const usedPython = await this.convertDocxToPdfViaPython(inputPath, outputPath, signal);
+        this.throwIfAborted(signal);
         if (usedPython) {
+          report('done', 100);
           return {
             success: true,
             output_path: outputPath,
@@ -102,8 +370,11 @@ export class DocumentConverter {
           };
         }
         // 若上述两种方案失败，尝试 LibreOffice 高保真转换
-        const usedLibre = await this.convertOfficeToPdfViaLibreOffice(inputPath, outputPath);
+        report('rendering', 30, 'Trying LibreOffice (headless)');
+        const usedLibre = await this.convertViaLibreOffice(inputPath, outputPath, 'pdf', signal);
+        this.throwIfAborted(signal);
         if (usedLibre) {
+          report('done', 100);
           return {
             success: true,
             output_path: outputPath,
@@ -112,22 +383,82 @@ export class DocumentConverter {
         }
         // 若上述三种方案失败，则继续走下方的常规读取+HTML渲染方案
       }
+
+      // 演示文稿与 RTF/ODT 转 PDF、旧格式转 DOCX 优先使用 LibreOffice 保留版式；
+      // 未安装时继续走下方的读取 + 渲染（演示文稿按幻灯片分页）
+      if (this.prefersLibreOffice(inputFormat, targetFormat)) {
+        report('rendering', 20, 'Trying LibreOffice (headless)');
+        const usedLibre = await this.convertViaLibreOffice(inputPath, outputPath, targetFormat, signal);
+        this.throwIfAborted(signal);
+        if (usedLibre) {
+          report('done', 100);
+          return {
+            success: true,
+            output_path: outputPath,
+            message: `Successfully converted ${inputFormat} to ${targetFormat} via LibreOffice (headless)`,
+          };
+        }
+      }
       
+      // PDF 页面栅格化为图像
+      if (this.isPdfRasterization(inputFormat, targetFormat)) {
+        report('rendering', 30, 'Rendering PDF pages');
+        const imageResult = await this.imageConverter.convertPdfToImages(
+          inputPath,
+          outputPath,
+          targetFormat,
+          options.image_options || {},
+          signal
+        );
+        this.throwIfAborted(signal);
+        report('done', 100);
+        return {
+          success: true,
+          output_path: imageResult.output_path,
+          message: imageResult.message,
+          output_files: imageResult.output_files,
+          metadata: {
+            ...imageResult.metadata,
+            original_size: imageResult.original_size,
+            new_size: imageResult.new_size,
+          },
+        };
+      }
+
       // 检查是否为图像格式
       const imageFormats = ['jpeg', 'jpg', 'png', 'webp', 'avif', 'tiff', 'gif', 'bmp', 'svg', 'heic', 'heif'];
+      if (imageFormats.includes(inputFormat) && OCR_TARGET_FORMATS.includes(targetFormat)) {
+        report('rendering', 30, 'Recognizing text');
+        const { buffer, metadata } = await this.recognizeImage(inputPath, targetFormat, options, signal);
+        this.throwIfAborted(signal);
+        report('writing', 90, `Writing ${path.basename(outputPath)}`);
+        await fs.writeFile(outputPath, buffer);
+        report('done', 100);
+        return {
+          success: true,
+          output_path: outputPath,
+          message: `Successfully recognized text in ${inputFormat} image as ${targetFormat}`,
+          metadata,
+        };
+      }
       if (imageFormats.includes(inputFormat)) {
         // 使用图像转换器
+        report('rendering', 30, 'Converting image');
         const imageResult = await this.imageConverter.convertImage(
           inputPath,
           outputPath,
           targetFormat,
           options.image_options || {}
         );
+        this.throwIfAborted(signal);
+        report('done', 100);
         return {
           success: imageResult.success,
           output_path: imageResult.output_path,
           message: imageResult.message,
+          ...(imageResult.success ? {} : { error_code: imageResult.error_code ?? 'CONVERSION_FAILED' }),
           metadata: {
+            ...imageResult.metadata,
             original_size: imageResult.original_size,
             new_size: imageResult.new_size,
             compression_ratio: imageResult.compression_ratio,
@@ -136,27 +467,150 @@ export class DocumentConverter {
       }
       
       // 读取文档内容
-      const content = await this.readDocument(inputPath, inputFormat, options);
+      report('reading', 40, `Reading ${inputFormat} document`);
+      const images = options.extract_images
+        ? await this.createImageCollector(outputPath, options.image_output_dir, targetFormat, guard)
+        : undefined;
+      const content = await this.readDocument(inputPath, inputFormat, options, images, signal);
+      this.throwIfAborted(signal);
       
       // 转换到目标格式
-      const result = await this.writeDocument(content, outputPath, targetFormat, options);
+      report('rendering', 60, `Rendering ${targetFormat}`);
+      const { buffer, ...result } = await this.renderDocument(content, targetFormat, options, context);
+      this.throwIfAborted(signal);
+
+      report('writing', 90, `Writing ${path.basename(outputPath)}`);
+      await fs.writeFile(outputPath, buffer);
+      report('done', 100);
       
       return {
         success: true,
         output_path: outputPath,
         message: `Successfully converted ${inputFormat} to ${targetFormat}`,
         ...result,
+        ...(content.images ? { extracted_images: content.images } : {}),
+        ...(content.ocr_pages?.length ? { metadata: { ocr_pages: content.ocr_pages } } : {}),
       };
     } catch (error) {
+      if (error instanceof ConversionCancelledError || signal?.aborted) {
+        return {
+          success: false,
+          output_path: outputPath,
+          message: 'Conversion cancelled',
+          cancelled: true,
+          error_code: 'CANCELLED',
+        };
+      }
+      return this.failureResult(error, outputPath);
+    }
+  }
+
+  /**
+   * 在内存中完成转换：输入为文件内容，输出为转换结果的二进制数据。
+   * 纯文档格式之间直接在内存中处理；图像以及 Word→PDF 等依赖外部程序的路径借助临时目录完成。
+   */
+  async convertBuffer(
+    input: Buffer,
+    fileName: string,
+    targetFormat: string,
+    options: ConversionOptions = {},
+    context: ConversionContext = {}
+  ): Promise<BufferConversionResult> {
+    const { signal } = context;
+    const guard = context.pathGuard ?? this.pathGuard;
+    const inputFormat = this.detectFormat(fileName);
+    const outputName = `${path.parse(fileName).name || 'converted'}.${targetFormat}`;
+    // hOCR 是带识别结果标注的 HTML
+    const mimeType = targetFormat === 'hocr' ? 'text/html' : mime.lookup(outputName) || 'application/octet-stream';
+    const imageFormats = ['jpeg', 'jpg', 'png', 'webp', 'avif', 'tiff', 'gif', 'bmp', 'svg', 'heic', 'heif'];
+    const needsFiles = imageFormats.includes(inputFormat)
+      || this.isPdfRasterization(inputFormat, targetFormat)
+      || ((inputFormat === 'docx' || inputFormat === 'doc') && targetFormat === 'pdf')
+      || this.prefersLibreOffice(inputFormat, targetFormat);
+
+    if (!this.isConversionSupported(inputFormat, targetFormat)) {
+      return { ...this.failureResult(this.unsupportedConversionError(inputFormat, targetFormat), ''), file_name: outputName };
+    }
+
+    if (needsFiles) {
+      const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-buffer-'));
+      try {
+        const inputPath = path.join(tempDir, 'input', path.basename(fileName));
+        const outputPath = path.join(tempDir, 'output', outputName);
+        await fs.outputFile(inputPath, input);
+
+        const result = await this.convertDocument(inputPath, outputPath, targetFormat, options, {
+          ...context,
+          pathGuard: guard.extend({ write_roots: [tempDir] }),
+        });
+        if (!result.success) {
+          return { ...result, output_path: '', file_name: outputName };
+        }
+        // 内存转换只返回一个文件
+        if (result.output_files && result.output_files.length > 1) {
+          const error = new ToolError(
+            'INVALID_ARGUMENT',
+            `The conversion produced ${result.output_files.length} files; select a single page with image_options.rasterize.pages or use image_options.rasterize.layout "sprite"`,
+            { files: result.output_files.length }
+          );
+          return { ...this.failureResult(error, ''), file_name: outputName };
+        }
+        const { output_files, ...summary } = result;
+        const buffer = await fs.readFile(result.output_path || outputPath);
+        return { ...summary, output_path: '', buffer, mime_type: mimeType, file_name: outputName };
+      } finally {
+        await fs.remove(tempDir).catch(() => undefined);
+      }
+    }
+
+    const report = (stage: ConversionStage, percent: number, message?: string) => {
+      context.onProgress?.({ stage, percent, message });
+    };
+    try {
+      this.throwIfAborted(signal);
+      // 没有输出文件时，只有指定了 image_output_dir 才提取图片
+      const images = options.extract_images
+        ? await this.createImageCollector(undefined, options.image_output_dir, targetFormat, guard)
+        : undefined;
+      report('reading', 40, `Reading ${inputFormat} document`);
+      const content = await this.readDocument(input, inputFormat, options, images, signal);
+      this.throwIfAborted(signal);
+      report('rendering', 60, `Rendering ${targetFormat}`);
+      const { buffer, ...result } = await this.renderDocument(content, targetFormat, options, context);
+      this.throwIfAborted(signal);
+      report('done', 100);
       return {
-        success: false,
-        output_path: outputPath,
-        message: `Conversion failed: ${error instanceof Error ? error.message : String(error)}`,
+        success: true,
+        output_path: '',
+        message: `Successfully converted ${inputFormat} to ${targetFormat}`,
+        ...result,
+        ...(content.images ? { extracted_images: content.images } : {}),
+        ...(content.ocr_pages?.length ? { metadata: { ocr_pages: content.ocr_pages } } : {}),
+        buffer,
+        mime_type: mimeType,
+        file_name: outputName,
       };
+    } catch (error) {
+      if (error instanceof ConversionCancelledError || signal?.aborted) {
+        return { success: false, output_path: '', message: 'Conversion cancelled', cancelled: true, error_code: 'CANCELLED', file_name: outputName };
+      }
+      return { ...this.failureResult(error, ''), file_name: outputName };
     }
   }
 
-  async getDocumentInfo(filePath: string): Promise<DocumentInfo> {
+  // 将异常转换为失败结果；未分类的异常视为转换引擎失败
+  private failureResult(error: unknown, outputPath: string): ConversionResult {
+    const toolError = toToolError(error);
+    return {
+      success: false,
+      output_path: outputPath,
+      message: toolError.code === 'CONVERSION_FAILED' ? `Conversion failed: ${toolError.message}` : toolError.message,
+      error_code: toolError.code,
+    };
+  }
+
+  async getDocumentInfo(filePath: string, pathGuard: PathGuard = this.pathGuard): Promise<DocumentInfo> {
+    await pathGuard.assertReadable(filePath);
     const stats = await fs.stat(filePath);
     const format = this.detectFormat(filePath);
     
@@ -188,10 +642,27 @@ export class DocumentConverter {
       // 尝试获取更多元数据
       if (format === 'pdf') {
         const buffer = await fs.readFile(filePath);
-        const pdfData = await (pdfParse as any)(buffer);
-        info.pages = pdfData.numpages;
-        info.title = pdfData.info?.Title;
-        info.author = pdfData.info?.Author;
+        const layout = await readPdfLayout(buffer);
+        info.pages = layout.numpages;
+        info.title = layout.info?.Title;
+        info.author = layout.info?.Author;
+        info.has_text_layer = layout.pages_without_text.length < layout.numpages;
+        info.pages_without_text = layout.pages_without_text;
+      } else if (SPREADSHEET_FORMATS.includes(format)) {
+        info.sheets = getSpreadsheetInfo(await fs.readFile(filePath), format);
+      } else if (format === 'rtf' || format === 'odt') {
+        const document = await readLegacyDocument(await fs.readFile(filePath), format);
+        info.title = document.metadata.title;
+        info.author = document.metadata.author;
+      } else if (format === 'pptx' || format === 'odp') {
+        const presentation = await readPresentation(await fs.readFile(filePath), format);
+        info.slides = presentation.slides.length;
+        info.title = presentation.metadata.title;
+        info.author = presentation.metadata.author;
+      } else if (format === 'epub') {
+        const epub = await readEpub(await fs.readFile(filePath));
+        info.title = epub.metadata.title;
+        info.author = epub.metadata.author;
       } else if (format === 'docx') {
         const buffer = await fs.readFile(filePath);
         const result = await mammoth.extractRawText({ buffer });
@@ -205,36 +676,125 @@ export class DocumentConverter {
     return info;
   }
 
+  /**
+   * 将文档切分为适合送入模型上下文的块并分页返回（见 chunker.ts）。
+   * 最近的分块结果保留在内存中，按 cursor 翻页时不必重新读取文档。
+   */
+  async chunkDocument(
+    input: Buffer,
+    fileName: string,
+    request: ChunkRequest = {},
+    options: ConversionOptions = {},
+    signal?: AbortSignal
+  ): Promise<ChunkPage> {
+    const format = this.detectFormat(fileName);
+    if (!this.isConversionSupported(format, 'json')) {
+      throw new ToolError('UNSUPPORTED_CONVERSION', `Cannot chunk ${format} files; chunking supports the document formats that convert to json`, {
+        input_format: format,
+      });
+    }
+    const { cursor, max_chunks, ...chunkOptions } = request;
+    const resolved = resolveChunkOptions(chunkOptions);
+    // 指纹覆盖文件内容、分块选项与影响读取结果的转换选项
+    const fingerprint = createHash('sha256')
+      .update(input)
+      .update(JSON.stringify({
+        format,
+        ...resolved,
+        pdf_layout: options.pdf_layout,
+        ocr: options.ocr,
+        ocr_languages: options.ocr_languages,
+        spreadsheet_options: options.spreadsheet_options,
+      }))
+      .digest('hex')
+      .slice(0, 32);
+
+    let chunked = this.chunkCache.get(fingerprint);
+    if (chunked) {
+      this.chunkCache.delete(fingerprint);
+    } else {
+      // 分块只需要文本，不提取图片
+      const content = await this.readDocument(input, format, { ...options, extract_images: false }, undefined, signal);
+      chunked = chunkDocumentTree(await this.buildTree(content), resolved);
+    }
+    this.chunkCache.set(fingerprint, chunked);
+    if (this.chunkCache.size > CHUNK_CACHE_ENTRIES) {
+      this.chunkCache.delete(this.chunkCache.keys().next().value as string);
+    }
+    return paginateChunks(chunked, fingerprint, cursor, max_chunks);
+  }
+
   getSupportedFormats() {
     const imageFormats = this.imageConverter.getSupportedImageFormats();
+    // 图像还可以通过 OCR 识别为文本
+    const imageTargets = [...imageFormats.output_formats, ...OCR_TARGET_FORMATS];
     return {
-      input_formats: ['pdf', 'docx', 'doc', 'html', 'htm', 'md', 'txt', ...imageFormats.input_formats],
-      output_formats: ['pdf', 'docx', 'html', 'md', 'txt', ...imageFormats.output_formats],
+      input_formats: ['pdf', 'docx', 'doc', 'rtf', 'odt', 'html', 'htm', 'md', 'txt', 'epub', 'pptx', 'odp', ...SPREADSHEET_FORMATS, ...imageFormats.input_formats],
+      output_formats: ['pdf', 'docx', 'html', 'md', 'txt', 'epub', 'json', 'hocr', ...imageFormats.output_formats],
       conversion_matrix: {
-        pdf: ['txt', 'md', 'html'],
-        docx: ['txt', 'md', 'html', 'pdf'],
-        doc: ['txt', 'md', 'html', 'pdf'],
-        html: ['txt', 'md', 'pdf'],
-        md: ['html', 'pdf', 'txt'],
-        txt: ['html', 'md', 'pdf'],
+        pdf: ['txt', 'md', 'html', 'docx', 'epub', 'json', ...PDF_RASTER_FORMATS],
+        docx: ['txt', 'md', 'html', 'pdf', 'epub', 'json'],
+        doc: ['txt', 'md', 'html', 'pdf', 'docx', 'epub', 'json'],
+        rtf: ['txt', 'md', 'html', 'pdf', 'docx', 'epub', 'json'],
+        odt: ['txt', 'md', 'html', 'pdf', 'docx', 'epub', 'json'],
+        html: ['txt', 'md', 'pdf', 'docx', 'epub', 'json'],
+        md: ['html', 'pdf', 'txt', 'docx', 'epub', 'json'],
+        txt: ['html', 'md', 'pdf', 'docx', 'epub', 'json'],
+        epub: ['txt', 'md', 'html', 'pdf', 'docx', 'json'],
+        xlsx: ['html', 'md', 'txt', 'pdf', 'json'],
+        xls: ['html', 'md', 'txt', 'pdf', 'json'],
+        ods: ['html', 'md', 'txt', 'pdf', 'json'],
+        csv: ['html', 'md', 'txt', 'pdf', 'json'],
+        pptx: ['md', 'html', 'txt', 'pdf', 'json'],
+        odp: ['md', 'html', 'txt', 'pdf', 'json'],
         // 图像格式转换矩阵
-        jpg: imageFormats.output_formats,
-        jpeg: imageFormats.output_formats,
-        png: imageFormats.output_formats,
-        webp: imageFormats.output_formats,
-        avif: imageFormats.output_formats,
-        tiff: imageFormats.output_formats,
-        gif: imageFormats.output_formats,
-        bmp: imageFormats.output_formats,
-        svg: imageFormats.output_formats,
-        heic: imageFormats.output_formats,
-        heif: imageFormats.output_formats,
+        jpg: imageTargets,
+        jpeg: imageTargets,
+        png: imageTargets,
+        webp: imageTargets,
+        avif: imageTargets,
+        tiff: imageTargets,
+        gif: imageTargets,
+        bmp: imageTargets,
+        svg: imageTargets,
+        heic: imageTargets,
+        heif: imageTargets,
       },
-      image_features: imageFormats.features,
+      image_features: { ...imageFormats.features, ocr: true },
+      // json 输出（文档树）的 JSON Schema
+      output_schemas: { json: DOCUMENT_TREE_SCHEMA },
     };
   }
 
-  private detectFormat(filePath: string): string {
+  private isPdfRasterization(inputFormat: string, targetFormat: string): boolean {
+    return inputFormat === 'pdf' && PDF_RASTER_FORMATS.includes(targetFormat);
+  }
+
+  isConversionSupported(inputFormat: string, targetFormat: string): boolean {
+    const matrix: Record<string, string[]> = this.getSupportedFormats().conversion_matrix;
+    return (matrix[inputFormat] || []).includes(targetFormat);
+  }
+
+  // 输入/输出组合不在转换矩阵中时抛出 UNSUPPORTED_CONVERSION
+  assertConversionSupported(inputFormat: string, targetFormat: string) {
+    if (!this.isConversionSupported(inputFormat, targetFormat)) {
+      throw this.unsupportedConversionError(inputFormat, targetFormat);
+    }
+  }
+
+  private unsupportedConversionError(inputFormat: string, targetFormat: string): ToolError {
+    const matrix: Record<string, string[]> = this.getSupportedFormats().conversion_matrix;
+    const supported = matrix[inputFormat] || [];
+    return new ToolError(
+      'UNSUPPORTED_CONVERSION',
+      supported.length > 0
+        ? `Cannot convert ${inputFormat} to ${targetFormat}; supported targets for ${inputFormat}: ${supported.join(', ')}`
+        : `Unsupported input format: ${inputFormat}`,
+      { input_format: inputFormat, target_format: targetFormat, supported_targets: supported }
+    );
+  }
+
+  detectFormat(filePath: string): string {
     const ext = path.extname(filePath).toLowerCase();
     const mimeType = mime.lookup(filePath);
     
@@ -246,6 +806,10 @@ export class DocumentConverter {
         return 'docx';
       case '.doc':
         return 'doc';
+      case '.rtf':
+        return 'rtf';
+      case '.odt':
+        return 'odt';
       case '.html':
       case '.htm':
         return 'html';
@@ -254,6 +818,20 @@ export class DocumentConverter {
         return 'md';
       case '.txt':
         return 'txt';
+      case '.epub':
+        return 'epub';
+      case '.xlsx':
+        return 'xlsx';
+      case '.xls':
+        return 'xls';
+      case '.ods':
+        return 'ods';
+      case '.csv':
+        return 'csv';
+      case '.pptx':
+        return 'pptx';
+      case '.odp':
+        return 'odp';
       // 图像格式
       case '.jpg':
       case '.jpeg':
@@ -280,6 +858,11 @@ export class DocumentConverter {
       default:
         if (mimeType) {
           if (mimeType.includes('pdf')) return 'pdf';
+          if (mimeType.includes('epub')) return 'epub';
+          if (mimeType.includes('rtf')) return 'rtf';
+          if (mimeType.includes('opendocument.text')) return 'odt';
+          if (mimeType.includes('presentationml')) return 'pptx';
+          if (mimeType.includes('opendocument.presentation')) return 'odp';
           if (mimeType.includes('word')) return 'docx';
           if (mimeType.includes('html')) return 'html';
           if (mimeType.startsWith('image/')) {
@@ -290,68 +873,183 @@ export class DocumentConverter {
     }
   }
 
-  private async readDocument(
-    filePath: string,
+  /**
+   * 读取文档内容。传入 images 时提取嵌入的图片（DOCX 图片、PDF 图片 XObject、
+   * HTML/Markdown 中的 base64 data URI），并将 HTML/Markdown 中的图片地址改写为提取出的文件。
+   */
+  async readDocument(
+    source: string | Buffer,
+    format: string,
+    options: ConversionOptions = {},
+    images?: ImageCollector,
+    signal?: AbortSignal
+  ): Promise<DocumentContent> {
+    return { format, ...(await this.readContent(source, format, options, images, signal)) };
+  }
+
+  private async readContent(
+    source: string | Buffer,
     format: string,
-    options: ConversionOptions
-  ): Promise<{ text: string; html?: string; metadata?: any }> {
-    const buffer = await fs.readFile(filePath);
+    options: ConversionOptions,
+    images: ImageCollector | undefined,
+    signal: AbortSignal | undefined
+  ): Promise<DocumentContent> {
+    const buffer = Buffer.isBuffer(source) ? source : await fs.readFile(source);
+    const baseDir = Buffer.isBuffer(source) ? {} : { base_dir: path.dirname(path.resolve(source)) };
     
     switch (format) {
       case 'pdf': {
-        const pdfData = await (pdfParse as any)(buffer);
+        // 没有文字层的页面（扫描页）默认经 OCR 识别后参与版面分析
+        const ocrMode = options.ocr ?? 'auto';
+        const layout = await readPdfLayout(buffer, {
+          ocr: ocrMode === 'never'
+            ? undefined
+            : (pages) => recognizePdfPages(buffer, pages, this.ocr, { languages: options.ocr_languages, signal }),
+          ocrAllPages: ocrMode === 'always',
+        });
+        // 默认用版面分析重建的文档结构；pdf_layout 为 false 时只输出纯文本
         return {
-          text: pdfData.text,
-          metadata: pdfData.info,
+          text: layout.text,
+          ...(options.pdf_layout === false ? {} : { html: layout.html }),
+          metadata: layout.info,
+          ...baseDir,
+          ...(layout.ocr_pages.length > 0 ? { ocr_pages: layout.ocr_pages } : {}),
+          ...(images ? { images: await extractPdfImages(buffer, images) } : {}),
         };
       }
       
       case 'docx': {
-        const result = await mammoth.convertToHtml({ buffer });
+        // 提取图片时由 mammoth 的图片处理器写出文件，否则保持默认的 base64 内联
+        const result = await mammoth.convertToHtml(
+          { buffer },
+          images
+            ? {
+              convertImage: mammoth.images.imgElement(async (image) => ({
+                src: await images.saveAndLink(await image.read(), image.contentType),
+              })),
+            }
+            : undefined
+        );
         const textResult = await mammoth.extractRawText({ buffer });
         return {
           text: textResult.value,
           html: result.value,
           metadata: result.messages,
+          ...baseDir,
+          ...(images ? { images: images.paths } : {}),
+        };
+      }
+      
+      case 'doc':
+      case 'rtf':
+      case 'odt': {
+        // 优先通过 LibreOffice 规范化为 DOCX 后按 DOCX 读取（保留样式、表格与图片）
+        const docx = await this.normalizeToDocxViaLibreOffice(buffer, format, signal);
+        this.throwIfAborted(signal);
+        if (docx) {
+          return { ...(await this.readContent(docx, 'docx', options, images, signal)), ...baseDir };
+        }
+        // 未安装 LibreOffice 时使用内置解析器（DOC 只能提取文本）
+        const document = await readLegacyDocument(buffer, format);
+        const html = images ? await extractDataUriImages(document.html, images) : document.html;
+        return {
+          text: document.text ?? htmlToPlainText(html),
+          html,
+          metadata: document.metadata,
+          ...baseDir,
+          ...(images ? { images: images.paths } : {}),
         };
       }
       
       case 'html': {
-        const htmlContent = buffer.toString('utf-8');
+        let htmlContent = buffer.toString('utf-8');
+        if (images) {
+          htmlContent = await extractDataUriImages(htmlContent, images);
+        }
         const text = this.turndownService.turndown(htmlContent);
         return {
           text,
           html: htmlContent,
+          ...baseDir,
+          ...(images ? { images: images.paths } : {}),
         };
       }
       
       case 'md': {
-        const mdContent = buffer.toString('utf-8');
+        const { body, attributes } = splitFrontMatter(buffer.toString('utf-8'));
+        let mdContent = body;
+        if (images) {
+          mdContent = await extractDataUriImages(mdContent, images);
+        }
         const html = await marked(mdContent);
         return {
           text: mdContent,
           html,
+          ...(Object.keys(attributes).length > 0 ? { metadata: attributes } : {}),
+          ...baseDir,
+          ...(images ? { images: images.paths } : {}),
+        };
+      }
+      
+      case 'xlsx':
+      case 'xls':
+      case 'ods':
+      case 'csv': {
+        // 每个工作表转换为一个表格；纯文本输出为制表符分隔
+        const sheets = readSpreadsheet(buffer, format, options.spreadsheet_options);
+        return {
+          text: sheetsToTsv(sheets),
+          html: sheetsToHtml(sheets, { headings: format !== 'csv' }),
+          ...baseDir,
+        };
+      }
+      
+      case 'pptx':
+      case 'odp': {
+        // 每张幻灯片一节：标题作为二级标题，正文、表格、图片之后附演讲者备注
+        const presentation = await readPresentation(buffer, format);
+        const slidesHtml = presentationToHtml(presentation);
+        const html = images ? await extractDataUriImages(slidesHtml, images) : slidesHtml;
+        return {
+          text: presentationToText(presentation),
+          html,
+          metadata: { ...presentation.metadata, slides: presentation.slides.length },
+          ...baseDir,
+          ...(images ? { images: images.paths } : {}),
+        };
+      }
+      
+      case 'epub': {
+        // 按阅读顺序合并章节，图片以 data URI 内联，提取图片时与 HTML 一样处理
+        const epub = await readEpub(buffer);
+        const html = images ? await extractDataUriImages(epub.html, images) : epub.html;
+        return {
+          text: htmlToPlainText(html),
+          html,
+          metadata: epub.metadata,
+          ...baseDir,
+          ...(images ? { images: images.paths } : {}),
         };
       }
       
       case 'txt':
       default: {
         const text = buffer.toString('utf-8');
-        return { text };
+        return { text, ...baseDir };
       }
     }
   }
 
-  private async writeDocument(
-    content: { text: string; html?: string; metadata?: any },
-    outputPath: string,
+  // 将文档内容渲染为目标格式的二进制数据，不涉及文件系统
+  async renderDocument(
+    content: DocumentContent,
     format: string,
-    options: ConversionOptions
-  ): Promise<Partial<ConversionResult>> {
+    options: ConversionOptions = {},
+    context: ConversionContext = {}
+  ): Promise<{ buffer: Buffer } & Partial<ConversionResult>> {
     switch (format) {
       case 'txt': {
-        await fs.writeFile(outputPath, content.text, 'utf-8');
-        return {};
+        return { buffer: Buffer.from(content.text, 'utf-8') };
       }
       
       case 'md': {
@@ -359,8 +1057,7 @@ export class DocumentConverter {
         if (content.html) {
           markdown = this.turndownService.turndown(content.html);
         }
-        await fs.writeFile(outputPath, markdown, 'utf-8');
-        return {};
+        return { buffer: Buffer.from(markdown, 'utf-8') };
       }
       
       case 'html': {
@@ -378,6 +1075,10 @@ export class DocumentConverter {
     body { font-family: Arial, sans-serif; max-width: 800px; margin: 0 auto; padding: 20px; }
     pre { background: #f5f5f5; padding: 10px; border-radius: 5px; }
     code { background: #f5f5f5; padding: 2px 4px; border-radius: 3px; }
+    table { border-collapse: collapse; margin: 1em 0; }
+    th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; vertical-align: top; }
+    thead { display: table-header-group; }
+    tr { page-break-inside: avoid; }
   </style>
 </head>
 <body>
@@ -385,44 +1086,119 @@ ${html}
 </body>
 </html>`;
         
-        await fs.writeFile(outputPath, fullHtml, 'utf-8');
-        return {};
+        return { buffer: Buffer.from(fullHtml, 'utf-8') };
       }
       
       case 'pdf': {
-        return await this.convertToPdf(content, outputPath, options);
+        return await this.convertToPdf(content, options, context.signal);
       }
       
       case 'docx': {
-        return await this.convertToDocx(content, outputPath);
+        return await this.convertToDocx(content, context);
+      }
+      
+      case 'json': {
+        const tree = await this.buildTree(content);
+        return { buffer: Buffer.from(JSON.stringify(tree, null, 2), 'utf-8') };
+      }
+      
+      case 'epub': {
+        const guard = context.pathGuard ?? this.pathGuard;
+        const buffer = await htmlToEpub(content.html || (await marked(content.text)), {
+          title: metadataString(content.metadata, 'title'),
+          author: metadataString(content.metadata, 'author'),
+          language: metadataString(content.metadata, 'language') || metadataString(content.metadata, 'lang'),
+          description: metadataString(content.metadata, 'description'),
+          loadResource: this.localResourceLoader(content, guard),
+        });
+        return { buffer };
       }
       
       default:
-        throw new Error(`Unsupported output format: ${format}`);
+        throw new ToolError('UNSUPPORTED_CONVERSION', `Unsupported output format: ${format}`, { target_format: format });
+    }
+  }
+
+  // 规范化的文档树；纯文本与 Markdown 源按 Markdown 解析
+  private async buildTree(content: DocumentContent): Promise<DocumentTree> {
+    return buildDocumentTree(content.html || (await marked(content.text)), {
+      sourceFormat: content.format || 'unknown',
+      title: metadataString(content.metadata, 'title'),
+      author: metadataString(content.metadata, 'author'),
+      metadata: {
+        ...(typeof content.metadata?.slides === 'number' ? { slides: content.metadata.slides } : {}),
+        ...(content.ocr_pages ? { ocr_pages: content.ocr_pages } : {}),
+      },
+    });
+  }
+
+  // 识别图像中的文字，输出纯文本、按版面重建的 Markdown 或 hOCR
+  private async recognizeImage(
+    inputPath: string,
+    targetFormat: string,
+    options: ConversionOptions,
+    signal?: AbortSignal
+  ): Promise<{ buffer: Buffer; metadata: any }> {
+    // 统一转为 PNG，Tesseract 不支持 WebP/AVIF/HEIC 等格式
+    const png = await sharp(inputPath).png().toBuffer();
+    const result = await this.ocr.recognize(png, {
+      languages: options.ocr_languages,
+      hocr: targetFormat === 'hocr',
+      signal,
+    });
+    let output = result.text;
+    if (targetFormat === 'md') {
+      output = this.turndownService.turndown(layoutToHtml([result.layout]));
+    } else if (targetFormat === 'hocr') {
+      output = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">
+<html xmlns="http://www.w3.org/1999/xhtml">
+<head>
+  <title>${path.basename(inputPath).replace(/&/g, '&amp;').replace(/</g, '&lt;')}</title>
+  <meta http-equiv="Content-Type" content="text/html; charset=utf-8" />
+  <meta name="ocr-system" content="tesseract.js" />
+  <meta name="ocr-capabilities" content="ocr_page ocr_carea ocr_par ocr_line ocrx_word" />
+</head>
+<body>
+${result.hocr || ''}
+</body>
+</html>
+`;
     }
+    return { buffer: Buffer.from(output, 'utf-8'), metadata: { ocr_confidence: result.confidence } };
   }
 
   private async convertToPdf(
-    content: { text: string; html?: string },
-    outputPath: string,
-    options?: ConversionOptions
-  ): Promise<Partial<ConversionResult>> {
-    let browser;
+    content: DocumentContent,
+    options?: ConversionOptions,
+    signal?: AbortSignal
+  ): Promise<{ buffer: Buffer } & Partial<ConversionResult>> {
     try {
-      browser = await puppeteer.launch({ headless: true });
-      const page = await browser.newPage();
-      
-      let html = content.html;
-      if (!html || (options && options.preserve_formatting === false)) {
-        html = await marked(content.text);
-      }
-      
-      const preferChinese = options?.pdf_options?.prefer_chinese_fonts ?? true;
-      const fontFamily = preferChinese
-        ? "'Microsoft YaHei','SimSun','Noto Sans SC','Arial',sans-serif"
-        : "Arial, sans-serif";
-      
-      const fullHtml = `<!DOCTYPE html>
+      this.throwIfAborted(signal);
+      // 使用共享浏览器池渲染；取消时浏览器池会关闭页面，使正在进行的渲染失败返回
+      return await this.browserPool.withPage((page) => this.renderPdfPage(page, content, options), signal);
+    } catch (error) {
+      this.throwIfAborted(signal);
+      throw error;
+    }
+  }
+
+  private async renderPdfPage(
+    page: Page,
+    content: DocumentContent,
+    options?: ConversionOptions
+  ): Promise<{ buffer: Buffer } & Partial<ConversionResult>> {
+    let html = content.html;
+    if (!html || (options && options.preserve_formatting === false)) {
+      html = await marked(content.text);
+    }
+    
+    const preferChinese = options?.pdf_options?.prefer_chinese_fonts ?? true;
+    const fontFamily = preferChinese
+      ? "'Microsoft YaHei','SimSun','Noto Sans SC','Arial',sans-serif"
+      : "Arial, sans-serif";
+    
+    const fullHtml = `<!DOCTYPE html>
 <html>
 <head>
   <meta charset="UTF-8">
@@ -437,50 +1213,70 @@ ${html}
 ${html}
 </body>
 </html>`;
-      
-      await page.setContent(fullHtml, { waitUntil: 'networkidle0' });
-      
-      const esc = (s: string) => String(s).replace(/[&<>]/g, (c) => ({'&': '&amp;', '<': '&lt;', '>': '&gt;'}[c] || c));
-      
-      const pdfOpts = options?.pdf_options || {};
-      const hasHeaderFooter = !!(pdfOpts.header || pdfOpts.footer);
-      
-      await page.pdf({
-        path: outputPath,
-        format: (pdfOpts.format as any) || 'A4',
-        landscape: pdfOpts.landscape || false,
-        printBackground: pdfOpts.printBackground ?? true,
-        margin: {
-          top: pdfOpts.margin?.top || '20mm',
-          right: pdfOpts.margin?.right || '20mm',
-          bottom: pdfOpts.margin?.bottom || '20mm',
-          left: pdfOpts.margin?.left || '20mm',
-        },
-        ...(pdfOpts.scale ? { scale: pdfOpts.scale } : {}),
-        ...(hasHeaderFooter ? {
-          displayHeaderFooter: true,
-          headerTemplate: pdfOpts.header
-            ? `<div style="font-size:10px; color:#555; margin-left: 10mm; margin-right: 10mm;">${esc(pdfOpts.header)}</div>`
-            : '<div></div>',
-          footerTemplate: pdfOpts.footer
-            ? `<div style="font-size:10px; color:#555; margin-left: 10mm; margin-right: 10mm; width:100%; text-align:center;">${esc(pdfOpts.footer)}<span style="margin-left:8px;"><span class="pageNumber"></span>/<span class="totalPages"></span></span></div>`
-            : `<div style="font-size:10px; color:#555; text-align:center; width:100%;"><span class="pageNumber"></span>/<span class="totalPages"></span></div>`
-        } : {})
-      });
-      
-      return {};
-    } finally {
-      if (browser) {
-        await browser.close();
+    
+    await page.setContent(fullHtml, { waitUntil: 'networkidle0' });
+    
+    const esc = (s: string) => String(s).replace(/[&<>]/g, (c) => ({'&': '&amp;', '<': '&lt;', '>': '&gt;'}[c] || c));
+    
+    const pdfOpts = options?.pdf_options || {};
+    const hasHeaderFooter = !!(pdfOpts.header || pdfOpts.footer);
+    
+    const pdf = await page.pdf({
+      format: (pdfOpts.format as any) || 'A4',
+      landscape: pdfOpts.landscape || false,
+      printBackground: pdfOpts.printBackground ?? true,
+      margin: {
+        top: pdfOpts.margin?.top || '20mm',
+        right: pdfOpts.margin?.right || '20mm',
+        bottom: pdfOpts.margin?.bottom || '20mm',
+        left: pdfOpts.margin?.left || '20mm',
+      },
+      ...(pdfOpts.scale ? { scale: pdfOpts.scale } : {}),
+      ...(hasHeaderFooter ? {
+        displayHeaderFooter: true,
+        headerTemplate: pdfOpts.header
+          ? `<div style="font-size:10px; color:#555; margin-left: 10mm; margin-right: 10mm;">${esc(pdfOpts.header)}</div>`
+          : '<div></div>',
+        footerTemplate: pdfOpts.footer
+          ? `<div style="font-size:10px; color:#555; margin-left: 10mm; margin-right: 10mm; width:100%; text-align:center;">${esc(pdfOpts.footer)}<span style="margin-left:8px;"><span class="pageNumber"></span>/<span class="totalPages"></span></span></div>`
+          : `<div style="font-size:10px; color:#555; text-align:center; width:100%;"><span class="pageNumber"></span>/<span class="totalPages"></span></div>`
+      } : {})
+    });
+    
+    return { buffer: Buffer.from(pdf) };
+  }
+
+  // 只加载本地文件：相对路径基于源文件目录解析，且必须在沙箱允许读取的范围内
+  private localResourceLoader(content: DocumentContent, guard: PathGuard): (src: string) => Promise<Buffer | undefined> {
+    return async (src) => {
+      if (/^[a-z][a-z0-9+.-]*:/i.test(src) && !src.startsWith('file:')) {
+        return undefined;
       }
-    }
+      const filePath = src.startsWith('file:') ? fileURLToPath(src) : decodeURIComponent(src.split(/[?#]/)[0]);
+      if (!path.isAbsolute(filePath) && !content.base_dir) {
+        return undefined;
+      }
+      const resolved = await guard.assertReadable(path.resolve(content.base_dir || '', filePath));
+      return fs.readFile(resolved);
+    };
   }
 
   private async convertToDocx(
-    content: { text: string; html?: string },
-    outputPath: string
-  ): Promise<Partial<ConversionResult>> {
-    // Convert text to paragraphs
+    content: DocumentContent,
+    context: ConversionContext = {}
+  ): Promise<{ buffer: Buffer } & Partial<ConversionResult>> {
+    // 有 HTML 时保留标题、列表、链接、表格和图片等结构
+    if (content.html) {
+      const guard = context.pathGuard ?? this.pathGuard;
+      const buffer = await htmlToDocx(content.html, {
+        title: metadataString(content.metadata, 'title'),
+        author: metadataString(content.metadata, 'author'),
+        loadImage: this.localResourceLoader(content, guard),
+      });
+      return { buffer };
+    }
+
+    // 纯文本按行转换为段落
     const lines = content.text.split('\n');
     const paragraphs = lines.map(line => {
       if (line.trim() === '') {
@@ -499,13 +1295,12 @@ ${html}
     });
 
     const buffer = await Packer.toBuffer(doc);
-    await fs.writeFile(outputPath, buffer);
     
-    return {};
+    return { buffer };
   }
 
   // 使用 /DocumentAssistant/docx_to_pdf_converter.py 进行 DOCX -> PDF 转换
-  private async convertDocxToPdfViaPython(inputPath: string, outputPath: string): Promise<boolean> {
+  private async convertDocxToPdfViaPython(inputPath: string, outputPath: string, signal?: AbortSignal): Promise<boolean> {
     try {
       const scriptPath = path.resolve(process.cwd(), 'DocumentAssistant', 'docx_to_pdf_converter.py');
       const scriptExists = await fs.pathExists(scriptPath);
@@ -515,14 +1310,14 @@ ${html}
 
       // 优先尝试使用 'python'，失败则回退到 Windows 的 'py'
       const run = (cmd: string, args: string[]) => new Promise<boolean>((resolve) => {
-        const proc = spawn(cmd, args, { stdio: 'inherit', env: { ...process.env, DOCX_PDF_METHOD: 'word', DOCX_PDF_SKIP_MCP: '1' } });
+        const proc = spawn(cmd, args, { stdio: 'inherit', signal, env: { ...process.env, DOCX_PDF_METHOD: 'word', DOCX_PDF_SKIP_MCP: '1' } });
         proc.on('error', () => resolve(false));
         proc.on('close', (code) => resolve(code === 0));
       });
 
       const args = [scriptPath, inputPath, outputPath];
       let ok = await run('python', args);
-      if (!ok) {
+      if (!ok && !signal?.aborted) {
         ok = await run('py', ['-3', ...args]);
       }
 
@@ -540,10 +1335,10 @@ ${html}
   }
 
   // 在 Windows 上通过 VBScript 调用 Microsoft Word COM 进行 DOCX -> PDF 转换
-  private async convertDocxToPdfViaWordCom(inputPath: string, outputPath: string): Promise<boolean> {
+  private async convertDocxToPdfViaWordCom(inputPath: string, outputPath: string, signal?: AbortSignal): Promise<boolean> {
     if (process.platform !== 'win32') return false;
     try {
-      const tempDir = await fs.mkdtemp(path.join(require('os').tmpdir(), 'docx2pdf-'));
+      const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'docx2pdf-'));
       const vbsPath = path.join(tempDir, 'docx2pdf.vbs');
       const vbs = [
         'On Error Resume Next',
@@ -567,7 +1362,7 @@ ${html}
       await fs.writeFile(vbsPath, vbs, 'utf-8');
 
       const run = () => new Promise<boolean>((resolve) => {
-        const proc = spawn('cscript', ['//nologo', vbsPath, inputPath, outputPath], { stdio: 'inherit' });
+        const proc = spawn('cscript', ['//nologo', vbsPath, inputPath, outputPath], { stdio: 'inherit', signal });
         proc.on('error', () => resolve(false));
         proc.on('close', async (code) => {
           if (code === 0 && (await fs.pathExists(outputPath))) {
@@ -585,18 +1380,39 @@ ${html}
       return false;
     }
   }
-  // 使用 LibreOffice headless 进行 DOC/DOCX -> PDF 转换（高保真回退）
-  private async convertOfficeToPdfViaLibreOffice(inputPath: string, outputPath: string): Promise<boolean> {
+  private prefersLibreOffice(inputFormat: string, targetFormat: string): boolean {
+    return (['pptx', 'odp', 'rtf', 'odt'].includes(inputFormat) && targetFormat === 'pdf')
+      || (LEGACY_DOCUMENT_FORMATS.includes(inputFormat) && targetFormat === 'docx');
+  }
+
+  // 将 DOC/RTF/ODT 通过 LibreOffice 规范化为 DOCX；未安装 LibreOffice 或转换失败时返回 undefined
+  private async normalizeToDocxViaLibreOffice(buffer: Buffer, format: string, signal?: AbortSignal): Promise<Buffer | undefined> {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-office-'));
+    try {
+      const inputPath = path.join(tempDir, `input.${format}`);
+      const outputPath = path.join(tempDir, 'output', 'input.docx');
+      await fs.writeFile(inputPath, buffer);
+      if (!(await this.convertViaLibreOffice(inputPath, outputPath, 'docx', signal))) {
+        return undefined;
+      }
+      return await fs.readFile(outputPath);
+    } finally {
+      await fs.remove(tempDir);
+    }
+  }
+
+  // 使用 LibreOffice headless 转换 Office 文档（DOC/DOCX/RTF/ODT/PPTX/ODP -> PDF，以及旧格式 -> DOCX）
+  private async convertViaLibreOffice(inputPath: string, outputPath: string, targetFormat: string, signal?: AbortSignal): Promise<boolean> {
     try {
       const outDir = path.dirname(outputPath);
       await fs.ensureDir(outDir);
-      const args = ['--headless', '--convert-to', 'pdf', '--outdir', outDir, inputPath];
+      const args = ['--headless', '--convert-to', targetFormat, '--outdir', outDir, inputPath];
       const run = (cmd: string) => new Promise<boolean>((resolve) => {
-        const proc = spawn(cmd, args, { stdio: 'inherit' });
+        const proc = spawn(cmd, args, { stdio: 'inherit', signal });
         proc.on('error', () => resolve(false));
         proc.on('close', async (code) => {
           if (code === 0) {
-            const produced = path.join(outDir, path.basename(inputPath, path.extname(inputPath)) + '.pdf');
+            const produced = path.join(outDir, `${path.basename(inputPath, path.extname(inputPath))}.${targetFormat}`);
             if (await fs.pathExists(produced)) {
               await fs.move(produced, outputPath, { overwrite: true });
               const stat = await fs.stat(outputPath);
@@ -609,7 +1425,7 @@ ${html}
       });
 
       let ok = await run('soffice');
-      if (!ok) {
+      if (!ok && !signal?.aborted) {
         ok = await run('lowriter');
       }
       return ok;
@@ -617,4 +1433,104 @@ ${html}
       return false;
     }
   }
-}
\ No newline at end of file
+
+  private throwIfAborted(signal?: AbortSignal) {
+    if (signal?.aborted) {
+      throw new ConversionCancelledError();
+    }
+  }
+}
+
+// 读取元数据中的字符串字段，兼容 PDF 信息字典的首字母大写键名（Title、Author）
+function metadataString(metadata: any, key: string): string | undefined {
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+    return undefined;
+  }
+  const value = metadata[key] ?? metadata[key.charAt(0).toUpperCase() + key.slice(1)];
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+// 文档中是否引用了本地文件（HTML 属性、CSS url()、Markdown 链接与图片）；
+// 带协议的地址（file: 除外）、协议相对地址与页内锚点不算
+function referencesLocalFiles(source: string): boolean {
+  const patterns = [
+    /\b(?:src|href|poster|data)\s*=\s*["']?([^"'\s>]+)/gi,
+    /url\(\s*["']?([^"')\s]+)/gi,
+    /\]\(\s*<?([^)\s>]+)/g,
+    /^\s{0,3}\[[^\]]+\]:\s*<?([^\s>]+)/gm,
+  ];
+  return patterns.some((pattern) => Array.from(source.matchAll(pattern)).some(([, target]) => {
+    if (target.startsWith('#') || target.startsWith('//')) return false;
+    return !/^[a-z][a-z0-9+.-]*:/i.test(target) || /^file:/i.test(target);
+  }));
+}
+
+// 拆分 Markdown 开头的 YAML front matter，只解析单行的 `key: value` 字段
+function splitFrontMatter(markdown: string): { body: string; attributes: Record<string, string> } {
+  const match = markdown.match(/^\uFEFF?---\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)\s*(?:\r?\n|$)/);
+  if (!match) {
+    return { body: markdown, attributes: {} };
+  }
+  const attributes: Record<string, string> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const field = line.match(/^([A-Za-z_][\w-]*)\s*:\s*(.*)$/);
+    if (field && field[2].trim()) {
+      attributes[field[1].toLowerCase()] = field[2].trim().replace(/^(['"])(.*)\1$/, '$2');
+    }
+  }
+  return { body: markdown.slice(match[0].length), attributes };
+}
+
+// 块级元素各自成段；相邻的列表项、表格行之间只换一行
+const PLAIN_TEXT_BLOCKS = new Set([
+  'p', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'pre', 'section', 'article', 'header', 'footer',
+  'aside', 'nav', 'figure', 'figcaption', 'table', 'ul', 'ol', 'dl', 'hr', 'li', 'tr', 'dt', 'dd',
+]);
+const PLAIN_TEXT_LINES = new Set(['li', 'tr', 'dt', 'dd']);
+
+// HTML 转纯文本（与 DOCX 的 extractRawText 一致，不含 Markdown 标记）：表格单元格以制表符分隔，忽略图片、脚本与样式
+function htmlToPlainText(html: string): string {
+  const blocks: Array<{ text: string; line?: string }> = [];
+  let current = '';
+  const flush = (line?: string) => {
+    const text = current.split('\n').map((part) => part.replace(/ +/g, ' ').trim()).join('\n').replace(/^\n+|[\t\n]+$/g, '');
+    if (text.trim()) blocks.push({ text, line });
+    current = '';
+  };
+
+  const walk = (node: Node) => {
+    if (node instanceof TextNode) {
+      const text = node.text.replace(/\s+/g, ' ');
+      current += current === '' || /[\t\n]$/.test(current) ? text.replace(/^ /, '') : text;
+      return;
+    }
+    if (!(node instanceof HTMLElement)) return;
+    const tag = (node.tagName || '').toLowerCase();
+    if (tag === 'script' || tag === 'style' || tag === 'head') return;
+    if (tag === 'br') {
+      current += '\n';
+      return;
+    }
+    if (tag === 'pre') {
+      flush();
+      blocks.push({ text: node.text.replace(/\n+$/, '') });
+      return;
+    }
+    const block = PLAIN_TEXT_BLOCKS.has(tag);
+    if (block) flush();
+    node.childNodes.forEach(walk);
+    if (tag === 'td' || tag === 'th') {
+      current = `${current.trim()}\t`;
+    } else if (block) {
+      flush(PLAIN_TEXT_LINES.has(tag) ? tag : undefined);
+    }
+  };
+  parse(html, { comment: false, blockTextElements: { script: true, noscript: true, style: true } }).childNodes.forEach(walk);
+  flush();
+
+  return blocks.map((block, index) => {
+    const previous = blocks[index - 1];
+    const separator = index === 0 ? '' : previous.line && previous.line === block.line ? '\n' : '\n\n';
+    return separator + block.text;
+  }).join('');
+}
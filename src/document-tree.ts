@@ -0,0 +1,759 @@
+import { HTMLElement, Node, parse, TextNode } from 'node-html-parser';
+
+/**
+ * 规范化的文档树（json 输出格式）：由读取文档得到的 HTML 构建，
+ * 标题按级别嵌套为 section，正文为段落、列表、表格、图片、代码块与引用块，脚注单独列出。
+ * 结构由 DOCUMENT_TREE_SCHEMA 描述。
+ */
+
+export const DOCUMENT_TREE_VERSION = 1;
+export const DOCUMENT_TREE_SCHEMA_ID = 'urn:mcp-document-converter:document-tree:1';
+
+export type Mark = 'bold' | 'italic' | 'underline' | 'strikethrough' | 'code' | 'superscript' | 'subscript';
+
+export type InlineNode =
+  | { type: 'text'; text: string; marks?: Mark[] }
+  | { type: 'link'; href: string; children: InlineNode[] }
+  | { type: 'image'; src?: string; mime_type?: string; alt: string; title?: string }
+  | { type: 'footnote_ref'; id: string; label?: string }
+  | { type: 'line_break' };
+
+export interface SectionNode {
+  type: 'section';
+  level: number;
+  // 标题的纯文本
+  title: string;
+  heading: InlineNode[];
+  id?: string;
+  page?: number;
+  children: BlockNode[];
+}
+
+export interface ParagraphNode {
+  type: 'paragraph';
+  text: string;
+  content: InlineNode[];
+  page?: number;
+}
+
+export interface ListNode {
+  type: 'list';
+  ordered: boolean;
+  start?: number;
+  items: Array<{ type: 'list_item'; checked?: boolean; children: BlockNode[] }>;
+  page?: number;
+}
+
+export interface TableCellNode {
+  type: 'table_cell';
+  text: string;
+  content: InlineNode[];
+  colspan?: number;
+  rowspan?: number;
+}
+
+export interface TableNode {
+  type: 'table';
+  caption?: string;
+  rows: Array<{ type: 'table_row'; header: boolean; cells: TableCellNode[] }>;
+  page?: number;
+}
+
+export interface ImageNode {
+  type: 'image';
+  // 文件路径或 URL；内联的 data URI 不输出，只给出 mime_type（提取图片后为图片路径）
+  src?: string;
+  mime_type?: string;
+  alt: string;
+  title?: string;
+  caption?: string;
+  page?: number;
+}
+
+export interface CodeNode {
+  type: 'code';
+  language?: string;
+  text: string;
+  page?: number;
+}
+
+export interface BlockquoteNode {
+  type: 'blockquote';
+  children: BlockNode[];
+  page?: number;
+}
+
+export type BlockNode =
+  | SectionNode
+  | ParagraphNode
+  | ListNode
+  | TableNode
+  | ImageNode
+  | CodeNode
+  | BlockquoteNode
+  | { type: 'thematic_break'; page?: number };
+
+export interface FootnoteNode {
+  type: 'footnote';
+  id: string;
+  children: BlockNode[];
+}
+
+export interface DocumentTree {
+  $schema: string;
+  type: 'document';
+  version: number;
+  metadata: {
+    source_format: string;
+    title?: string;
+    author?: string;
+    [key: string]: unknown;
+  };
+  children: BlockNode[];
+  footnotes: FootnoteNode[];
+}
+
+export interface DocumentTreeOptions {
+  sourceFormat: string;
+  title?: string;
+  author?: string;
+  // 其他元数据（如演示文稿的幻灯片数量），原样写入 metadata
+  metadata?: Record<string, unknown>;
+}
+
+const CONTAINER_TAGS = new Set(['html', 'body', 'main', 'article', 'section', 'div', 'header', 'footer', 'nav', 'aside', 'details', 'center', 'form', 'fieldset']);
+const BLOCK_TAGS = new Set([
+  ...CONTAINER_TAGS, 'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'table', 'pre', 'blockquote', 'hr',
+  'figure', 'figcaption', 'dl', 'dt', 'dd', 'li', 'summary', 'address',
+]);
+const IGNORED_TAGS = new Set(['script', 'style', 'head', 'title', 'meta', 'link', 'noscript', 'template', 'svg', 'button', 'input', 'select', 'textarea']);
+const MARK_TAGS: Record<string, Mark> = {
+  strong: 'bold', b: 'bold', em: 'italic', i: 'italic', u: 'underline', ins: 'underline',
+  s: 'strikethrough', del: 'strikethrough', strike: 'strikethrough', code: 'code', kbd: 'code', samp: 'code',
+  sup: 'superscript', sub: 'subscript',
+};
+// 脚注引用与脚注正文的常见写法：mammoth（footnote-1）、ODT/RTF 读取（fn-1）、GFM 脚注（fn:1 / fn-1）
+const FOOTNOTE_ID = /^(?:user-content-)?(?:fn|footnote|endnote)[-:]?[\w-]+$/;
+const FOOTNOTE_BACKREF = /^#(?:user-content-)?(?:fnref|footnote-ref|endnote-ref)[-:]?/;
+
+export function buildDocumentTree(html: string, options: DocumentTreeOptions): DocumentTree {
+  const root = parse(html, { comment: false, blockTextElements: {} });
+  const builder = new TreeBuilder();
+  builder.appendChildren(root, undefined, true);
+
+  const metadata: DocumentTree['metadata'] = { source_format: options.sourceFormat, ...(options.metadata || {}) };
+  const title = options.title || firstHeading(builder.children, 1);
+  if (title) metadata.title = title;
+  if (options.author) metadata.author = options.author;
+
+  return {
+    $schema: DOCUMENT_TREE_SCHEMA_ID,
+    type: 'document',
+    version: DOCUMENT_TREE_VERSION,
+    metadata,
+    children: builder.children,
+    footnotes: builder.footnotes,
+  };
+}
+
+/**
+ * 按文档顺序收集块节点；topLevel 时标题开启新的 section，
+ * 嵌套上下文（列表项、引用块、脚注）中的标题作为粗体段落。
+ */
+class TreeBuilder {
+  children: BlockNode[] = [];
+  footnotes: FootnoteNode[] = [];
+  private sections: SectionNode[] = [];
+  private inline: Node[] = [];
+  private inlinePage?: number;
+
+  appendChildren(element: HTMLElement, page: number | undefined, topLevel: boolean) {
+    const nodes = element.childNodes;
+    for (let index = 0; index < nodes.length; index++) {
+      const node = nodes[index];
+      if (!(node instanceof HTMLElement)) {
+        if (node instanceof TextNode) {
+          this.pushInline(node, page);
+        }
+        continue;
+      }
+
+      const tag = node.tagName?.toLowerCase() || '';
+      if (IGNORED_TAGS.has(tag)) continue;
+      if (!BLOCK_TAGS.has(tag)) {
+        this.pushInline(node, page);
+        continue;
+      }
+
+      this.flushInline();
+      const blockPage = pageOf(node) ?? page;
+
+      if (isFootnoteList(node)) {
+        this.collectFootnotes(node, blockPage);
+        continue;
+      }
+
+      switch (tag) {
+        case 'h1':
+        case 'h2':
+        case 'h3':
+        case 'h4':
+        case 'h5':
+        case 'h6': {
+          const heading = inlineContent(node);
+          if (heading.length === 0) break;
+          const level = Number(tag[1]);
+          if (topLevel) {
+            this.openSection(level, heading, node.getAttribute('id') || undefined, blockPage);
+          } else {
+            this.add({ type: 'paragraph', text: plainText(heading), content: [{ type: 'text', text: plainText(heading), marks: ['bold'] }], ...pageField(blockPage) });
+          }
+          break;
+        }
+        case 'p':
+        case 'dt':
+        case 'dd':
+        case 'summary':
+        case 'figcaption':
+        case 'address':
+          this.addParagraph(inlineContent(node), blockPage);
+          break;
+        case 'ul':
+        case 'ol':
+          this.add(listNode(node, blockPage));
+          break;
+        case 'li':
+          // 不在列表中的列表项按段落处理
+          this.appendChildren(node, blockPage, false);
+          this.flushInline();
+          break;
+        case 'table':
+          this.add(tableNode(node, blockPage));
+          break;
+        case 'pre': {
+          const code = node.querySelector('code');
+          const language = /(?:^|\s)(?:language|lang)-([\w+#.-]+)/.exec(code?.getAttribute('class') || '')?.[1];
+          this.add({ type: 'code', ...(language ? { language } : {}), text: (code || node).text.replace(/\n$/, ''), ...pageField(blockPage) });
+          break;
+        }
+        case 'blockquote':
+          this.add({ type: 'blockquote', children: nestedBlocks(node, blockPage, this.footnotes), ...pageField(blockPage) });
+          break;
+        case 'hr': {
+          // 脚注列表前的分隔线不单独输出
+          const next = nextElement(nodes, index);
+          if (!next || !isFootnoteList(next)) this.add({ type: 'thematic_break', ...pageField(blockPage) });
+          break;
+        }
+        case 'figure': {
+          const caption = node.querySelector('figcaption');
+          const images = node.querySelectorAll('img');
+          if (images.length > 0) {
+            for (const image of images) {
+              this.add({ ...imageNode(image, blockPage), ...(caption ? { caption: collapse(caption.text).trim() } : {}) });
+            }
+            node.querySelectorAll('table').forEach((table) => this.add(tableNode(table, blockPage)));
+          } else {
+            this.appendChildren(node, blockPage, topLevel);
+          }
+          break;
+        }
+        default:
+          // 容器元素：展开其中的块
+          this.appendChildren(node, blockPage, topLevel);
+      }
+    }
+    this.flushInline();
+  }
+
+  private pushInline(node: Node, page: number | undefined) {
+    if (this.inline.length === 0) this.inlinePage = page;
+    this.inline.push(node);
+  }
+
+  // 块元素之间的连续内联内容组成一个隐式段落
+  private flushInline() {
+    if (this.inline.length === 0) return;
+    const content = normalizeInlines(this.inline.flatMap((node) => inlineNodes(node, [])));
+    const page = this.inlinePage;
+    this.inline = [];
+    this.inlinePage = undefined;
+    this.addParagraph(content, page);
+  }
+
+  // 只含图片的段落输出为图片块
+  private addParagraph(content: InlineNode[], page: number | undefined) {
+    if (content.length === 0) return;
+    const images = content.filter((node) => node.type === 'image');
+    if (images.length > 0 && images.length === content.filter((node) => node.type !== 'line_break').length) {
+      for (const image of images) {
+        if (image.type === 'image') this.add({ ...image, ...pageField(page) });
+      }
+      return;
+    }
+    this.add({ type: 'paragraph', text: plainText(content), content, ...pageField(page) });
+  }
+
+  private openSection(level: number, heading: InlineNode[], id: string | undefined, page: number | undefined) {
+    while (this.sections.length > 0 && this.sections[this.sections.length - 1].level >= level) {
+      this.sections.pop();
+    }
+    const section: SectionNode = {
+      type: 'section',
+      level,
+      title: plainText(heading),
+      heading,
+      ...(id ? { id } : {}),
+      ...pageField(page),
+      children: [],
+    };
+    this.add(section);
+    this.sections.push(section);
+  }
+
+  private add(block: BlockNode) {
+    const parent = this.sections[this.sections.length - 1];
+    (parent ? parent.children : this.children).push(block);
+  }
+
+  private collectFootnotes(list: HTMLElement, page: number | undefined) {
+    for (const item of list.querySelectorAll('li')) {
+      const id = item.getAttribute('id');
+      if (!id || !FOOTNOTE_ID.test(id)) continue;
+      // 去掉返回正文的链接（↩ / ↑）
+      item.querySelectorAll('a').forEach((link) => {
+        if (FOOTNOTE_BACKREF.test(link.getAttribute('href') || '')) link.remove();
+      });
+      this.footnotes.push({ type: 'footnote', id, children: nestedBlocks(item, page, this.footnotes) });
+    }
+  }
+}
+
+function nestedBlocks(element: HTMLElement, page: number | undefined, footnotes: FootnoteNode[]): BlockNode[] {
+  const builder = new TreeBuilder();
+  builder.footnotes = footnotes;
+  builder.appendChildren(element, page, false);
+  return builder.children;
+}
+
+function listNode(list: HTMLElement, page: number | undefined): ListNode {
+  const ordered = list.tagName.toLowerCase() === 'ol';
+  const start = Number(list.getAttribute('start'));
+  const items: ListNode['items'] = [];
+  for (const item of list.childNodes) {
+    if (!(item instanceof HTMLElement) || item.tagName.toLowerCase() !== 'li') continue;
+    // GFM 任务列表：<li><input type="checkbox" checked> ...
+    const checkbox = item.childNodes.find((node): node is HTMLElement =>
+      node instanceof HTMLElement && node.tagName.toLowerCase() === 'input' && node.getAttribute('type') === 'checkbox');
+    items.push({
+      type: 'list_item',
+      ...(checkbox ? { checked: checkbox.hasAttribute('checked') } : {}),
+      children: nestedBlocks(item, pageOf(item) ?? page, []),
+    });
+  }
+  return {
+    type: 'list',
+    ordered,
+    ...(ordered && Number.isInteger(start) && start !== 1 && list.hasAttribute('start') ? { start } : {}),
+    items,
+    ...pageField(page),
+  };
+}
+
+function tableNode(table: HTMLElement, page: number | undefined): TableNode {
+  const rows: TableNode['rows'] = [];
+  const walk = (element: HTMLElement, header: boolean) => {
+    for (const node of element.childNodes) {
+      if (!(node instanceof HTMLElement)) continue;
+      const tag = node.tagName.toLowerCase();
+      if (tag === 'thead') {
+        walk(node, true);
+      } else if (tag === 'tbody' || tag === 'tfoot') {
+        walk(node, false);
+      } else if (tag === 'tr') {
+        const cells = node.childNodes.filter((cell): cell is HTMLElement =>
+          cell instanceof HTMLElement && ['td', 'th'].includes(cell.tagName.toLowerCase()));
+        if (cells.length === 0) continue;
+        rows.push({
+          type: 'table_row',
+          header: header || cells.every((cell) => cell.tagName.toLowerCase() === 'th'),
+          cells: cells.map((cell) => {
+            const content = cellContent(cell);
+            const colspan = Number(cell.getAttribute('colspan')) || 1;
+            const rowspan = Number(cell.getAttribute('rowspan')) || 1;
+            return {
+              type: 'table_cell',
+              text: plainText(content),
+              content,
+              ...(colspan > 1 ? { colspan } : {}),
+              ...(rowspan > 1 ? { rowspan } : {}),
+            };
+          }),
+        });
+      }
+    }
+  };
+  walk(table, false);
+  const caption = table.querySelector('caption');
+  return {
+    type: 'table',
+    ...(caption ? { caption: collapse(caption.text).trim() } : {}),
+    rows,
+    ...pageField(pageOf(table) ?? page),
+  };
+}
+
+// 单元格中的块（段落、列表项）以换行分隔
+function cellContent(cell: HTMLElement): InlineNode[] {
+  const result: InlineNode[] = [];
+  const walk = (element: HTMLElement) => {
+    let pending: Node[] = [];
+    const flush = () => {
+      const content = normalizeInlines(pending.flatMap((node) => inlineNodes(node, [])));
+      pending = [];
+      if (content.length === 0) return;
+      if (result.length > 0) result.push({ type: 'line_break' });
+      result.push(...content);
+    };
+    for (const node of element.childNodes) {
+      if (node instanceof HTMLElement && BLOCK_TAGS.has(node.tagName?.toLowerCase() || '')) {
+        flush();
+        walk(node);
+      } else {
+        pending.push(node);
+      }
+    }
+    flush();
+  };
+  walk(cell);
+  return result;
+}
+
+function inlineContent(element: HTMLElement): InlineNode[] {
+  return normalizeInlines(element.childNodes.flatMap((node) => inlineNodes(node, [])));
+}
+
+function inlineNodes(node: Node, marks: Mark[]): InlineNode[] {
+  if (node instanceof TextNode) {
+    const text = collapse(node.text);
+    return text ? [{ type: 'text', text, ...(marks.length > 0 ? { marks: [...marks] } : {}) }] : [];
+  }
+  if (!(node instanceof HTMLElement)) return [];
+
+  const tag = node.tagName?.toLowerCase() || '';
+  if (IGNORED_TAGS.has(tag)) return [];
+  switch (tag) {
+    case 'br':
+      return [{ type: 'line_break' }];
+    case 'img': {
+      const { type, src, mime_type, alt, title } = imageNode(node, undefined);
+      return [{ type, ...(src ? { src } : {}), ...(mime_type ? { mime_type } : {}), alt, ...(title ? { title } : {}) }];
+    }
+    case 'a': {
+      const href = node.getAttribute('href') || '';
+      const footnote = /^#(.+)$/.exec(href)?.[1];
+      if (footnote && FOOTNOTE_ID.test(footnote)) {
+        const label = collapse(node.text).trim().replace(/^\[(.*)\]$/, '$1');
+        return [{ type: 'footnote_ref', id: footnote, ...(label ? { label } : {}) }];
+      }
+      const children = node.childNodes.flatMap((child) => inlineNodes(child, marks));
+      return href ? [{ type: 'link', href, children }] : children;
+    }
+  }
+
+  const mark = MARK_TAGS[tag];
+  return node.childNodes.flatMap((child) => inlineNodes(child, mark && !marks.includes(mark) ? [...marks, mark] : marks));
+}
+
+// 合并相邻且标记相同的文本，去掉段落首尾及换行两侧的空白
+function normalizeInlines(nodes: InlineNode[]): InlineNode[] {
+  const merged: InlineNode[] = [];
+  for (const node of nodes) {
+    const last = merged[merged.length - 1];
+    if (node.type === 'text' && last?.type === 'text' && sameMarks(last.marks, node.marks)) {
+      merged[merged.length - 1] = { ...last, text: last.text + node.text };
+    } else if (node.type === 'link') {
+      merged.push({ ...node, children: normalizeInlines(node.children) });
+    } else {
+      merged.push(node);
+    }
+  }
+
+  for (let i = 0; i < merged.length; i++) {
+    const node = merged[i];
+    if (node.type !== 'text') continue;
+    let text = node.text;
+    if (i === 0 || merged[i - 1].type === 'line_break') text = text.replace(/^\s+/, '');
+    if (i === merged.length - 1 || merged[i + 1].type === 'line_break') text = text.replace(/\s+$/, '');
+    merged[i] = { ...node, text };
+  }
+  const result = merged.filter((node) => node.type !== 'text' || node.text);
+  while (result[0]?.type === 'line_break') result.shift();
+  while (result[result.length - 1]?.type === 'line_break') result.pop();
+  return result;
+}
+
+function imageNode(image: HTMLElement, page: number | undefined): ImageNode {
+  const src = image.getAttribute('src') || '';
+  const dataUri = /^data:([^;,]+)/.exec(src);
+  const title = image.getAttribute('title');
+  return {
+    type: 'image',
+    ...(dataUri ? { mime_type: dataUri[1] } : src ? { src } : {}),
+    alt: image.getAttribute('alt') || '',
+    ...(title ? { title } : {}),
+    ...pageField(pageOf(image) ?? page),
+  };
+}
+
+export function plainText(nodes: InlineNode[]): string {
+  return nodes.map((node) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'link':
+        return plainText(node.children);
+      case 'line_break':
+        return '\n';
+      case 'footnote_ref':
+        return node.label ? `[${node.label}]` : '';
+      case 'image':
+        return '';
+    }
+  }).join('').trim();
+}
+
+function firstHeading(blocks: BlockNode[], level: number): string | undefined {
+  for (const block of blocks) {
+    if (block.type === 'section') {
+      if (block.level === level) return block.title;
+      const nested = firstHeading(block.children, level);
+      if (nested) return nested;
+    }
+  }
+  return undefined;
+}
+
+function isFootnoteList(element: HTMLElement): boolean {
+  const tag = element.tagName?.toLowerCase();
+  if (tag === 'section' && /(?:^|\s)footnotes(?:\s|$)/.test(element.getAttribute('class') || '')) {
+    return true;
+  }
+  if (tag !== 'ol') return false;
+  if (/(?:^|\s)footnotes(?:\s|$)/.test(element.getAttribute('class') || '')) return true;
+  const items = element.childNodes.filter((node): node is HTMLElement => node instanceof HTMLElement && node.tagName.toLowerCase() === 'li');
+  return items.length > 0 && items.every((item) => FOOTNOTE_ID.test(item.getAttribute('id') || ''));
+}
+
+function nextElement(nodes: Node[], index: number): HTMLElement | undefined {
+  for (let i = index + 1; i < nodes.length; i++) {
+    const node = nodes[i];
+    if (node instanceof HTMLElement) return node;
+    if (node.text.trim()) return undefined;
+  }
+  return undefined;
+}
+
+// 块所在的页码：PDF 版面分析与演示文稿的 HTML 在块上标注 data-page
+function pageOf(element: HTMLElement): number | undefined {
+  const page = Number(element.getAttribute('data-page'));
+  return Number.isInteger(page) && page > 0 ? page : undefined;
+}
+
+function pageField(page: number | undefined): { page?: number } {
+  return page ? { page } : {};
+}
+
+function sameMarks(a: Mark[] | undefined, b: Mark[] | undefined): boolean {
+  return (a || []).join() === (b || []).join();
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ');
+}
+
+const INLINE_SCHEMA = {
+  oneOf: [
+    {
+      type: 'object',
+      required: ['type', 'text'],
+      properties: {
+        type: { const: 'text' },
+        text: { type: 'string' },
+        marks: { type: 'array', items: { enum: ['bold', 'italic', 'underline', 'strikethrough', 'code', 'superscript', 'subscript'] } },
+      },
+    },
+    {
+      type: 'object',
+      required: ['type', 'href', 'children'],
+      properties: {
+        type: { const: 'link' },
+        href: { type: 'string' },
+        children: { type: 'array', items: { $ref: '#/$defs/inline' } },
+      },
+    },
+    {
+      type: 'object',
+      required: ['type', 'alt'],
+      properties: {
+        type: { const: 'image' },
+        src: { type: 'string' },
+        mime_type: { type: 'string' },
+        alt: { type: 'string' },
+        title: { type: 'string' },
+      },
+    },
+    {
+      type: 'object',
+      required: ['type', 'id'],
+      properties: { type: { const: 'footnote_ref' }, id: { type: 'string' }, label: { type: 'string' } },
+    },
+    {
+      type: 'object',
+      required: ['type'],
+      properties: { type: { const: 'line_break' } },
+    },
+  ],
+};
+
+const PAGE_SCHEMA = { type: 'integer', minimum: 1, description: 'Page (PDF) or slide (presentation) where the block starts' };
+const BLOCKS_SCHEMA = { type: 'array', items: { $ref: '#/$defs/block' } };
+const INLINES_SCHEMA = { type: 'array', items: { $ref: '#/$defs/inline' } };
+
+// 文档树的 JSON Schema（draft 2020-12），通过 list_supported_formats 与 CLI 的 schema 命令发布
+export const DOCUMENT_TREE_SCHEMA = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: DOCUMENT_TREE_SCHEMA_ID,
+  title: 'Document tree',
+  description: 'Normalized document structure produced by the json target format',
+  type: 'object',
+  required: ['type', 'version', 'metadata', 'children', 'footnotes'],
+  properties: {
+    $schema: { type: 'string' },
+    type: { const: 'document' },
+    version: { const: DOCUMENT_TREE_VERSION },
+    metadata: {
+      type: 'object',
+      required: ['source_format'],
+      properties: {
+        source_format: { type: 'string' },
+        title: { type: 'string' },
+        author: { type: 'string' },
+      },
+    },
+    children: BLOCKS_SCHEMA,
+    footnotes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['type', 'id', 'children'],
+        properties: { type: { const: 'footnote' }, id: { type: 'string' }, children: BLOCKS_SCHEMA },
+      },
+    },
+  },
+  $defs: {
+    inline: INLINE_SCHEMA,
+    block: {
+      oneOf: [
+        {
+          type: 'object',
+          required: ['type', 'level', 'title', 'heading', 'children'],
+          properties: {
+            type: { const: 'section' },
+            level: { type: 'integer', minimum: 1, maximum: 6 },
+            title: { type: 'string' },
+            heading: INLINES_SCHEMA,
+            id: { type: 'string' },
+            page: PAGE_SCHEMA,
+            children: BLOCKS_SCHEMA,
+          },
+        },
+        {
+          type: 'object',
+          required: ['type', 'text', 'content'],
+          properties: { type: { const: 'paragraph' }, text: { type: 'string' }, content: INLINES_SCHEMA, page: PAGE_SCHEMA },
+        },
+        {
+          type: 'object',
+          required: ['type', 'ordered', 'items'],
+          properties: {
+            type: { const: 'list' },
+            ordered: { type: 'boolean' },
+            start: { type: 'integer' },
+            page: PAGE_SCHEMA,
+            items: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['type', 'children'],
+                properties: { type: { const: 'list_item' }, checked: { type: 'boolean' }, children: BLOCKS_SCHEMA },
+              },
+            },
+          },
+        },
+        {
+          type: 'object',
+          required: ['type', 'rows'],
+          properties: {
+            type: { const: 'table' },
+            caption: { type: 'string' },
+            page: PAGE_SCHEMA,
+            rows: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['type', 'header', 'cells'],
+                properties: {
+                  type: { const: 'table_row' },
+                  header: { type: 'boolean' },
+                  cells: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      required: ['type', 'text', 'content'],
+                      properties: {
+                        type: { const: 'table_cell' },
+                        text: { type: 'string' },
+                        content: INLINES_SCHEMA,
+                        colspan: { type: 'integer', minimum: 2 },
+                        rowspan: { type: 'integer', minimum: 2 },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        {
+          type: 'object',
+          required: ['type', 'alt'],
+          properties: {
+            type: { const: 'image' },
+            src: { type: 'string', description: 'File path or URL; omitted for embedded images unless they were extracted' },
+            mime_type: { type: 'string' },
+            alt: { type: 'string' },
+            title: { type: 'string' },
+            caption: { type: 'string' },
+            page: PAGE_SCHEMA,
+          },
+        },
+        {
+          type: 'object',
+          required: ['type', 'text'],
+          properties: { type: { const: 'code' }, language: { type: 'string' }, text: { type: 'string' }, page: PAGE_SCHEMA },
+        },
+        {
+          type: 'object',
+          required: ['type', 'children'],
+          properties: { type: { const: 'blockquote' }, children: BLOCKS_SCHEMA, page: PAGE_SCHEMA },
+        },
+        {
+          type: 'object',
+          required: ['type'],
+          properties: { type: { const: 'thematic_break' }, page: PAGE_SCHEMA },
+        },
+      ],
+    },
+  },
+};
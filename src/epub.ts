@@ -0,0 +1,517 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+import JSZip from 'jszip';
+import sharp from 'sharp';
+import { HTMLElement, Node, parse } from 'node-html-parser';
+import { ToolError } from './errors';
+
+export interface HtmlToEpubOptions {
+  title?: string;
+  author?: string;
+  language?: string;
+  description?: string;
+  // 加载 <img> 引用的图片或 <link> 引用的样式表，返回 undefined 表示跳过（例如远程地址或沙箱外的文件）
+  loadResource?: (src: string) => Promise<Buffer | undefined>;
+}
+
+export interface EpubMetadata {
+  title?: string;
+  author?: string;
+  language?: string;
+  description?: string;
+  publisher?: string;
+  date?: string;
+}
+
+export interface EpubContent {
+  // 按阅读顺序合并的正文，图片内联为 data URI
+  html: string;
+  metadata: EpubMetadata;
+  chapters: number;
+}
+
+interface Chapter {
+  title: string;
+  nodes: Node[];
+  file: string;
+  sections: Array<{ id: string; title: string }>;
+}
+
+interface ManifestItem {
+  id: string;
+  href: string;
+  mediaType: string;
+  data: Buffer | string;
+  properties?: string;
+}
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'source', 'track', 'wbr']);
+// 不写入章节的元素（样式表单独打包，脚本需要 EPUB 阅读器额外授权）
+const SKIPPED_TAGS = new Set(['head', 'title', 'meta', 'link', 'style', 'script', 'noscript', 'template']);
+const WRAPPER_TAGS = new Set(['div', 'main', 'article', 'section', 'body']);
+const ATTRIBUTE_NAME = /^[a-zA-Z_][-a-zA-Z0-9_.:]*$/;
+// EPUB 核心媒体类型之外的图片统一转为 PNG
+const IMAGE_TYPES: Record<string, { mediaType: string; ext: string }> = {
+  jpeg: { mediaType: 'image/jpeg', ext: 'jpg' },
+  png: { mediaType: 'image/png', ext: 'png' },
+  gif: { mediaType: 'image/gif', ext: 'gif' },
+  webp: { mediaType: 'image/webp', ext: 'webp' },
+  svg: { mediaType: 'image/svg+xml', ext: 'svg' },
+};
+const CJK = /[\u3040-\u30ff\u3400-\u9fff]/;
+
+const DEFAULT_CSS = `body { font-family: serif; line-height: 1.6; margin: 0 5%; }
+h1, h2, h3, h4, h5, h6 { font-family: sans-serif; line-height: 1.3; page-break-after: avoid; }
+h1 { page-break-before: always; }
+img { max-width: 100%; height: auto; }
+pre { white-space: pre-wrap; background: #f5f5f5; padding: 0.5em; border-radius: 4px; }
+code { font-family: monospace; background: #f5f5f5; padding: 0 2px; }
+blockquote { margin-left: 1em; padding-left: 1em; border-left: 3px solid #ccc; color: #555; }
+table { border-collapse: collapse; margin: 1em 0; }
+th, td { border: 1px solid #ccc; padding: 4px 8px; }
+nav ol { list-style: none; padding-left: 1em; }
+`;
+
+/**
+ * 将 HTML 打包为 EPUB 3 电子书：按最高级标题拆分章节，生成导航目录（nav.xhtml 与兼容 EPUB 2 的 toc.ncx），
+ * 并嵌入图片（data URI 与本地文件）及样式表（默认样式、<style> 与本地 <link>）。
+ */
+export async function htmlToEpub(html: string, options: HtmlToEpubOptions = {}): Promise<Buffer> {
+  const root = parse(html, {
+    comment: false,
+    blockTextElements: { script: true, noscript: true, style: true },
+  });
+  const builder = new EpubBuilder(root, options);
+  return builder.build();
+}
+
+class EpubBuilder {
+  private manifest: ManifestItem[] = [];
+  private images = new Map<string, string | undefined>();
+  private remoteChapters = new Set<string>();
+
+  constructor(private root: HTMLElement, private options: HtmlToEpubOptions) {}
+
+  async build(): Promise<Buffer> {
+    const meta = this.readMetadata();
+    const chapters = this.splitChapters(meta.title);
+    const css = await this.collectStyles();
+    this.manifest.push({ id: 'css', href: 'styles/book.css', mediaType: 'text/css', data: css });
+
+    // id 所在的章节，用于改写跨章节的页内链接
+    const idToFile = new Map<string, string>();
+    for (const chapter of chapters) {
+      for (const node of chapter.nodes) {
+        if (node instanceof HTMLElement) {
+          for (const element of [node, ...node.querySelectorAll('[id]')]) {
+            const id = element.getAttribute('id');
+            if (id && !idToFile.has(id)) idToFile.set(id, chapter.file);
+          }
+        }
+      }
+    }
+
+    for (const [index, chapter] of chapters.entries()) {
+      let body = '';
+      for (const node of chapter.nodes) {
+        body += await this.serialize(node, chapter, idToFile);
+      }
+      const properties = this.remoteChapters.has(chapter.file) ? 'remote-resources' : undefined;
+      this.manifest.push({
+        id: `chapter-${index + 1}`,
+        href: chapter.file,
+        mediaType: 'application/xhtml+xml',
+        data: xhtmlDocument(chapter.title, meta.language, body),
+        properties,
+      });
+    }
+
+    const zip = new JSZip();
+    // mimetype 必须是第一个文件且不压缩
+    zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+    zip.file('META-INF/container.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`);
+    zip.file('OEBPS/nav.xhtml', navDocument(meta, chapters));
+    zip.file('OEBPS/toc.ncx', ncxDocument(meta, chapters));
+    for (const item of this.manifest) {
+      zip.file(`OEBPS/${item.href}`, item.data);
+    }
+    zip.file('OEBPS/content.opf', this.packageDocument(meta, chapters));
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE', mimeType: 'application/epub+zip' });
+  }
+
+  private readMetadata(): Required<Pick<EpubMetadata, 'title' | 'language'>> & EpubMetadata & { identifier: string } {
+    const title = this.options.title
+      || this.root.querySelector('title')?.text.trim()
+      || this.root.querySelector('h1')?.text.trim()
+      || 'Untitled';
+    const author = this.options.author || this.root.querySelector('meta[name="author"]')?.getAttribute('content')?.trim();
+    const description = this.options.description || this.root.querySelector('meta[name="description"]')?.getAttribute('content')?.trim();
+    const language = this.options.language
+      || this.root.querySelector('html')?.getAttribute('lang')
+      || (CJK.test(this.root.text) ? 'zh' : 'en');
+    // 相同内容生成相同的标识符
+    const hash = crypto.createHash('sha1').update(this.root.toString()).digest('hex');
+    const identifier = `urn:uuid:${hash.slice(0, 8)}-${hash.slice(8, 12)}-5${hash.slice(13, 16)}-a${hash.slice(17, 20)}-${hash.slice(20, 32)}`;
+    return { title, author, description, language, identifier };
+  }
+
+  // 以正文中最高级的标题拆分章节；首个标题之前的内容单独成章
+  private splitChapters(bookTitle: string): Chapter[] {
+    const nodes = contentNodes(this.root);
+    const levels = nodes.map(headingLevel).filter((level): level is number => level !== undefined);
+    const splitLevel = levels.length > 0 ? Math.min(...levels) : 0;
+
+    const chapters: Chapter[] = [];
+    let current: Chapter | undefined;
+    const start = (title: string) => {
+      current = { title, nodes: [], file: `text/chapter-${chapters.length + 1}.xhtml`, sections: [] };
+      chapters.push(current);
+      return current;
+    };
+
+    for (const node of nodes) {
+      const level = headingLevel(node);
+      if (level !== undefined && level <= splitLevel) {
+        const title = node.text.replace(/\s+/g, ' ').trim() || `Chapter ${chapters.length + 1}`;
+        if (current && !hasContent(current.nodes)) {
+          current.title = title;
+        } else {
+          start(title);
+        }
+      } else if (level === splitLevel + 1 && current) {
+        // 下一级标题作为目录中的子项
+        const element = node as HTMLElement;
+        const id = element.getAttribute('id') || `section-${chapters.length}-${current.sections.length + 1}`;
+        element.setAttribute('id', id);
+        current.sections.push({ id, title: element.text.replace(/\s+/g, ' ').trim() });
+      }
+      (current || start(bookTitle)).nodes.push(node);
+    }
+    return chapters.length > 0 ? chapters : [start(bookTitle)];
+  }
+
+  private async collectStyles(): Promise<string> {
+    const styles = [DEFAULT_CSS];
+    for (const style of this.root.querySelectorAll('style')) {
+      styles.push(style.text);
+    }
+    for (const link of this.root.querySelectorAll('link')) {
+      const href = link.getAttribute('href');
+      if (!href || !/\bstylesheet\b/i.test(link.getAttribute('rel') || '') || !this.options.loadResource) continue;
+      const data = await this.options.loadResource(href).catch(() => undefined);
+      if (data) styles.push(data.toString('utf-8'));
+    }
+    return styles.join('\n');
+  }
+
+  private async serialize(node: Node, chapter: Chapter, idToFile: Map<string, string>): Promise<string> {
+    if (!(node instanceof HTMLElement)) {
+      return node.nodeType === 3 ? escapeXml(node.text) : '';
+    }
+    const tag = node.rawTagName?.toLowerCase();
+    if (!tag) {
+      let inner = '';
+      for (const child of node.childNodes) inner += await this.serialize(child, chapter, idToFile);
+      return inner;
+    }
+    if (SKIPPED_TAGS.has(tag)) {
+      return '';
+    }
+
+    const attributes: Record<string, string> = {};
+    for (const [name, value] of Object.entries(node.attributes)) {
+      if (ATTRIBUTE_NAME.test(name) && !/^on/i.test(name) && name !== 'xmlns') {
+        attributes[name.toLowerCase()] = value;
+      }
+    }
+    if (tag === 'img') {
+      const src = await this.embedImage(attributes.src || '', chapter);
+      if (!src) {
+        return attributes.alt ? escapeXml(attributes.alt) : '';
+      }
+      attributes.src = src;
+      attributes.alt = attributes.alt ?? '';
+    }
+    if (tag === 'a' && attributes.href?.startsWith('#')) {
+      const file = idToFile.get(attributes.href.slice(1));
+      if (file && file !== chapter.file) {
+        attributes.href = `${path.posix.basename(file)}${attributes.href}`;
+      }
+    }
+
+    const attributeText = Object.entries(attributes).map(([name, value]) => ` ${name}="${escapeXml(value, true)}"`).join('');
+    if (VOID_TAGS.has(tag)) {
+      return `<${tag}${attributeText}/>`;
+    }
+    let inner = '';
+    for (const child of node.childNodes) inner += await this.serialize(child, chapter, idToFile);
+    return `<${tag}${attributeText}>${inner}</${tag}>`;
+  }
+
+  // 将图片加入电子书并返回章节内的相对路径；无法加载的远程图片保留原地址
+  private async embedImage(src: string, chapter: Chapter): Promise<string | undefined> {
+    if (!src) return undefined;
+    if (!this.images.has(src)) {
+      this.images.set(src, await this.addImage(src));
+    }
+    const href = this.images.get(src);
+    if (href) {
+      return `../${href}`;
+    }
+    if (/^https?:/i.test(src)) {
+      this.remoteChapters.add(chapter.file);
+      return src;
+    }
+    return undefined;
+  }
+
+  private async addImage(src: string): Promise<string | undefined> {
+    let data: Buffer | undefined;
+    const dataUri = src.match(/^data:image\/[a-z0-9.+-]+;base64,(.*)$/i);
+    if (dataUri) {
+      data = Buffer.from(dataUri[1], 'base64');
+    } else if (this.options.loadResource) {
+      data = await this.options.loadResource(src).catch(() => undefined);
+    }
+    if (!data || data.length === 0) return undefined;
+
+    try {
+      let type = IMAGE_TYPES[(await sharp(data).metadata()).format || ''];
+      if (!type) {
+        data = await sharp(data).png().toBuffer();
+        type = IMAGE_TYPES.png;
+      }
+      const index = this.manifest.filter((item) => item.id.startsWith('image-')).length + 1;
+      const href = `images/image-${index}.${type.ext}`;
+      this.manifest.push({ id: `image-${index}`, href, mediaType: type.mediaType, data });
+      return href;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private packageDocument(meta: ReturnType<EpubBuilder['readMetadata']>, chapters: Chapter[]): string {
+    const modified = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+    const items = [
+      '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+      '<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>',
+      ...this.manifest.map((item) =>
+        `<item id="${item.id}" href="${escapeXml(item.href, true)}" media-type="${item.mediaType}"${item.properties ? ` properties="${item.properties}"` : ''}/>`),
+    ];
+    const spine = chapters.map((_, index) => `<itemref idref="chapter-${index + 1}"/>`);
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${escapeXml(meta.language, true)}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">${meta.identifier}</dc:identifier>
+    <dc:title>${escapeXml(meta.title)}</dc:title>
+    <dc:language>${escapeXml(meta.language)}</dc:language>
+${meta.author ? `    <dc:creator>${escapeXml(meta.author)}</dc:creator>\n` : ''}${meta.description ? `    <dc:description>${escapeXml(meta.description)}</dc:description>\n` : ''}    <meta property="dcterms:modified">${modified}</meta>
+  </metadata>
+  <manifest>
+${items.map((item) => `    ${item}`).join('\n')}
+  </manifest>
+  <spine toc="ncx">
+${spine.map((item) => `    ${item}`).join('\n')}
+  </spine>
+</package>
+`;
+  }
+}
+
+/**
+ * 读取 EPUB：按 spine 顺序合并各章节正文，图片内联为 data URI，
+ * 章节之间的链接改写为合并后文档内的锚点。
+ */
+export async function readEpub(buffer: Buffer): Promise<EpubContent> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch {
+    throw new ToolError('INVALID_ARGUMENT', 'Input is not a valid EPUB (ZIP) file');
+  }
+  const read = async (name: string) => zip.file(name)?.async('nodebuffer');
+
+  const container = await read('META-INF/container.xml');
+  const opfPath = container && parse(container.toString('utf-8')).querySelector('rootfile')?.getAttribute('full-path');
+  const opfData = opfPath ? await read(opfPath) : undefined;
+  if (!opfPath || !opfData) {
+    throw new ToolError('INVALID_ARGUMENT', 'EPUB is missing its package document (META-INF/container.xml)');
+  }
+  const opf = parse(opfData.toString('utf-8'));
+  const opfDir = path.posix.dirname(opfPath);
+  const resolve = (base: string, href: string) =>
+    path.posix.normalize(path.posix.join(base === '.' ? '' : base, decodeURIComponent(href.split('#')[0]))).replace(/^\.\//, '');
+
+  const dc = (name: string) => opf.querySelectorAll('*').find((element) => element.rawTagName?.toLowerCase() === `dc:${name}`)?.text.trim() || undefined;
+  const metadata: EpubMetadata = {
+    title: dc('title'),
+    author: dc('creator'),
+    language: dc('language'),
+    description: dc('description'),
+    publisher: dc('publisher'),
+    date: dc('date'),
+  };
+
+  const manifest = new Map<string, { href: string; mediaType: string }>();
+  for (const item of opf.querySelectorAll('item')) {
+    const id = item.getAttribute('id');
+    const href = item.getAttribute('href');
+    if (id && href) {
+      manifest.set(id, { href: resolve(opfDir, href), mediaType: item.getAttribute('media-type') || '' });
+    }
+  }
+  const spine = opf.querySelectorAll('itemref')
+    .filter((itemref) => itemref.getAttribute('linear') !== 'no')
+    .map((itemref) => manifest.get(itemref.getAttribute('idref') || ''))
+    .filter((item): item is { href: string; mediaType: string } => !!item && /html/.test(item.mediaType));
+
+  const anchorOf = (file: string) => `chapter-${file.replace(/[^a-zA-Z0-9_-]+/g, '-')}`;
+  const parts: string[] = [];
+  for (const item of spine) {
+    const data = await read(item.href);
+    if (!data) continue;
+    const document = parse(data.toString('utf-8'), { comment: false, blockTextElements: { script: true, style: true } });
+    const body = document.querySelector('body') || document;
+    const baseDir = path.posix.dirname(item.href);
+
+    for (const element of body.querySelectorAll('script, style')) {
+      element.remove();
+    }
+    for (const image of body.querySelectorAll('img, image')) {
+      const attribute = image.rawTagName.toLowerCase() === 'img' ? 'src' : image.hasAttribute('xlink:href') ? 'xlink:href' : 'href';
+      const src = image.getAttribute(attribute);
+      if (!src || /^[a-z][a-z0-9+.-]*:/i.test(src)) continue;
+      const target = resolve(baseDir, src);
+      const imageData = await read(target);
+      if (imageData) {
+        const mediaType = Array.from(manifest.values()).find((entry) => entry.href === target)?.mediaType || 'image/png';
+        image.setAttribute(attribute, `data:${mediaType};base64,${imageData.toString('base64')}`);
+      }
+    }
+    for (const link of body.querySelectorAll('a')) {
+      const href = link.getAttribute('href');
+      if (!href || /^[a-z][a-z0-9+.-]*:/i.test(href) || href.startsWith('#')) continue;
+      const fragment = href.split('#')[1];
+      link.setAttribute('href', `#${fragment || anchorOf(resolve(baseDir, href))}`);
+    }
+    parts.push(`<section id="${anchorOf(item.href)}">\n${body.innerHTML.trim()}\n</section>`);
+  }
+
+  return {
+    html: parts.join('\n'),
+    metadata,
+    chapters: parts.length,
+  };
+}
+
+// 取出正文的顶层节点；正文只包裹在单个 div/main/article/section 中时展开该容器，使章节标题位于顶层
+function contentNodes(root: HTMLElement): Node[] {
+  let container: HTMLElement = root.querySelector('body') || root;
+  for (;;) {
+    const elements = container.childNodes.filter((node): node is HTMLElement =>
+      node instanceof HTMLElement && !SKIPPED_TAGS.has(node.rawTagName?.toLowerCase() || ''));
+    const hasText = container.childNodes.some((node) => node.nodeType === 3 && node.text.trim());
+    const only = elements.length === 1 && !hasText ? elements[0] : undefined;
+    if (!only || !WRAPPER_TAGS.has(only.rawTagName?.toLowerCase() || '') || !only.querySelector('h1, h2, h3, h4, h5, h6')) {
+      return container.childNodes;
+    }
+    container = only;
+  }
+}
+
+function headingLevel(node: Node): number | undefined {
+  const match = node instanceof HTMLElement ? node.rawTagName?.match(/^h([1-6])$/i) : null;
+  return match ? Number(match[1]) : undefined;
+}
+
+function hasContent(nodes: Node[]): boolean {
+  return nodes.some((node) => node instanceof HTMLElement || node.text.trim());
+}
+
+function xhtmlDocument(title: string, language: string, body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${escapeXml(language, true)}" lang="${escapeXml(language, true)}">
+<head>
+  <meta charset="UTF-8"/>
+  <title>${escapeXml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="../styles/book.css"/>
+</head>
+<body>
+${body.trim()}
+</body>
+</html>
+`;
+}
+
+function navDocument(meta: { title: string; language: string }, chapters: Chapter[]): string {
+  const entries = chapters.map((chapter) => {
+    const href = chapter.file;
+    const sections = chapter.sections.length > 0
+      ? `\n        <ol>\n${chapter.sections.map((section) =>
+        `          <li><a href="${escapeXml(`${href}#${section.id}`, true)}">${escapeXml(section.title)}</a></li>`).join('\n')}\n        </ol>\n      `
+      : '';
+    return `      <li><a href="${href}">${escapeXml(chapter.title)}</a>${sections}</li>`;
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${escapeXml(meta.language, true)}" lang="${escapeXml(meta.language, true)}">
+<head>
+  <meta charset="UTF-8"/>
+  <title>${escapeXml(meta.title)}</title>
+  <link rel="stylesheet" type="text/css" href="styles/book.css"/>
+</head>
+<body>
+  <nav epub:type="toc" id="toc">
+    <h1>${escapeXml(meta.title)}</h1>
+    <ol>
+${entries.join('\n')}
+    </ol>
+  </nav>
+</body>
+</html>
+`;
+}
+
+// EPUB 2 阅读器使用的 NCX 目录
+function ncxDocument(meta: { title: string; identifier: string }, chapters: Chapter[]): string {
+  let order = 0;
+  const point = (id: string, label: string, src: string, children = '') =>
+    `<navPoint id="${id}" playOrder="${++order}"><navLabel><text>${escapeXml(label)}</text></navLabel><content src="${escapeXml(src, true)}"/>${children}</navPoint>`;
+  const points = chapters.map((chapter, index) => {
+    const head = point(`nav-${index + 1}`, chapter.title, chapter.file);
+    if (chapter.sections.length === 0) return `    ${head}`;
+    const children = chapter.sections
+      .map((section, sectionIndex) => point(`nav-${index + 1}-${sectionIndex + 1}`, section.title, `${chapter.file}#${section.id}`))
+      .join('');
+    return `    ${head.replace(/<\/navPoint>$/, `${children}</navPoint>`)}`;
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+  <head>
+    <meta name="dtb:uid" content="${escapeXml(meta.identifier, true)}"/>
+    <meta name="dtb:depth" content="2"/>
+  </head>
+  <docTitle><text>${escapeXml(meta.title)}</text></docTitle>
+  <navMap>
+${points.join('\n')}
+  </navMap>
+</ncx>
+`;
+}
+
+function escapeXml(text: string, attribute = false): string {
+  const escaped = text
+    // XML 1.0 不允许的控制字符
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+  return attribute ? escaped.replace(/"/g, '&quot;') : escaped;
+}
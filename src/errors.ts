@@ -0,0 +1,53 @@
+import { PathAccessError } from './path-guard';
+
+/**
+ * 机器可读的错误码，随 MCP 错误信息和工具结果一起返回，便于客户端（或智能体）自行处理：
+ * - INVALID_ARGUMENT：参数不符合工具的 inputSchema
+ * - UNSUPPORTED_CONVERSION：转换矩阵中不存在该输入/输出组合
+ * - FILE_NOT_FOUND：输入文件不存在
+ * - PATH_NOT_ALLOWED：路径超出沙箱允许的目录
+ * - JOB_NOT_FOUND：异步任务不存在或已过期
+ * - UNKNOWN_TOOL：工具名不存在
+ * - CONVERSION_FAILED：转换或图像处理引擎（Puppeteer、LibreOffice、sharp 等）执行失败
+ * - CANCELLED：转换被取消
+ */
+export type ToolErrorCode =
+  | 'INVALID_ARGUMENT'
+  | 'UNSUPPORTED_CONVERSION'
+  | 'FILE_NOT_FOUND'
+  | 'PATH_NOT_ALLOWED'
+  | 'JOB_NOT_FOUND'
+  | 'UNKNOWN_TOOL'
+  | 'CONVERSION_FAILED'
+  | 'CANCELLED';
+
+// 由调用方参数引起的错误：修正参数后重试即可
+const CLIENT_ERROR_CODES: ToolErrorCode[] = [
+  'INVALID_ARGUMENT',
+  'UNSUPPORTED_CONVERSION',
+  'FILE_NOT_FOUND',
+  'PATH_NOT_ALLOWED',
+  'JOB_NOT_FOUND',
+];
+
+export class ToolError extends Error {
+  constructor(public code: ToolErrorCode, message: string, public details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'ToolError';
+  }
+
+  get isClientError(): boolean {
+    return CLIENT_ERROR_CODES.includes(this.code);
+  }
+}
+
+// 将任意异常归类为 ToolError，未识别的异常视为引擎执行失败
+export function toToolError(error: unknown, fallback: ToolErrorCode = 'CONVERSION_FAILED'): ToolError {
+  if (error instanceof ToolError) {
+    return error;
+  }
+  if (error instanceof PathAccessError) {
+    return new ToolError('PATH_NOT_ALLOWED', error.message, { path: error.filePath, access: error.access });
+  }
+  return new ToolError(fallback, error instanceof Error ? error.message : String(error));
+}
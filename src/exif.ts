@@ -0,0 +1,279 @@
+import type sharp from 'sharp';
+
+/**
+ * EXIF 读取：解析 sharp 元数据中的 EXIF 数据块（"Exif\0\0" 加 TIFF 结构），
+ * 汇总相机、拍摄时间、GPS、方向等常用字段，并可改写为 sharp withExif 使用的字符串字段。
+ */
+
+// IFD0 为主图像，EXIF 为拍摄参数，GPS 为定位信息（对应 sharp 的 IFD0、IFD2、IFD3）
+export type ExifIfd = 'IFD0' | 'EXIF' | 'GPS';
+
+export interface ExifEntry {
+  ifd: ExifIfd;
+  tag: number;
+  // 已知标签的名称（与 libexif 一致），未知标签为 undefined
+  name?: string;
+  type: number;
+  // ASCII 为字符串；整数类型为数字数组；有理数为 [分子, 分母] 数组；其他类型为原始字节
+  value: string | number[] | Array<[number, number]> | Buffer;
+}
+
+export interface ExifSummary {
+  make?: string;
+  model?: string;
+  lens?: string;
+  software?: string;
+  artist?: string;
+  copyright?: string;
+  description?: string;
+  // 拍摄时间，格式为 ISO 8601（不含时区），如 2024-05-01T10:20:30
+  date_taken?: string;
+  orientation?: number;
+  exposure_time?: string;
+  f_number?: number;
+  iso?: number;
+  focal_length?: number;
+  gps?: { latitude: number; longitude: number; altitude?: number };
+}
+
+// 转换时可以改写的文本字段
+export interface ExifTextFields {
+  artist?: string;
+  copyright?: string;
+  description?: string;
+  software?: string;
+}
+
+// 文本字段对应的 IFD0 标签
+const EXIF_TEXT_TAGS: Record<keyof ExifTextFields, string> = {
+  artist: 'Artist',
+  copyright: 'Copyright',
+  description: 'ImageDescription',
+  software: 'Software',
+};
+
+const TAG_NAMES: Record<ExifIfd, Record<number, string>> = {
+  IFD0: {
+    0x010e: 'ImageDescription',
+    0x010f: 'Make',
+    0x0110: 'Model',
+    0x0112: 'Orientation',
+    0x011a: 'XResolution',
+    0x011b: 'YResolution',
+    0x0128: 'ResolutionUnit',
+    0x0131: 'Software',
+    0x0132: 'DateTime',
+    0x013b: 'Artist',
+    0x8298: 'Copyright',
+  },
+  EXIF: {
+    0x829a: 'ExposureTime',
+    0x829d: 'FNumber',
+    0x8822: 'ExposureProgram',
+    0x8827: 'ISOSpeedRatings',
+    0x9003: 'DateTimeOriginal',
+    0x9004: 'DateTimeDigitized',
+    0x9010: 'OffsetTime',
+    0x9011: 'OffsetTimeOriginal',
+    0x9201: 'ShutterSpeedValue',
+    0x9202: 'ApertureValue',
+    0x9204: 'ExposureBiasValue',
+    0x9207: 'MeteringMode',
+    0x9209: 'Flash',
+    0x920a: 'FocalLength',
+    0xa402: 'ExposureMode',
+    0xa403: 'WhiteBalance',
+    0xa405: 'FocalLengthIn35mmFilm',
+    0xa406: 'SceneCaptureType',
+    0xa433: 'LensMake',
+    0xa434: 'LensModel',
+  },
+  GPS: {
+    0x0001: 'GPSLatitudeRef',
+    0x0002: 'GPSLatitude',
+    0x0003: 'GPSLongitudeRef',
+    0x0004: 'GPSLongitude',
+    0x0005: 'GPSAltitudeRef',
+    0x0006: 'GPSAltitude',
+    0x0007: 'GPSTimeStamp',
+    0x001d: 'GPSDateStamp',
+  },
+};
+
+// 指向子 IFD 的标签：Exif IFD 与 GPS IFD
+const EXIF_IFD_POINTER = 0x8769;
+const GPS_IFD_POINTER = 0x8825;
+// 各数据类型的字节数
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+// sharp 对应的 IFD 键
+const SHARP_IFDS: Record<ExifIfd, keyof sharp.Exif> = { IFD0: 'IFD0', EXIF: 'IFD2', GPS: 'IFD3' };
+
+// 解析 EXIF 数据块；格式损坏的部分被忽略
+export function readExifEntries(data: Buffer): ExifEntry[] {
+  const base = data.toString('latin1', 0, 6) === 'Exif\0\0' ? 6 : 0;
+  if (data.length < base + 8) return [];
+  const order = data.toString('latin1', base, base + 2);
+  if (order !== 'II' && order !== 'MM') return [];
+  const little = order === 'II';
+  const u16 = (offset: number) => (little ? data.readUInt16LE(base + offset) : data.readUInt16BE(base + offset));
+  const u32 = (offset: number) => (little ? data.readUInt32LE(base + offset) : data.readUInt32BE(base + offset));
+  const i32 = (offset: number) => (little ? data.readInt32LE(base + offset) : data.readInt32BE(base + offset));
+  const inRange = (offset: number, length: number) => offset >= 0 && base + offset + length <= data.length;
+
+  const entries: ExifEntry[] = [];
+  const visited = new Set<number>();
+  const readIfd = (ifd: ExifIfd, offset: number) => {
+    if (visited.has(offset) || !inRange(offset, 2)) return;
+    visited.add(offset);
+    const count = u16(offset);
+    for (let index = 0; index < count; index++) {
+      const entry = offset + 2 + index * 12;
+      if (!inRange(entry, 12)) return;
+      const tag = u16(entry);
+      const type = u16(entry + 2);
+      const components = u32(entry + 4);
+      const size = (TYPE_SIZES[type] || 0) * components;
+      const valueOffset = size > 4 ? u32(entry + 8) : entry + 8;
+      if (!TYPE_SIZES[type] || !inRange(valueOffset, size)) continue;
+
+      if (ifd === 'IFD0' && (tag === EXIF_IFD_POINTER || tag === GPS_IFD_POINTER)) {
+        readIfd(tag === EXIF_IFD_POINTER ? 'EXIF' : 'GPS', u32(entry + 8));
+        continue;
+      }
+      let value: ExifEntry['value'];
+      switch (type) {
+        case 2:
+          value = data.toString('utf8', base + valueOffset, base + valueOffset + size).replace(/\0+$/, '').trim();
+          break;
+        case 3:
+          value = Array.from({ length: components }, (_, i) => u16(valueOffset + i * 2));
+          break;
+        case 4:
+          value = Array.from({ length: components }, (_, i) => u32(valueOffset + i * 4));
+          break;
+        case 9:
+          value = Array.from({ length: components }, (_, i) => i32(valueOffset + i * 4));
+          break;
+        case 5:
+        case 10: {
+          const read = type === 5 ? u32 : i32;
+          value = Array.from({ length: components }, (_, i): [number, number] => [read(valueOffset + i * 8), read(valueOffset + i * 8 + 4)]);
+          break;
+        }
+        default:
+          value = data.subarray(base + valueOffset, base + valueOffset + size);
+      }
+      entries.push({ ifd, tag, ...(TAG_NAMES[ifd][tag] ? { name: TAG_NAMES[ifd][tag] } : {}), type, value });
+    }
+  };
+  readIfd('IFD0', u32(4));
+  return entries;
+}
+
+export function summarizeExif(entries: ExifEntry[]): ExifSummary {
+  const find = (ifd: ExifIfd, name: string) => entries.find((entry) => entry.ifd === ifd && entry.name === name)?.value;
+  const text = (ifd: ExifIfd, name: string) => {
+    const value = find(ifd, name);
+    return typeof value === 'string' && value ? value : undefined;
+  };
+  const number = (ifd: ExifIfd, name: string) => {
+    const value = find(ifd, name);
+    if (!Array.isArray(value) || value.length === 0) return undefined;
+    const first = value[0];
+    return Array.isArray(first) ? (first[1] ? first[0] / first[1] : undefined) : first;
+  };
+
+  const summary: ExifSummary = {
+    make: text('IFD0', 'Make'),
+    model: text('IFD0', 'Model'),
+    lens: text('EXIF', 'LensModel'),
+    software: text('IFD0', 'Software'),
+    artist: text('IFD0', 'Artist'),
+    copyright: text('IFD0', 'Copyright'),
+    description: text('IFD0', 'ImageDescription'),
+    date_taken: exifDate(text('EXIF', 'DateTimeOriginal') ?? text('IFD0', 'DateTime')),
+    orientation: number('IFD0', 'Orientation'),
+    exposure_time: exposureTime(find('EXIF', 'ExposureTime')),
+    f_number: round(number('EXIF', 'FNumber')),
+    iso: number('EXIF', 'ISOSpeedRatings'),
+    focal_length: round(number('EXIF', 'FocalLength')),
+    gps: gpsPosition(entries),
+  };
+  return Object.fromEntries(Object.entries(summary).filter(([, value]) => value !== undefined)) as ExifSummary;
+}
+
+/**
+ * 将 EXIF 字段改写为 sharp withExif 的字符串形式：只保留已知名称的文本、整数与有理数字段，
+ * gps 为 false 时丢弃整个 GPS IFD；set 中的文本字段覆盖或补充 IFD0。
+ */
+export function toSharpExif(entries: ExifEntry[], options: { gps: boolean; set?: ExifTextFields }): sharp.Exif {
+  const exif: sharp.Exif = {};
+  for (const entry of entries) {
+    if (!entry.name || Buffer.isBuffer(entry.value) || (entry.ifd === 'GPS' && !options.gps)) continue;
+    const value = typeof entry.value === 'string'
+      ? entry.value
+      : (entry.value as Array<number | [number, number]>).map((item) => (Array.isArray(item) ? `${item[0]}/${item[1]}` : String(item))).join(' ');
+    const key = SHARP_IFDS[entry.ifd];
+    exif[key] = { ...exif[key], [entry.name]: value };
+  }
+  const set = exifTextTags(options.set);
+  if (Object.keys(set).length > 0) {
+    exif.IFD0 = { ...exif.IFD0, ...set };
+  }
+  return exif;
+}
+
+// 文本字段转换为 IFD0 标签，忽略未设置的字段
+export function exifTextTags(fields: ExifTextFields = {}): Record<string, string> {
+  return Object.fromEntries(
+    (Object.keys(EXIF_TEXT_TAGS) as Array<keyof ExifTextFields>)
+      .filter((field) => fields[field] !== undefined)
+      .map((field) => [EXIF_TEXT_TAGS[field], fields[field]!])
+  );
+}
+
+// "2024:05:01 10:20:30" → "2024-05-01T10:20:30"
+function exifDate(value: string | undefined): string | undefined {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}` : undefined;
+}
+
+// 曝光时间按相机习惯表示为 "1/125" 或 "2"（秒）
+function exposureTime(value: ExifEntry['value'] | undefined): string | undefined {
+  if (!Array.isArray(value) || !Array.isArray(value[0])) return undefined;
+  const [numerator, denominator] = value[0] as [number, number];
+  if (!numerator || !denominator) return undefined;
+  const seconds = numerator / denominator;
+  return seconds < 1 ? `1/${Math.round(1 / seconds)}` : String(round(seconds));
+}
+
+function gpsPosition(entries: ExifEntry[]): ExifSummary['gps'] {
+  const find = (name: string) => entries.find((entry) => entry.ifd === 'GPS' && entry.name === name)?.value;
+  // 度、分、秒三个有理数换算为十进制度数，南纬与西经为负
+  const degrees = (name: string, negative: string) => {
+    const value = find(name);
+    if (!Array.isArray(value) || value.length < 3 || !Array.isArray(value[0])) return undefined;
+    const [d, m, s] = (value as Array<[number, number]>).map(([numerator, denominator]) => (denominator ? numerator / denominator : 0));
+    const decimal = d + m / 60 + s / 3600;
+    return Math.round((find(`${name}Ref`) === negative ? -decimal : decimal) * 1e7) / 1e7;
+  };
+  const latitude = degrees('GPSLatitude', 'S');
+  const longitude = degrees('GPSLongitude', 'W');
+  if (latitude === undefined || longitude === undefined) return undefined;
+
+  const altitude = find('GPSAltitude');
+  const reference = find('GPSAltitudeRef');
+  let meters: number | undefined;
+  if (Array.isArray(altitude) && Array.isArray(altitude[0]) && altitude[0][1]) {
+    meters = round(altitude[0][0] / altitude[0][1]);
+    // 海拔参考 1 表示低于海平面（UNDEFINED 类型，取第一个字节）
+    if (Buffer.isBuffer(reference) ? reference[0] === 1 : Array.isArray(reference) && reference[0] === 1) {
+      meters = -meters!;
+    }
+  }
+  return { latitude, longitude, ...(meters !== undefined ? { altitude: meters } : {}) };
+}
+
+function round(value: number | undefined): number | undefined {
+  return value === undefined ? undefined : Math.round(value * 100) / 100;
+}
@@ -0,0 +1,498 @@
+import sharp from 'sharp';
+import { HTMLElement, Node, parse } from 'node-html-parser';
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  ExternalHyperlink,
+  HeadingLevel,
+  ImageRun,
+  LevelFormat,
+  Packer,
+  PageBreak,
+  Paragraph,
+  ParagraphChild,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  UnderlineType,
+  WidthType,
+} from 'docx';
+
+export interface HtmlToDocxOptions {
+  title?: string;
+  author?: string;
+  description?: string;
+  // 加载 <img> 引用的图片，返回 undefined 表示跳过该图片（例如远程地址或沙箱外的文件）
+  loadImage?: (src: string) => Promise<Buffer | undefined>;
+}
+
+interface RunStyle {
+  bold?: boolean;
+  italics?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  superScript?: boolean;
+  subScript?: boolean;
+  link?: boolean;
+}
+
+interface BlockContext {
+  // 所在列表的层级（0 起），列表项中的后续段落按该层级缩进
+  listLevel?: number;
+  // 引用块缩进层级
+  quoteDepth: number;
+}
+
+interface ListNumbering {
+  reference: string;
+  level: number;
+  instance: number;
+}
+
+// 行内转换状态：段首与连续空白不输出空格
+interface InlineState {
+  lineStart: boolean;
+}
+
+type FileChild = Paragraph | Table;
+
+const HEADINGS: Record<string, (typeof HeadingLevel)[keyof typeof HeadingLevel]> = {
+  h1: HeadingLevel.HEADING_1,
+  h2: HeadingLevel.HEADING_2,
+  h3: HeadingLevel.HEADING_3,
+  h4: HeadingLevel.HEADING_4,
+  h5: HeadingLevel.HEADING_5,
+  h6: HeadingLevel.HEADING_6,
+};
+
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'main', 'header', 'footer', 'aside', 'nav', 'figure', 'figcaption',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'pre', 'blockquote', 'table', 'hr',
+  'body', 'html', 'dl', 'dt', 'dd', 'address', 'details', 'summary',
+]);
+const SKIPPED_TAGS = new Set(['head', 'script', 'style', 'noscript', 'template', 'title', 'meta', 'link']);
+
+const CODE_FONT = 'Consolas';
+const CODE_SHADING = { type: ShadingType.CLEAR, color: 'auto', fill: 'F5F5F5' };
+// 图片最大显示宽度（像素，约 6.25 英寸，适合 A4/Letter 的版心）
+const MAX_IMAGE_WIDTH = 600;
+
+/**
+ * 将 HTML 转换为保留格式的 DOCX：标题、粗体/斜体/下划线/删除线、有序/无序列表、
+ * 超链接、代码块、表格、图片、引用与分页符（`<!-- pagebreak -->` 或 page-break CSS）。
+ */
+export async function htmlToDocx(html: string, options: HtmlToDocxOptions = {}): Promise<Buffer> {
+  const root = parse(html, {
+    comment: true,
+    blockTextElements: { script: true, noscript: true, style: true },
+  });
+  const builder = new HtmlDocxBuilder(options);
+  const children = await builder.convertBlocks(root.childNodes, { quoteDepth: 0 });
+  const meta = readHtmlMetadata(root);
+
+  const doc = new Document({
+    title: options.title || meta.title,
+    creator: options.author || meta.author,
+    description: options.description,
+    numbering: {
+      config: [
+        { reference: 'bullet-list', levels: listLevels(LevelFormat.BULLET) },
+        { reference: 'ordered-list', levels: listLevels(LevelFormat.DECIMAL) },
+      ],
+    },
+    sections: [{ children: children.length > 0 ? children : [new Paragraph({})] }],
+  });
+  return Packer.toBuffer(doc);
+}
+
+class HtmlDocxBuilder {
+  private listInstances = 0;
+
+  constructor(private options: HtmlToDocxOptions) {}
+
+  async convertBlocks(nodes: Node[], context: BlockContext): Promise<FileChild[]> {
+    const blocks: FileChild[] = [];
+    let inline: Node[] = [];
+
+    const flush = async () => {
+      if (inline.length === 0) return;
+      const runs = await this.convertInline(inline);
+      inline = [];
+      if (runs.length > 0) {
+        blocks.push(this.paragraph(runs, context));
+      }
+    };
+
+    for (const node of nodes) {
+      if (node.nodeType === 8) {
+        // <!-- pagebreak --> 注释作为分页符
+        if (/^\s*page-?break\s*$/i.test(node.rawText)) {
+          await flush();
+          blocks.push(new Paragraph({ children: [new PageBreak()] }));
+        }
+        continue;
+      }
+      if (!(node instanceof HTMLElement)) {
+        inline.push(node);
+        continue;
+      }
+
+      const tag = node.rawTagName?.toLowerCase() || '';
+      if (SKIPPED_TAGS.has(tag)) continue;
+      if (!tag || !BLOCK_TAGS.has(tag)) {
+        inline.push(node);
+        continue;
+      }
+
+      await flush();
+      const style = node.getAttribute('style') || '';
+      if (/page-break-before\s*:\s*always|break-before\s*:\s*page/i.test(style)) {
+        blocks.push(new Paragraph({ children: [new PageBreak()] }));
+      }
+      blocks.push(...(await this.convertBlock(node, tag, context)));
+      if (/page-break-after\s*:\s*always|break-after\s*:\s*page/i.test(style)) {
+        blocks.push(new Paragraph({ children: [new PageBreak()] }));
+      }
+    }
+
+    await flush();
+    return blocks;
+  }
+
+  private async convertBlock(element: HTMLElement, tag: string, context: BlockContext): Promise<FileChild[]> {
+    switch (tag) {
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6':
+        return [new Paragraph({ heading: HEADINGS[tag], children: await this.convertInline(element.childNodes) })];
+
+      case 'p':
+      case 'dt':
+      case 'summary':
+      case 'figcaption': {
+        const runs = await this.convertInline(element.childNodes, tag === 'dt' ? { bold: true } : {});
+        return runs.length > 0 ? [this.paragraph(runs, context, { alignment: alignmentOf(element) })] : [];
+      }
+
+      case 'ul':
+      case 'ol':
+        return this.convertList(element, tag === 'ol', context);
+
+      case 'li':
+        // 不在 ul/ol 中的 li 按普通段落处理
+        return this.convertBlocks(element.childNodes, context);
+
+      case 'pre':
+        return this.convertCodeBlock(element, context);
+
+      case 'blockquote':
+        return this.convertBlocks(element.childNodes, { ...context, quoteDepth: context.quoteDepth + 1 });
+
+      case 'dd':
+        return this.convertBlocks(element.childNodes, { ...context, quoteDepth: context.quoteDepth + 1 });
+
+      case 'table':
+        return [await this.convertTable(element)];
+
+      case 'hr':
+        return [
+          new Paragraph({
+            border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'AAAAAA', space: 1 } },
+            children: [],
+          }),
+        ];
+
+      default:
+        return this.convertBlocks(element.childNodes, context);
+    }
+  }
+
+  private async convertList(list: HTMLElement, ordered: boolean, context: BlockContext): Promise<FileChild[]> {
+    const level = context.listLevel === undefined ? 0 : Math.min(context.listLevel + 1, 8);
+    const numbering: ListNumbering = {
+      reference: ordered ? 'ordered-list' : 'bullet-list',
+      level,
+      // 每个列表使用独立的编号实例，有序列表的编号从 1 重新开始
+      instance: ++this.listInstances,
+    };
+    const itemContext: BlockContext = { ...context, listLevel: level };
+
+    const blocks: FileChild[] = [];
+    for (const item of list.childNodes) {
+      if (!(item instanceof HTMLElement) || item.rawTagName?.toLowerCase() !== 'li') continue;
+
+      // 列表项开头的行内内容（或松散列表中的第一个 <p>）作为带编号的段落，其余内容跟随在后
+      const inline: Node[] = [];
+      const rest: Node[] = [];
+      let inlineDone = false;
+      for (const child of item.childNodes) {
+        const tag = child instanceof HTMLElement ? child.rawTagName?.toLowerCase() : undefined;
+        if (inlineDone) {
+          rest.push(child);
+        } else if (!tag || !BLOCK_TAGS.has(tag)) {
+          inline.push(child);
+        } else {
+          inlineDone = true;
+          if (tag === 'p' && !inline.some((node) => node.text.trim())) {
+            inline.push(...child.childNodes);
+          } else {
+            rest.push(child);
+          }
+        }
+      }
+
+      blocks.push(this.paragraph(await this.convertInline(inline), context, { numbering }));
+      if (rest.length > 0) {
+        blocks.push(...(await this.convertBlocks(rest, itemContext)));
+      }
+    }
+    return blocks;
+  }
+
+  private convertCodeBlock(element: HTMLElement, context: BlockContext): FileChild[] {
+    const lines = element.text.replace(/\n$/, '').split('\n');
+    return lines.map((line) => new Paragraph({
+      shading: CODE_SHADING,
+      spacing: { before: 0, after: 0 },
+      indent: { left: 240 + this.indentOf(context) },
+      children: [new TextRun({ text: line.replace(/\t/g, '    '), font: CODE_FONT, size: 20 })],
+    }));
+  }
+
+  private async convertTable(table: HTMLElement): Promise<Table> {
+    const rows: TableRow[] = [];
+    for (const row of table.querySelectorAll('tr')) {
+      // 跳过嵌套表格中的行
+      if (row.closest('table') !== table) continue;
+      const isHeader = row.parentNode?.rawTagName?.toLowerCase() === 'thead';
+      const cells: TableCell[] = [];
+      for (const cell of row.childNodes) {
+        if (!(cell instanceof HTMLElement)) continue;
+        const tag = cell.rawTagName?.toLowerCase();
+        if (tag !== 'td' && tag !== 'th') continue;
+
+        const header = tag === 'th' || isHeader;
+        let children = await this.convertBlocks(cell.childNodes, { quoteDepth: 0 });
+        if (header) {
+          const runs = await this.convertInline(cell.childNodes, { bold: true });
+          children = [new Paragraph({ children: runs, alignment: alignmentOf(cell) })];
+        }
+        cells.push(new TableCell({
+          children: children.length > 0 ? children : [new Paragraph({})],
+          columnSpan: Number(cell.getAttribute('colspan')) || undefined,
+          rowSpan: Number(cell.getAttribute('rowspan')) || undefined,
+          ...(header ? { shading: { type: ShadingType.CLEAR, color: 'auto', fill: 'F2F2F2' } } : {}),
+        }));
+      }
+      if (cells.length > 0) {
+        rows.push(new TableRow({ children: cells, tableHeader: isHeader }));
+      }
+    }
+
+    return new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      rows: rows.length > 0 ? rows : [new TableRow({ children: [new TableCell({ children: [new Paragraph({})] })] })],
+    });
+  }
+
+  private async convertInline(
+    nodes: Node[],
+    style: RunStyle = {},
+    state: InlineState = { lineStart: true }
+  ): Promise<ParagraphChild[]> {
+    const runs: ParagraphChild[] = [];
+    const inline = (children: Node[], childStyle: RunStyle) => this.convertInline(children, childStyle, state);
+
+    for (const node of nodes) {
+      if (node.nodeType === 3) {
+        let text = node.text.replace(/\s+/g, ' ');
+        if (state.lineStart) {
+          text = text.trimStart();
+        }
+        if (text) {
+          runs.push(this.textRun(text, style));
+          state.lineStart = text.endsWith(' ');
+        }
+        continue;
+      }
+      if (!(node instanceof HTMLElement)) continue;
+
+      const tag = node.rawTagName?.toLowerCase() || '';
+      if (SKIPPED_TAGS.has(tag)) continue;
+      switch (tag) {
+        case 'br':
+          runs.push(new TextRun({ break: 1 }));
+          state.lineStart = true;
+          break;
+        case 'strong':
+        case 'b':
+          runs.push(...(await inline(node.childNodes, { ...style, bold: true })));
+          break;
+        case 'em':
+        case 'i':
+        case 'cite':
+          runs.push(...(await inline(node.childNodes, { ...style, italics: true })));
+          break;
+        case 'u':
+        case 'ins':
+          runs.push(...(await inline(node.childNodes, { ...style, underline: true })));
+          break;
+        case 's':
+        case 'del':
+        case 'strike':
+          runs.push(...(await inline(node.childNodes, { ...style, strike: true })));
+          break;
+        case 'code':
+        case 'kbd':
+        case 'samp':
+          runs.push(...(await inline(node.childNodes, { ...style, code: true })));
+          break;
+        case 'sup':
+          runs.push(...(await inline(node.childNodes, { ...style, superScript: true })));
+          break;
+        case 'sub':
+          runs.push(...(await inline(node.childNodes, { ...style, subScript: true })));
+          break;
+        case 'a': {
+          const href = node.getAttribute('href') || '';
+          const children = await inline(node.childNodes, { ...style, link: /^(https?:|mailto:)/i.test(href) });
+          if (/^(https?:|mailto:)/i.test(href)) {
+            runs.push(new ExternalHyperlink({ link: href, children }));
+          } else {
+            runs.push(...children);
+          }
+          break;
+        }
+        case 'img': {
+          const image = await this.convertImage(node);
+          if (image) {
+            runs.push(image);
+            state.lineStart = false;
+          } else if (node.getAttribute('alt')) {
+            runs.push(this.textRun(`[${node.getAttribute('alt')}]`, { ...style, italics: true }));
+          }
+          break;
+        }
+        case 'input':
+          if (node.getAttribute('type') === 'checkbox') {
+            runs.push(new TextRun(node.hasAttribute('checked') ? '☒ ' : '☐ '));
+          }
+          break;
+        default:
+          // 行内容器（span、mark、abbr 等）以及出现在行内位置的块级元素，直接展开其内容
+          runs.push(...(await inline(node.childNodes, style)));
+      }
+    }
+    return runs;
+  }
+
+  private async convertImage(element: HTMLElement): Promise<ImageRun | undefined> {
+    const src = element.getAttribute('src');
+    if (!src) return undefined;
+
+    let data: Buffer | undefined;
+    const dataUri = src.match(/^data:image\/[a-z0-9.+-]+;base64,(.*)$/i);
+    if (dataUri) {
+      data = Buffer.from(dataUri[1], 'base64');
+    } else if (this.options.loadImage) {
+      data = await this.options.loadImage(src).catch(() => undefined);
+    }
+    if (!data || data.length === 0) return undefined;
+
+    try {
+      const metadata = await sharp(data).metadata();
+      // ImageRun 只支持 png/jpg/gif/bmp，其他格式先转为 PNG
+      let type: 'png' | 'jpg' | 'gif' | 'bmp' = 'png';
+      if (metadata.format === 'jpeg') type = 'jpg';
+      else if (metadata.format === 'gif') type = 'gif';
+      else if (metadata.format !== 'png') data = await sharp(data).png().toBuffer();
+
+      const width = Number(element.getAttribute('width')) || metadata.width || MAX_IMAGE_WIDTH;
+      const height = Number(element.getAttribute('height')) || Math.round(width * ((metadata.height || 1) / (metadata.width || 1)));
+      const scale = Math.min(1, MAX_IMAGE_WIDTH / width);
+      return new ImageRun({
+        type,
+        data,
+        transformation: { width: Math.round(width * scale), height: Math.round(height * scale) },
+        altText: { name: element.getAttribute('alt') || 'image', description: element.getAttribute('alt') || '', title: element.getAttribute('title') || '' },
+      });
+    } catch {
+      return undefined;
+    }
+  }
+
+  private paragraph(
+    children: ParagraphChild[],
+    context: BlockContext,
+    extra: { numbering?: ListNumbering; alignment?: (typeof AlignmentType)[keyof typeof AlignmentType] } = {}
+  ): Paragraph {
+    // 带编号的段落由编号定义控制缩进；列表项中的后续段落与引用块按层级缩进
+    const indent = extra.numbering ? 0 : this.indentOf(context);
+    return new Paragraph({
+      children,
+      alignment: extra.alignment,
+      ...(extra.numbering ? { numbering: extra.numbering } : {}),
+      ...(indent > 0 ? { indent: { left: indent } } : {}),
+      ...(context.quoteDepth > 0 && !extra.numbering
+        ? { border: { left: { style: BorderStyle.SINGLE, size: 12, color: 'CCCCCC', space: 8 } } }
+        : {}),
+    });
+  }
+
+  private indentOf(context: BlockContext): number {
+    const listIndent = context.listLevel === undefined ? 0 : 720 * (context.listLevel + 1);
+    return listIndent + 720 * context.quoteDepth;
+  }
+
+  private textRun(text: string, style: RunStyle): TextRun {
+    return new TextRun({
+      text,
+      bold: style.bold,
+      italics: style.italics,
+      strike: style.strike,
+      superScript: style.superScript,
+      subScript: style.subScript,
+      ...(style.underline ? { underline: { type: UnderlineType.SINGLE } } : {}),
+      ...(style.code ? { font: CODE_FONT, shading: CODE_SHADING } : {}),
+      ...(style.link ? { style: 'Hyperlink' } : {}),
+    });
+  }
+}
+
+function listLevels(format: (typeof LevelFormat)[keyof typeof LevelFormat]) {
+  const bullets = ['•', '◦', '▪'];
+  return Array.from({ length: 9 }, (_, level) => ({
+    level,
+    format,
+    text: format === LevelFormat.BULLET ? bullets[level % bullets.length] : `%${level + 1}.`,
+    alignment: AlignmentType.LEFT,
+    style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } },
+  }));
+}
+
+function alignmentOf(element: HTMLElement) {
+  const align = (element.getAttribute('align') || element.getAttribute('style')?.match(/text-align\s*:\s*(\w+)/i)?.[1] || '').toLowerCase();
+  switch (align) {
+    case 'center':
+      return AlignmentType.CENTER;
+    case 'right':
+      return AlignmentType.RIGHT;
+    case 'justify':
+      return AlignmentType.JUSTIFIED;
+    default:
+      return undefined;
+  }
+}
+
+function readHtmlMetadata(root: HTMLElement): { title?: string; author?: string } {
+  const title = root.querySelector('title')?.text.trim() || root.querySelector('h1')?.text.trim();
+  const author = root.querySelector('meta[name="author"]')?.getAttribute('content')?.trim();
+  return { title: title || undefined, author: author || undefined };
+}
@@ -0,0 +1,82 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+
+export interface HttpAccessConfig {
+  // 监听地址，默认只监听本机回环地址
+  host?: string;
+  // Bearer 令牌；未配置时启动时随机生成
+  auth_token?: string;
+  // 允许跨域访问的 Origin（完整的 scheme://host[:port]）
+  allowed_origins?: string[];
+}
+
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '::1', '[::1]'];
+
+/**
+ * HTTP 访问控制：监听地址、Bearer 令牌、Origin 白名单与 Host 检查。
+ * 带 Origin 头的请求（浏览器发起）只有在白名单内才会被处理；只监听回环地址时，
+ * Host 头也必须是本机地址，以防 DNS 重绑定让网页以同源身份访问本机服务。
+ */
+export class HttpAccessPolicy {
+  readonly host: string;
+  readonly token: string;
+  // 令牌为启动时随机生成（需要在日志中告知使用者）
+  readonly generatedToken: boolean;
+  private allowedOrigins: string[];
+
+  constructor(config: HttpAccessConfig = {}) {
+    this.host = config.host || '127.0.0.1';
+    this.generatedToken = !config.auth_token;
+    this.token = config.auth_token || crypto.randomBytes(24).toString('hex');
+    this.allowedOrigins = (config.allowed_origins || []).map((origin) => origin.replace(/\/+$/, '').toLowerCase());
+  }
+
+  /**
+   * 从环境变量构建：
+   * - MCP_HOST：监听地址，默认 127.0.0.1；0.0.0.0 监听所有网卡
+   * - MCP_AUTH_TOKEN：访问 MCP 与上传接口所需的 Bearer 令牌
+   * - MCP_ALLOWED_ORIGINS：允许的浏览器 Origin，逗号分隔
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): HttpAccessPolicy {
+    return new HttpAccessPolicy({
+      host: env.MCP_HOST?.trim() || undefined,
+      auth_token: env.MCP_AUTH_TOKEN?.trim() || undefined,
+      allowed_origins: (env.MCP_ALLOWED_ORIGINS || '').split(',').map((origin) => origin.trim()).filter(Boolean),
+    });
+  }
+
+  get loopback(): boolean {
+    return LOOPBACK_HOSTS.includes(this.host.toLowerCase());
+  }
+
+  // 允许的 Origin 原样返回，用于 Access-Control-Allow-Origin；没有 Origin 头时返回 undefined
+  allowedOrigin(req: http.IncomingMessage): string | undefined {
+    const origin = req.headers.origin;
+    return origin && this.allowedOrigins.includes(origin.toLowerCase()) ? origin : undefined;
+  }
+
+  // 拒绝不在白名单内的 Origin，以及回环监听时非本机的 Host
+  rejects(req: http.IncomingMessage): string | undefined {
+    const origin = req.headers.origin;
+    if (origin && !this.allowedOrigin(req)) {
+      return `Origin not allowed: ${origin}`;
+    }
+    if (this.loopback) {
+      const hostname = (req.headers.host || '').replace(/:\d+$/, '').toLowerCase();
+      if (!LOOPBACK_HOSTS.includes(hostname) && hostname !== this.host.toLowerCase()) {
+        return `Host not allowed: ${req.headers.host}`;
+      }
+    }
+    return undefined;
+  }
+
+  isAuthorized(req: http.IncomingMessage): boolean {
+    const match = (req.headers.authorization || '').match(/^Bearer\s+(.+)$/i);
+    if (!match) {
+      return false;
+    }
+    const given = Buffer.from(match[1].trim());
+    const expected = Buffer.from(this.token);
+    return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+  }
+}
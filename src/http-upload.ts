@@ -0,0 +1,216 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as mime from 'mime-types';
+import * as http from 'http';
+import busboy from 'busboy';
+import JSZip from 'jszip';
+
+export interface UploadedRequest {
+  file_path: string;
+  file_name: string;
+  size: number;
+  fields: Record<string, string>;
+}
+
+export class UploadError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+// 默认上传大小上限 100MB，可通过 MAX_UPLOAD_SIZE 环境变量调整
+const DEFAULT_MAX_UPLOAD_SIZE = 100 * 1024 * 1024;
+
+export function getMaxUploadSize(): number {
+  const value = Number(process.env.MAX_UPLOAD_SIZE);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_MAX_UPLOAD_SIZE;
+}
+
+/**
+ * 接收 HTTP 上传的文件并保存到临时目录。
+ * 支持 multipart/form-data（字段 file）以及原始请求体（文件名来自 ?filename= 或 X-Filename 头）。
+ * 其余表单字段与查询参数一并放入 fields，表单字段优先。
+ */
+export async function receiveUpload(
+  req: http.IncomingMessage,
+  query: Record<string, string | string[] | undefined>,
+  tempDir: string
+): Promise<UploadedRequest> {
+  const fields: Record<string, string> = {};
+  for (const [key, value] of Object.entries(query)) {
+    if (typeof value === 'string') {
+      fields[key] = value;
+    } else if (Array.isArray(value) && value.length > 0) {
+      fields[key] = value[0];
+    }
+  }
+
+  const contentType = req.headers['content-type'] || '';
+  if (contentType.startsWith('multipart/form-data')) {
+    return receiveMultipart(req, fields, tempDir);
+  }
+  return receiveRawBody(req, fields, tempDir);
+}
+
+function receiveMultipart(
+  req: http.IncomingMessage,
+  fields: Record<string, string>,
+  tempDir: string
+): Promise<UploadedRequest> {
+  return new Promise((resolve, reject) => {
+    let parser: busboy.Busboy;
+    try {
+      parser = busboy({
+        headers: req.headers,
+        limits: { files: 1, fileSize: getMaxUploadSize() },
+      });
+    } catch (error) {
+      reject(new UploadError(`Invalid multipart request: ${error instanceof Error ? error.message : String(error)}`));
+      return;
+    }
+
+    let upload: Promise<{ file_path: string; file_name: string; size: number }> | undefined;
+    let failed = false;
+    const fail = (error: Error) => {
+      if (failed) return;
+      failed = true;
+      req.unpipe(parser);
+      req.resume();
+      reject(error);
+    };
+
+    parser.on('field', (name, value) => {
+      fields[name] = value;
+    });
+
+    parser.on('file', (_name, stream, info) => {
+      const fileName = sanitizeFileName(info.filename || fields.filename || 'upload');
+      const filePath = path.join(tempDir, fileName);
+      let size = 0;
+
+      upload = new Promise((resolveFile, rejectFile) => {
+        const out = fs.createWriteStream(filePath);
+        stream.on('data', (chunk: Buffer) => {
+          size += chunk.length;
+        });
+        stream.on('limit', () => {
+          rejectFile(new UploadError(`Upload exceeds the size limit of ${getMaxUploadSize()} bytes`, 413));
+        });
+        out.on('error', rejectFile);
+        out.on('finish', () => resolveFile({ file_path: filePath, file_name: fileName, size }));
+        stream.pipe(out);
+      });
+      upload.catch(fail);
+    });
+
+    parser.on('error', (error: Error) => fail(new UploadError(`Invalid multipart request: ${error.message}`)));
+
+    parser.on('close', async () => {
+      if (failed) return;
+      if (!upload) {
+        fail(new UploadError("Missing file field in multipart request"));
+        return;
+      }
+      try {
+        const file = await upload;
+        resolve({ ...file, fields });
+      } catch (error) {
+        fail(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+
+    req.pipe(parser);
+  });
+}
+
+// X-Filename 允许 URL 编码以传递非 ASCII 文件名；编码不合法时按原样使用（随后会被清理）
+function decodeHeaderValue(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function receiveRawBody(
+  req: http.IncomingMessage,
+  fields: Record<string, string>,
+  tempDir: string
+): Promise<UploadedRequest> {
+  return new Promise((resolve, reject) => {
+    const headerName = req.headers['x-filename'];
+    let fileName = fields.filename || (typeof headerName === 'string' ? decodeHeaderValue(headerName) : '');
+    if (!fileName) {
+      // 没有文件名时根据 Content-Type 推断扩展名
+      const ext = mime.extension(req.headers['content-type'] || '');
+      if (!ext || ext === 'bin') {
+        reject(new UploadError("Missing 'filename' query parameter or X-Filename header for raw upload"));
+        req.resume();
+        return;
+      }
+      fileName = `upload.${ext}`;
+    }
+    fileName = sanitizeFileName(fileName);
+
+    const filePath = path.join(tempDir, fileName);
+    const out = fs.createWriteStream(filePath);
+    const maxSize = getMaxUploadSize();
+    let size = 0;
+    let failed = false;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxSize && !failed) {
+        failed = true;
+        req.unpipe(out);
+        req.resume();
+        out.destroy();
+        reject(new UploadError(`Upload exceeds the size limit of ${maxSize} bytes`, 413));
+      }
+    });
+    req.on('error', (error) => {
+      if (failed) return;
+      failed = true;
+      reject(error);
+    });
+    out.on('error', (error) => {
+      if (failed) return;
+      failed = true;
+      reject(error);
+    });
+    out.on('finish', () => {
+      if (failed) return;
+      if (size === 0) {
+        reject(new UploadError('Request body is empty'));
+        return;
+      }
+      resolve({ file_path: filePath, file_name: fileName, size, fields });
+    });
+
+    req.pipe(out);
+  });
+}
+
+// 将转换生成的多个文件打包为 ZIP，条目路径相对于输出目录（Markdown 中的图片链接仍然有效）
+export async function writeZipArchive(files: string[], baseDir: string, zipPath: string): Promise<void> {
+  const zip = new JSZip();
+  for (const file of files) {
+    const entryName = path.relative(baseDir, file).split(path.sep).join('/');
+    zip.file(entryName, fs.createReadStream(file));
+  }
+  await new Promise<void>((resolve, reject) => {
+    zip.generateNodeStream({ type: 'nodebuffer', streamFiles: true, compression: 'DEFLATE' })
+      .on('error', reject)
+      .pipe(fs.createWriteStream(zipPath))
+      .on('error', reject)
+      .on('finish', resolve);
+  });
+}
+
+// 去掉目录部分与不安全字符，防止上传文件名逃逸出临时目录
+function sanitizeFileName(name: string): string {
+  const base = path.basename(name.replace(/\\/g, '/'));
+  const cleaned = base.replace(/[^\w.\-一-龥]+/g, '_').replace(/^\.+/, '');
+  return cleaned || 'upload';
+}
@@ -0,0 +1,224 @@
+import sharp from 'sharp';
+import { ToolError } from './errors';
+import { assertChoice } from './image-pages';
+
+/**
+ * 按字节预算压缩图像：在允许的格式中搜索质量与压缩力度，最低质量仍超出预算时逐步缩小尺寸，
+ * 直到编码结果不超过 max_bytes。不设预算时按给定质量编码一次，取体积最小的格式。
+ */
+
+export type BudgetFormat = 'jpeg' | 'png' | 'webp' | 'avif';
+
+export interface ImageBudgetOptions {
+  // 输出文件的字节上限
+  max_bytes?: number;
+  // 最大宽高（像素），等比缩小，不放大
+  max_width?: number;
+  max_height?: number;
+  // 允许的输出格式
+  formats?: BudgetFormat[];
+  // 质量上限，默认 80；搜索只会降低质量（PNG 先尝试无损，再以此质量量化为调色板）
+  quality?: number;
+}
+
+export interface ImageBudgetResult {
+  buffer: Buffer;
+  format: BudgetFormat;
+  quality: number;
+  // 压缩力度（WebP 0-6、AVIF 0-9、PNG 调色板 1-10），JPEG 与无损 PNG 没有此参数
+  effort?: number;
+  lossless: boolean;
+  width: number;
+  height: number;
+  // 按 EXIF 方向校正、按最大宽高限制后的尺寸，即缩小前的尺寸
+  source_width: number;
+  source_height: number;
+  // 编码尝试次数
+  attempts: number;
+}
+
+export const BUDGET_FORMATS = ['jpeg', 'png', 'webp', 'avif'];
+// 质量搜索的下限：质量再低不如缩小尺寸清晰
+export const MIN_BUDGET_QUALITY = 40;
+// 缩小尺寸的下限（较长边像素）与缩小的最多轮数
+const MIN_BUDGET_SIDE = 16;
+const MAX_SCALE_STEPS = 12;
+// 各格式依次尝试的压缩力度：默认力度放不下时再用更高的力度（更慢）。JPEG 始终使用 mozjpeg 编码；
+// PNG 调色板与 AVIF 提高力度体积几乎不变而耗时成倍增加，只用默认力度
+const BUDGET_EFFORTS: Record<BudgetFormat, Array<number | undefined>> = {
+  jpeg: [undefined],
+  png: [7],
+  webp: [4, 6],
+  avif: [4],
+};
+
+// 解码后的原始像素，供每次尝试重新编码
+interface SourcePixels {
+  data: Buffer;
+  width: number;
+  height: number;
+  channels: 1 | 2 | 3 | 4;
+}
+
+type Candidate = Omit<ImageBudgetResult, 'source_width' | 'source_height' | 'attempts'>;
+
+export async function fitImageToBudget(input: string | Buffer, options: ImageBudgetOptions = {}): Promise<ImageBudgetResult> {
+  const formats = options.formats && options.formats.length > 0 ? options.formats : ['jpeg' as const];
+  formats.forEach((format) => assertChoice('formats', format, BUDGET_FORMATS));
+  const { max_bytes: maxBytes, max_width: maxWidth, max_height: maxHeight } = options;
+  if (maxBytes !== undefined && (!Number.isInteger(maxBytes) || maxBytes < 1)) {
+    throw new ToolError('INVALID_ARGUMENT', `max_bytes must be a positive integer, got ${maxBytes}`, { max_bytes: maxBytes });
+  }
+  const maxQuality = Math.min(100, Math.max(1, Math.round(options.quality ?? 80)));
+
+  // 按 EXIF 方向校正并按最大宽高缩小后解码一次，之后的尝试都从原始像素编码
+  let pipeline = sharp(input).rotate();
+  if (maxWidth || maxHeight) {
+    pipeline = pipeline.resize({ width: maxWidth, height: maxHeight, fit: 'inside', withoutEnlargement: true });
+  }
+  const { data, info } = await pipeline.toColourspace('srgb').raw().toBuffer({ resolveWithObject: true });
+  const source: SourcePixels = { data, width: info.width, height: info.height, channels: info.channels };
+
+  const counter = { attempts: 0 };
+  let best: Candidate | undefined;
+  let smallest: Candidate | undefined;
+  for (const format of formats) {
+    const { fit, smallest: formatSmallest } = await fitFormat(source, format, maxQuality, maxBytes, counter);
+    if (fit && (!best || isBetter(fit, best, maxBytes))) {
+      best = fit;
+    }
+    if (formatSmallest && (!smallest || formatSmallest.buffer.length < smallest.buffer.length)) {
+      smallest = formatSmallest;
+    }
+  }
+
+  if (!best) {
+    throw new ToolError(
+      'INVALID_ARGUMENT',
+      `Cannot compress the image under ${maxBytes} bytes; the smallest result was ${smallest?.buffer.length} bytes ` +
+        `(${smallest?.format}, ${smallest?.width}x${smallest?.height})`,
+      { max_bytes: maxBytes, smallest_bytes: smallest?.buffer.length, formats }
+    );
+  }
+  return { ...best, source_width: source.width, source_height: source.height, attempts: counter.attempts };
+}
+
+// 单个格式的搜索：返回预算内质量最高的结果，以及放不下时最小的一次尝试
+async function fitFormat(
+  source: SourcePixels,
+  format: BudgetFormat,
+  maxQuality: number,
+  maxBytes: number | undefined,
+  counter: { attempts: number }
+): Promise<{ fit?: Candidate; smallest?: Candidate }> {
+  const minQuality = Math.min(MIN_BUDGET_QUALITY, maxQuality);
+  const fits = (candidate: Candidate) => maxBytes === undefined || candidate.buffer.length <= maxBytes;
+  let smallest: Candidate | undefined;
+  const encode = async (width: number, height: number, quality: number, effort: number | undefined, lossless = false) => {
+    counter.attempts++;
+    const buffer = await encodeImage(source, width, height, format, quality, effort, lossless);
+    const candidate: Candidate = { buffer, format, quality, ...(effort !== undefined ? { effort } : {}), lossless, width, height };
+    if (!smallest || buffer.length < smallest.buffer.length) {
+      smallest = candidate;
+    }
+    return candidate;
+  };
+
+  let scale = 1;
+  for (let step = 0; step < MAX_SCALE_STEPS; step++) {
+    const width = Math.max(1, Math.round(source.width * scale));
+    const height = Math.max(1, Math.round(source.height * scale));
+
+    // PNG 先尝试无损，放不下再量化为调色板
+    if (format === 'png') {
+      const lossless = await encode(width, height, 100, undefined, true);
+      if (fits(lossless)) {
+        return { fit: lossless };
+      }
+    }
+    if (maxBytes === undefined) {
+      return { fit: await encode(width, height, maxQuality, BUDGET_EFFORTS[format][0]) };
+    }
+
+    for (const effort of BUDGET_EFFORTS[format]) {
+      const top = await encode(width, height, maxQuality, effort);
+      if (fits(top)) {
+        return { fit: top };
+      }
+      // PNG 调色板的体积几乎不随质量变化，不做质量搜索，直接缩小尺寸
+      if (minQuality === maxQuality || format === 'png') {
+        continue;
+      }
+      let best = await encode(width, height, minQuality, effort);
+      if (!fits(best)) {
+        continue;
+      }
+      // 二分查找预算内的最高质量：low 放得下，high 放不下
+      let low = minQuality;
+      let high = maxQuality;
+      while (high - low > 1) {
+        const middle = Math.floor((low + high) / 2);
+        const candidate = await encode(width, height, middle, effort);
+        if (fits(candidate)) {
+          low = middle;
+          best = candidate;
+        } else {
+          high = middle;
+        }
+      }
+      return { fit: best };
+    }
+
+    // 最低质量也放不下：体积与像素数近似成正比，据此估算下一轮的缩放比例
+    const longest = Math.max(source.width, source.height);
+    if (Math.max(width, height) <= MIN_BUDGET_SIDE) {
+      break;
+    }
+    const ratio = Math.min(0.9, Math.sqrt(maxBytes / smallest!.buffer.length) * 0.95);
+    scale = Math.max(scale * ratio, Math.min(1, MIN_BUDGET_SIDE / longest));
+  }
+  return { smallest };
+}
+
+async function encodeImage(
+  source: SourcePixels,
+  width: number,
+  height: number,
+  format: BudgetFormat,
+  quality: number,
+  effort: number | undefined,
+  lossless: boolean
+): Promise<Buffer> {
+  let image = sharp(source.data, { raw: { width: source.width, height: source.height, channels: source.channels } });
+  if (width !== source.width || height !== source.height) {
+    image = image.resize(width, height, { fit: 'fill' });
+  }
+  switch (format) {
+    case 'jpeg':
+      // JPEG 不支持透明，透明区域填充白色
+      return image.flatten({ background: '#ffffff' }).jpeg({ quality, mozjpeg: true }).toBuffer();
+    case 'png':
+      return (lossless
+        ? image.png({ compressionLevel: 9 })
+        : image.png({ compressionLevel: 9, palette: true, quality, effort })
+      ).toBuffer();
+    case 'webp':
+      return image.webp({ quality, effort }).toBuffer();
+    case 'avif':
+      return image.avif({ quality, effort }).toBuffer();
+  }
+}
+
+// 有预算时优先尺寸更大、其次质量更高、再次体积更小；无预算时取体积最小
+function isBetter(candidate: Candidate, current: Candidate, maxBytes: number | undefined): boolean {
+  if (maxBytes !== undefined) {
+    const area = candidate.width * candidate.height - current.width * current.height;
+    if (area !== 0) {
+      return area > 0;
+    }
+    if (candidate.quality !== current.quality) {
+      return candidate.quality > current.quality;
+    }
+  }
+  return candidate.buffer.length < current.buffer.length;
+}
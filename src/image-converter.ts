@@ -3,6 +3,23 @@ import * as path from 'path';
 import * as mime from 'mime-types';
 import sharp from 'sharp';
 import Jimp from 'jimp';
+import { PDFDocument } from 'pdf-lib';
+import { ToolError, ToolErrorCode, toToolError } from './errors';
+import { PathGuard, getDefaultPathGuard } from './path-guard';
+import { DEFAULT_RASTER_DPI, forEachPdfPage, parsePageRange, renderPdfPages } from './pdf-rasterizer';
+import type { PdfPageRun, RenderedPdfPage } from './pdf-rasterizer';
+import {
+  addImagePdfPage,
+  assertChoice,
+  ImagePageLayout,
+  joinTiffPages,
+  readImageFrames,
+  renderTiffPage,
+  TiffCompression,
+  TIFF_COMPRESSIONS,
+} from './image-pages';
+import { BudgetFormat, BUDGET_FORMATS, fitImageToBudget, ImageBudgetOptions } from './image-budget';
+import { ExifEntry, ExifSummary, ExifTextFields, readExifEntries, summarizeExif, toSharpExif } from './exif';
 
 export interface WatermarkOptions {
   position?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center';
@@ -39,6 +56,36 @@ export interface ImageConversionOptions {
     sepia?: boolean;
     invert?: boolean;
   };
+  // 动画（多帧 GIF / WebP）选项；输出为 GIF 或 WebP 时默认保留全部帧、帧时长与循环次数
+  animation?: {
+    frame?: number; // 只输出第几帧（从 1 开始），得到静态图像
+    loop?: number; // 覆盖循环次数，0 为无限循环
+    delay?: number; // 覆盖每帧时长（毫秒）
+  };
+  // 元数据选项；默认去除 EXIF、XMP 与 ICC（颜色转换为 sRGB），并按 EXIF 方向旋转像素
+  metadata?: {
+    mode?: MetadataMode;
+    auto_orient?: boolean; // 按 EXIF 方向旋转像素并重置方向标记，默认 true；动画不旋转
+    set?: ExifTextFields; // 改写作者、版权、描述、软件字段
+    icc?: string; // 颜色配置：keep 保留原配置，srgb、p3、cmyk（仅 JPEG / TIFF）或 ICC 文件路径
+  };
+  // PDF→图像的栅格化选项
+  rasterize?: {
+    pages?: string; // 页码范围，如 "1-3,5"
+    dpi?: number; // 渲染分辨率，默认 150（sprite 默认 72）
+    layout?: 'pages' | 'sprite'; // 每页一个文件，或拼接为一张总览图
+    columns?: number; // sprite 每行的页数，默认接近正方形排列
+  };
+}
+
+// strip 去除全部元数据；keep 全部保留；strip_gps 保留 EXIF 与 ICC，只去除 GPS 定位（XMP 中可能含有定位，一并去除）
+export type MetadataMode = 'strip' | 'keep' | 'strip_gps';
+
+export interface ThumbnailOptions {
+  fit?: 'cover' | 'contain' | 'fill' | 'inside' | 'outside';
+  position?: string; // sharp 裁剪位置，如 center、top、attention、entropy
+  background?: string;
+  quality?: number;
 }
 
 export interface ImageInfo {
@@ -50,6 +97,17 @@ export interface ImageInfo {
   hasAlpha: boolean;
   size: number;
   colorSpace?: string;
+  // 帧数（多页 TIFF 为页数），静态图像为 1
+  frames: number;
+  // 动画的总时长（毫秒）、每帧时长与循环次数（0 为无限循环）
+  duration?: number;
+  delays?: number[];
+  loop?: number;
+  // EXIF 方向（1-8）与解析出的 EXIF 常用字段（相机、拍摄时间、GPS 等）
+  orientation?: number;
+  exif?: ExifSummary;
+  hasIccProfile: boolean;
+  hasXmp: boolean;
   created?: Date;
   modified?: Date;
 }
@@ -61,11 +119,74 @@ export interface ImageConversionResult {
   original_size?: number;
   new_size?: number;
   compression_ratio?: number;
+  // 生成多个文件时（PDF 多页栅格化）的全部输出路径
+  output_files?: string[];
+  // 失败时的错误码（参数或格式不支持等），未识别的异常为 CONVERSION_FAILED
+  error_code?: ToolErrorCode;
   metadata?: any;
 }
 
+// 可以保存动画的输出格式
+const ANIMATED_OUTPUT_FORMATS = ['gif', 'webp'];
+
+const METADATA_MODES: MetadataMode[] = ['strip', 'keep', 'strip_gps'];
+// sharp 内置的颜色配置；CMYK 只能写入 JPEG 与 TIFF
+const ICC_PROFILES = ['srgb', 'p3', 'cmyk'];
+const CMYK_OUTPUT_FORMATS = ['jpeg', 'jpg', 'tiff'];
+
+// 选项中引用的 ICC 文件路径；keep 与内置配置名返回 undefined
+export function iccProfilePath(options: ImageConversionOptions): string | undefined {
+  const icc = options.metadata?.icc;
+  return icc && icc !== 'keep' && !ICC_PROFILES.includes(icc) ? icc : undefined;
+}
+
+// 动画输入的帧信息
+interface AnimationInfo {
+  frames: number;
+}
+
+// PDF 栅格化输出支持的图像格式
+export const PDF_RASTER_FORMATS = ['png', 'jpg', 'jpeg', 'webp'];
+// sprite 总览图的默认分辨率与页面间距（像素）
+const SPRITE_DPI = 72;
+const SPRITE_GAP = 16;
+
+// 多图合成文档时的单个输入；排版选项覆盖整体设置
+export interface ImageDocumentInput extends ImagePageLayout {
+  path: string;
+}
+
+export interface ImageDocumentOptions extends ImagePageLayout {
+  // 默认按输出文件扩展名判断
+  format?: 'pdf' | 'tiff';
+  // TIFF 页面的栅格化分辨率，默认 150
+  dpi?: number;
+  // TIFF 压缩方式，默认 lzw；ccittfax4 输出黑白页面
+  compression?: TiffCompression;
+  // TIFF 使用 jpeg 压缩时的质量
+  quality?: number;
+}
+
+export interface ImageFrameOptions extends ImageConversionOptions {
+  // 导出的帧，如 "1-3,5"，默认全部
+  pages?: string;
+}
+
+// 支持作为输入的图像扩展名
+const IMAGE_INPUT_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp', '.avif', '.tiff', '.tif', '.gif', '.bmp', '.svg', '.heic', '.heif'];
+// 单张图片转 PDF 时的页边距（10mm）
+const SINGLE_IMAGE_PDF_MARGIN = 28.35;
+
+export interface ImageConverterOptions {
+  pathGuard?: PathGuard;
+}
+
 export class ImageConverter {
-  constructor() {}
+  private pathGuard: PathGuard;
+
+  constructor(converterOptions: ImageConverterOptions = {}) {
+    this.pathGuard = converterOptions.pathGuard ?? getDefaultPathGuard();
+  }
 
   async convertImage(
     inputPath: string,
@@ -88,8 +209,12 @@ export class ImageConverter {
 
       // 检测输入文件格式
       const inputFormat = this.detectImageFormat(inputPath);
+      if (inputFormat === 'pdf') {
+        return await this.convertPdfToImages(inputPath, outputPath, targetFormat, options);
+      }
       
       // 执行图像转换
+      const animation = await this.readAnimation(inputPath);
       await this.processImage(inputPath, outputPath, targetFormat, options);
       
       // 获取转换后文件大小
@@ -97,19 +222,34 @@ export class ImageConverter {
       const newSize = newStats.size;
       const compressionRatio = ((originalSize - newSize) / originalSize * 100);
       
+      // 动画输入：说明保留了全部帧，还是只输出了其中一帧
+      let message = `Successfully converted ${inputFormat} to ${targetFormat}`;
+      let metadata: ImageConversionResult['metadata'];
+      if (animation) {
+        const kept = this.keepsAnimation(animation, targetFormat, options);
+        const frame = options.animation?.frame ?? 1;
+        message = kept
+          ? `${message} with all ${animation.frames} frames`
+          : `Converted frame ${frame} of the ${animation.frames}-frame ${inputFormat} animation to ${targetFormat}` +
+            (options.animation?.frame === undefined ? `; ${targetFormat} output cannot hold animation` : '');
+        metadata = { animation: { frames: animation.frames, kept, ...(kept ? {} : { frame }) } };
+      }
+      
       return {
         success: true,
         output_path: outputPath,
-        message: `Successfully converted ${inputFormat} to ${targetFormat}`,
+        message,
         original_size: originalSize,
         new_size: newSize,
         compression_ratio: Math.round(compressionRatio * 100) / 100,
+        ...(metadata ? { metadata } : {}),
       };
     } catch (error) {
       return {
         success: false,
         output_path: outputPath,
         message: `Image conversion failed: ${error instanceof Error ? error.message : String(error)}`,
+        error_code: toToolError(error).code,
       };
     }
   }
@@ -120,6 +260,7 @@ export class ImageConverter {
     
     try {
       const metadata = await sharp(filePath).metadata();
+      const exif = metadata.exif ? summarizeExif(readExifEntries(metadata.exif)) : {};
       
       return {
         format,
@@ -130,6 +271,14 @@ export class ImageConverter {
         hasAlpha: metadata.hasAlpha || false,
         size: stats.size,
         colorSpace: metadata.space,
+        frames: metadata.pages || 1,
+        ...(metadata.delay && (metadata.pages || 1) > 1
+          ? { duration: metadata.delay.reduce((sum, delay) => sum + delay, 0), delays: metadata.delay, loop: metadata.loop ?? 0 }
+          : {}),
+        ...(metadata.orientation ? { orientation: metadata.orientation } : {}),
+        ...(Object.keys(exif).length > 0 ? { exif } : {}),
+        hasIccProfile: metadata.icc !== undefined,
+        hasXmp: metadata.xmp !== undefined,
         created: stats.birthtime,
         modified: stats.mtime,
       };
@@ -143,6 +292,9 @@ export class ImageConverter {
           height: image.getHeight(),
           channels: 4, // Jimp默认RGBA
           hasAlpha: true,
+          frames: 1,
+          hasIccProfile: false,
+          hasXmp: false,
           size: stats.size,
           created: stats.birthtime,
           modified: stats.mtime,
@@ -164,10 +316,98 @@ export class ImageConverter {
         effects: true,
         batch_processing: true,
         metadata_preservation: true,
+        metadata_modes: METADATA_MODES,
+        icc_profiles: ICC_PROFILES,
+        multipage_documents: true,
+        animation: true,
+        byte_budget: true,
       },
     };
   }
 
+  /**
+   * 将 PDF 页面栅格化为图像。默认每页一个文件：只渲染一页时写入 outputPath，
+   * 多页时命名为 `<文件名>-<页码>.<扩展名>`；layout 为 sprite 时拼接为一张总览图。
+   * 尺寸、质量、效果与水印选项作用于每个输出图像。页码范围无效时抛出 INVALID_ARGUMENT。
+   */
+  async convertPdfToImages(
+    inputPath: string,
+    outputPath: string,
+    targetFormat: string,
+    options: ImageConversionOptions = {},
+    signal?: AbortSignal
+  ): Promise<ImageConversionResult> {
+    if (!PDF_RASTER_FORMATS.includes(targetFormat.toLowerCase())) {
+      throw new Error(`Unsupported output format for PDF rasterization: ${targetFormat}`);
+    }
+    const raster = options.rasterize || {};
+    const sprite = raster.layout === 'sprite';
+    const dpi = raster.dpi || (sprite ? SPRITE_DPI : DEFAULT_RASTER_DPI);
+    const originalSize = (await fs.stat(inputPath)).size;
+    const buffer = await fs.readFile(inputPath);
+
+    await fs.ensureDir(path.dirname(outputPath));
+    const outputFiles: string[] = [];
+    let run: PdfPageRun;
+    if (sprite) {
+      // 总览图需要同时使用所有页面（总览图默认使用较低的分辨率）
+      const { total_pages, pages } = await renderPdfPages(buffer, { pages: raster.pages, dpi, signal });
+      await this.processImage(await this.composeSprite(pages, raster.columns), outputPath, targetFormat, options);
+      outputFiles.push(outputPath);
+      run = { total_pages, pages: pages.map((page) => page.page) };
+    } else {
+      // 逐页渲染并写出，不同时持有所有页面
+      const parsed = path.parse(outputPath);
+      run = await forEachPdfPage(buffer, { pages: raster.pages, dpi, signal }, async (page, { total_pages, pages }) => {
+        const filePath = pages.length === 1
+          ? outputPath
+          : path.join(parsed.dir, `${parsed.name}-${String(page.page).padStart(String(total_pages).length, '0')}${parsed.ext}`);
+        await this.processImage(page.data, filePath, targetFormat, options);
+        outputFiles.push(filePath);
+      });
+    }
+
+    let newSize = 0;
+    for (const filePath of outputFiles) {
+      newSize += (await fs.stat(filePath)).size;
+    }
+    return {
+      success: true,
+      output_path: outputFiles[0],
+      message: sprite
+        ? `Rendered ${run.pages.length} PDF page(s) into a ${targetFormat} contact sheet`
+        : `Rendered ${run.pages.length} PDF page(s) to ${targetFormat}`,
+      original_size: originalSize,
+      new_size: newSize,
+      output_files: outputFiles,
+      metadata: { total_pages: run.total_pages, pages: run.pages, dpi, layout: sprite ? 'sprite' : 'pages' },
+    };
+  }
+
+  // 将多页按网格拼接为一张图，每格大小取最大页面尺寸，页面在格内居中
+  private async composeSprite(pages: RenderedPdfPage[], columns?: number): Promise<Buffer> {
+    const perRow = Math.max(1, Math.min(columns || Math.ceil(Math.sqrt(pages.length)), pages.length));
+    const rows = Math.ceil(pages.length / perRow);
+    const cellWidth = Math.max(...pages.map((page) => page.width));
+    const cellHeight = Math.max(...pages.map((page) => page.height));
+
+    return sharp({
+      create: {
+        width: perRow * cellWidth + (perRow + 1) * SPRITE_GAP,
+        height: rows * cellHeight + (rows + 1) * SPRITE_GAP,
+        channels: 3,
+        background: { r: 238, g: 238, b: 238 },
+      },
+    })
+      .composite(pages.map((page, index) => ({
+        input: page.data,
+        left: SPRITE_GAP + (index % perRow) * (cellWidth + SPRITE_GAP) + Math.floor((cellWidth - page.width) / 2),
+        top: SPRITE_GAP + Math.floor(index / perRow) * (cellHeight + SPRITE_GAP) + Math.floor((cellHeight - page.height) / 2),
+      })))
+      .png()
+      .toBuffer();
+  }
+
   private detectImageFormat(filePath: string): string {
     const ext = path.extname(filePath).toLowerCase();
     const mimeType = mime.lookup(filePath);
@@ -195,6 +435,8 @@ export class ImageConverter {
         return 'heic';
       case '.heif':
         return 'heif';
+      case '.pdf':
+        return 'pdf';
       default:
         if (mimeType && mimeType.startsWith('image/')) {
           return mimeType.split('/')[1];
@@ -203,60 +445,46 @@ export class ImageConverter {
     }
   }
 
+  // input 为文件路径或图像数据（例如 PDF 渲染出的页面）
   private async processImage(
-    inputPath: string,
+    input: string | Buffer,
     outputPath: string,
     targetFormat: string,
     options: ImageConversionOptions
   ): Promise<void> {
-    const inputFormat = this.detectImageFormat(inputPath);
+    const inputFormat = typeof input === 'string' ? this.detectImageFormat(input) : 'buffer';
     
     // 对于SVG，使用特殊处理
-    if (inputFormat === 'svg') {
-      return this.processSvgImage(inputPath, outputPath, targetFormat, options);
+    if (typeof input === 'string' && inputFormat === 'svg') {
+      return this.processSvgImage(input, outputPath, targetFormat, options);
+    }
+    
+    // 动画输入在输出格式支持动画时保留全部帧，否则只取一帧
+    const animation = await this.readAnimation(input);
+    const frame = options.animation?.frame;
+    if (frame !== undefined && (!Number.isInteger(frame) || frame < 1 || frame > (animation?.frames ?? 1))) {
+      throw new ToolError('INVALID_ARGUMENT', `Frame ${frame} is out of range; the image has ${animation?.frames ?? 1} frame(s)`, {
+        frame,
+        frames: animation?.frames ?? 1,
+      });
+    }
+    // libvips 无法编码 AVIF 图像序列：不默默丢弃其余帧，需要用 animation.frame 明确选择一帧
+    if (animation && animation.frames > 1 && frame === undefined && targetFormat.toLowerCase() === 'avif') {
+      throw new ToolError(
+        'UNSUPPORTED_CONVERSION',
+        `Animated AVIF output is not supported; convert the ${animation.frames}-frame animation to gif or webp, or pick one frame with animation.frame`,
+        { frames: animation.frames, target_format: targetFormat }
+      );
     }
+    const animated = animation !== undefined && this.keepsAnimation(animation, targetFormat, options);
+    await this.validateMetadataOptions(targetFormat, options);
     
     // 使用Sharp进行主要的图像处理
     try {
-      let pipeline = sharp(inputPath);
-      
-      // 调整大小
-      if (options.width || options.height) {
-        pipeline = pipeline.resize(options.width, options.height, {
-          fit: options.fit || 'inside',
-          background: options.background || { r: 255, g: 255, b: 255, alpha: 1 },
-        });
-      }
-      
-      // 应用效果
-      if (options.effects) {
-        const effects = options.effects;
-        
-        if (effects.blur) {
-          pipeline = pipeline.blur(effects.blur);
-        }
-        
-        if (effects.sharpen) {
-          pipeline = pipeline.sharpen(effects.sharpen);
-        }
-        
-        if (effects.brightness !== undefined || effects.contrast !== undefined || 
-            effects.saturation !== undefined || effects.hue !== undefined) {
-          pipeline = pipeline.modulate({
-            brightness: effects.brightness ? 1 + effects.brightness : undefined,
-            saturation: effects.saturation ? 1 + effects.saturation : undefined,
-            hue: effects.hue,
-          });
-        }
-        
-        if (effects.grayscale) {
-          pipeline = pipeline.grayscale();
-        }
-        
-        if (effects.invert) {
-          pipeline = pipeline.negate();
-        }
-      }
+      let pipeline = animated && (options.width || options.height || options.effects || options.watermark)
+        ? await this.adjustAnimation(input, animation, options)
+        : this.applyAdjustments(animated ? sharp(input, { animated: true }) : sharp(input, frame ? { page: frame - 1 } : {}), options);
+      pipeline = await this.applyMetadata(pipeline, input, options, animated);
       
       // 设置输出格式和选项
       switch (targetFormat.toLowerCase()) {
@@ -278,6 +506,7 @@ export class ImageConverter {
             quality: options.quality || 80,
             lossless: options.lossless || false,
             effort: options.effort || 4,
+            ...(animated ? this.animationTiming(options) : {}),
           });
           break;
         case 'avif':
@@ -293,19 +522,19 @@ export class ImageConverter {
           });
           break;
         case 'gif':
-          // Sharp不直接支持GIF输出，使用Jimp
-          return this.processWithJimp(inputPath, outputPath, targetFormat, options);
+          pipeline = pipeline.gif(animated ? this.animationTiming(options) : {});
+          break;
         case 'bmp':
           // Sharp不直接支持BMP输出，使用Jimp
-          return this.processWithJimp(inputPath, outputPath, targetFormat, options);
+          return this.processWithJimp(await this.selectFrame(input, frame), outputPath, targetFormat, options);
         case 'pdf':
-          return this.convertImageToPdf(inputPath, outputPath, options);
+          return this.convertImageToPdf(input, outputPath);
         default:
           throw new Error(`Unsupported output format: ${targetFormat}`);
       }
       
-      // 添加水印
-      if (options.watermark) {
+      // 添加水印（动画已在逐帧处理时添加）
+      if (options.watermark && !animated) {
         pipeline = await this.addWatermark(pipeline, options.watermark);
       }
       
@@ -313,10 +542,174 @@ export class ImageConverter {
       await pipeline.toFile(outputPath);
       
     } catch (error) {
+      // Jimp 只能写出第一帧：保留动画时不使用后备流程，以免结果与报告的帧数不符
+      if (animated) {
+        throw new ToolError('CONVERSION_FAILED', `Failed to convert the animation: ${error instanceof Error ? error.message : String(error)}`, {
+          frames: animation.frames,
+        });
+      }
       // 如果Sharp失败，尝试使用Jimp作为后备
       console.warn(`Sharp processing failed, falling back to Jimp: ${error}`);
-      await this.processWithJimp(inputPath, outputPath, targetFormat, options);
+      await this.processWithJimp(await this.selectFrame(input, frame), outputPath, targetFormat, options);
+    }
+  }
+
+  // 元数据模式与颜色配置需在转换前校验，避免落入 Jimp 后备流程后被静默忽略
+  private async validateMetadataOptions(targetFormat: string, options: ImageConversionOptions): Promise<void> {
+    const { mode, icc } = options.metadata || {};
+    if (mode !== undefined) {
+      assertChoice('metadata.mode', mode, METADATA_MODES);
+    }
+    if (icc === undefined || icc === 'keep') {
+      return;
+    }
+    if (icc === 'cmyk' && !CMYK_OUTPUT_FORMATS.includes(targetFormat.toLowerCase())) {
+      throw new ToolError('INVALID_ARGUMENT', `CMYK color profiles can only be written to jpeg or tiff, not ${targetFormat}`, {
+        icc,
+        target_format: targetFormat,
+      });
+    }
+    if (iccProfilePath(options) && !(await fs.pathExists(icc))) {
+      throw new ToolError('FILE_NOT_FOUND', `ICC profile does not exist: ${icc}`, { path: icc });
+    }
+  }
+
+  // 按选项保留、去除或改写 EXIF / XMP / ICC，并按 EXIF 方向旋转像素
+  private async applyMetadata(
+    pipeline: sharp.Sharp,
+    input: string | Buffer,
+    options: ImageConversionOptions,
+    animated: boolean
+  ): Promise<sharp.Sharp> {
+    const { mode = 'strip', auto_orient: autoOrient = true, set, icc } = options.metadata || {};
+    if (autoOrient && !animated) {
+      pipeline = pipeline.rotate();
+    }
+    
+    if (mode === 'keep') {
+      pipeline = pipeline.keepMetadata();
+      if (set) {
+        pipeline = pipeline.withExifMerge(toSharpExif([], { gps: false, set }));
+      }
+    } else {
+      // sharp 无法删除单个 EXIF 字段：读取原有字段后重新写入。只去除 GPS 时保留其余字段；
+      // 全部去除但不旋转时仍写入方向标记，以免图像显示方向错误
+      let kept: ExifEntry[] = [];
+      if (mode === 'strip_gps' || !autoOrient) {
+        const { exif } = await sharp(input).metadata();
+        const entries = exif ? readExifEntries(exif) : [];
+        kept = mode === 'strip_gps' ? entries : entries.filter((entry) => entry.name === 'Orientation');
+      }
+      const rewritten = toSharpExif(kept, { gps: false, set });
+      if (Object.keys(rewritten).length > 0) {
+        pipeline = pipeline.withExif(rewritten);
+      }
+      if (mode === 'strip_gps') {
+        pipeline = pipeline.keepIccProfile();
+      }
     }
+    
+    if (icc === 'keep') {
+      pipeline = pipeline.keepIccProfile();
+    } else if (icc) {
+      pipeline = pipeline.withIccProfile(icc);
+    }
+    return pipeline;
+  }
+
+  // 调整大小并应用效果
+  private applyAdjustments(pipeline: sharp.Sharp, options: ImageConversionOptions): sharp.Sharp {
+    if (options.width || options.height) {
+      pipeline = pipeline.resize(options.width, options.height, {
+        fit: options.fit || 'inside',
+        background: options.background || { r: 255, g: 255, b: 255, alpha: 1 },
+      });
+    }
+    
+    if (options.effects) {
+      const effects = options.effects;
+      
+      if (effects.blur) {
+        pipeline = pipeline.blur(effects.blur);
+      }
+      
+      if (effects.sharpen) {
+        pipeline = pipeline.sharpen(effects.sharpen);
+      }
+      
+      if (effects.brightness !== undefined || effects.contrast !== undefined || 
+          effects.saturation !== undefined || effects.hue !== undefined) {
+        pipeline = pipeline.modulate({
+          brightness: effects.brightness ? 1 + effects.brightness : undefined,
+          saturation: effects.saturation ? 1 + effects.saturation : undefined,
+          hue: effects.hue,
+        });
+      }
+      
+      if (effects.grayscale) {
+        pipeline = pipeline.grayscale();
+      }
+      
+      if (effects.invert) {
+        pipeline = pipeline.negate();
+      }
+    }
+    return pipeline;
+  }
+
+  // sharp 把动画当作各帧纵向拼接的长图处理：整体缩放与滤镜会让相邻帧的边缘互相渗色，水印也只落在一帧上。
+  // 因此逐帧调整后，整体覆盖到按最近邻缩放至同一尺寸的原动画上，以沿用其帧时长与循环次数
+  private async adjustAnimation(input: string | Buffer, animation: AnimationInfo, options: ImageConversionOptions): Promise<sharp.Sharp> {
+    const frames: Array<{ data: Buffer; info: sharp.OutputInfo }> = [];
+    for (let page = 0; page < animation.frames; page++) {
+      let pipeline = this.applyAdjustments(sharp(input, { page }), options);
+      if (options.watermark) {
+        pipeline = await this.addWatermark(pipeline, options.watermark);
+      }
+      // 灰度等效果会改变通道数，先落地为 PNG，再统一解码为 RGBA
+      const adjusted = await pipeline.png().toBuffer();
+      frames.push(await sharp(adjusted).toColourspace('srgb').ensureAlpha().raw().toBuffer({ resolveWithObject: true }));
+    }
+    
+    const { width, height } = frames[0].info;
+    return sharp(input, { animated: true })
+      .resize(width, height, { fit: 'fill', kernel: 'nearest' })
+      .ensureAlpha()
+      .composite([{
+        input: Buffer.concat(frames.map((frame) => frame.data)),
+        raw: { width, height: height * animation.frames, channels: 4 },
+        top: 0,
+        left: 0,
+        blend: 'source',
+      }]);
+  }
+
+  // 多帧 GIF / WebP 的帧数；静态图像、多页 TIFF 与无法读取的输入返回 undefined
+  private async readAnimation(input: string | Buffer): Promise<AnimationInfo | undefined> {
+    try {
+      const metadata = await sharp(input).metadata();
+      if (!metadata.delay || (metadata.pages || 1) < 2) {
+        return undefined;
+      }
+      return { frames: metadata.pages! };
+    } catch {
+      return undefined;
+    }
+  }
+
+  private keepsAnimation(animation: AnimationInfo, targetFormat: string, options: ImageConversionOptions): boolean {
+    return animation.frames > 1 && options.animation?.frame === undefined && ANIMATED_OUTPUT_FORMATS.includes(targetFormat.toLowerCase());
+  }
+
+  // Jimp 只解码第一帧：指定了其他帧时先用 sharp 取出该帧（取不出时抛出错误，而不是输出错误的帧）
+  private async selectFrame(input: string | Buffer, frame: number | undefined): Promise<string | Buffer> {
+    return frame && frame > 1 ? sharp(input, { page: frame - 1 }).png().toBuffer() : input;
+  }
+
+  // 默认沿用输入的帧时长与循环次数，显式设置时覆盖
+  private animationTiming(options: ImageConversionOptions): { loop?: number; delay?: number } {
+    const { loop, delay } = options.animation || {};
+    return { ...(loop !== undefined ? { loop } : {}), ...(delay !== undefined ? { delay } : {}) };
   }
 
   private async processSvgImage(
@@ -346,12 +739,12 @@ export class ImageConverter {
   }
 
   private async processWithJimp(
-    inputPath: string,
+    input: string | Buffer,
     outputPath: string,
     targetFormat: string,
     options: ImageConversionOptions
   ): Promise<void> {
-    const image = await (Jimp as any).read(inputPath);
+    const image = await (Jimp as any).read(input);
     
     // 调整大小
     if (options.width || options.height) {
@@ -408,9 +801,9 @@ export class ImageConverter {
       const svgText = `
         <svg width="400" height="100">
           <text x="200" y="50" font-family="Arial" font-size="${fontSize}" 
-                fill="${color}" text-anchor="middle" dominant-baseline="middle"
+                fill="${escapeXml(color)}" text-anchor="middle" dominant-baseline="middle"
                 opacity="${opacity}">
-            ${watermark.text}
+            ${escapeXml(watermark.text)}
           </text>
         </svg>
       `;
@@ -486,58 +879,126 @@ export class ImageConverter {
     }
   }
 
-  private async convertImageToPdf(
-    inputPath: string,
+  // 单张图片排版到 A4 页面；多页 TIFF 的每一帧各占一页
+  private async convertImageToPdf(input: string | Buffer, outputPath: string): Promise<void> {
+    const document = await PDFDocument.create();
+    for (const frame of await readImageFrames(input)) {
+      await addImagePdfPage(document, frame, { page_size: 'a4', fit: 'shrink', margin: SINGLE_IMAGE_PDF_MARGIN });
+    }
+    await fs.writeFile(outputPath, await document.save());
+  }
+
+  /**
+   * 将多张图片按顺序合成为一个多页 PDF 或多页 TIFF，每张图片一页（多页 TIFF 输入的每一帧各占一页）。
+   * 页面尺寸、适配方式、页边距与方向可整体设置，也可在单个输入上覆盖。
+   */
+  async combineImages(
+    inputs: ImageDocumentInput[],
     outputPath: string,
-    options: ImageConversionOptions
-  ): Promise<void> {
-    // 使用puppeteer将图像转换为PDF
-    const puppeteer = require('puppeteer');
-    let browser;
-    
-    try {
-      browser = await puppeteer.launch({ headless: true });
-      const page = await browser.newPage();
-      
-      // 读取图像并转换为base64
-      const imageBuffer = await fs.readFile(inputPath);
-      const base64Image = imageBuffer.toString('base64');
-      const mimeType = mime.lookup(inputPath) || 'image/jpeg';
-      
-      const html = `
-        <!DOCTYPE html>
-        <html>
-        <head>
-          <style>
-            body { margin: 0; padding: 20px; display: flex; justify-content: center; align-items: center; min-height: 100vh; }
-            img { max-width: 100%; max-height: 100%; object-fit: contain; }
-          </style>
-        </head>
-        <body>
-          <img src="data:${mimeType};base64,${base64Image}" alt="Image" />
-        </body>
-        </html>
-      `;
-      
-      await page.setContent(html, { waitUntil: 'networkidle0' });
-      
-      await page.pdf({
-        path: outputPath,
-        format: 'A4',
-        printBackground: true,
-        margin: {
-          top: '10mm',
-          right: '10mm',
-          bottom: '10mm',
-          left: '10mm',
-        },
+    options: ImageDocumentOptions = {}
+  ): Promise<ImageConversionResult> {
+    if (inputs.length === 0) {
+      throw new ToolError('INVALID_ARGUMENT', 'Provide at least one image to combine');
+    }
+    const extension = path.extname(outputPath).toLowerCase();
+    const format = options.format ?? (extension === '.tif' || extension === '.tiff' ? 'tiff' : extension === '.pdf' ? 'pdf' : undefined);
+    if (!format) {
+      throw new ToolError('INVALID_ARGUMENT', `Cannot infer the document format from ${path.basename(outputPath)}; use a .pdf or .tiff output path or set 'format'`, {
+        output_path: outputPath,
       });
-      
-    } finally {
-      if (browser) {
-        await browser.close();
+    }
+    assertChoice('format', format, ['pdf', 'tiff']);
+    await this.pathGuard.assertWritable(outputPath);
+
+    const { dpi = DEFAULT_RASTER_DPI, compression = 'lzw', quality } = options;
+    assertChoice('compression', compression, TIFF_COMPRESSIONS);
+    const document = format === 'pdf' ? await PDFDocument.create() : undefined;
+    const tiffPages: Buffer[] = [];
+    let originalSize = 0;
+    for (const input of inputs) {
+      await this.pathGuard.assertReadable(input.path);
+      if (!IMAGE_INPUT_EXTENSIONS.includes(path.extname(input.path).toLowerCase())) {
+        throw new ToolError('UNSUPPORTED_CONVERSION', `Not an image file: ${input.path}`, { path: input.path });
       }
+      originalSize += (await fs.stat(input.path)).size;
+      const layout: ImagePageLayout = {
+        page_size: input.page_size ?? options.page_size,
+        fit: input.fit ?? options.fit,
+        margin: input.margin ?? options.margin,
+        orientation: input.orientation ?? options.orientation,
+      };
+      for (const frame of await readImageFrames(input.path)) {
+        if (document) {
+          await addImagePdfPage(document, frame, layout);
+        } else {
+          tiffPages.push(await renderTiffPage(frame, layout, { dpi, compression, quality }));
+        }
+      }
+    }
+
+    const data = document ? Buffer.from(await document.save()) : joinTiffPages(tiffPages);
+    await fs.ensureDir(path.dirname(outputPath));
+    await fs.writeFile(outputPath, data);
+    const pages = document ? document.getPageCount() : tiffPages.length;
+    return {
+      success: true,
+      output_path: outputPath,
+      message: `Combined ${inputs.length} image(s) into a ${pages}-page ${format.toUpperCase()}`,
+      original_size: originalSize,
+      new_size: data.length,
+      metadata: { format, pages, ...(format === 'tiff' ? { dpi, compression } : {}) },
+    };
+  }
+
+  /**
+   * 将多页图像（多页 TIFF、动画 GIF/WebP）的各帧导出为单独的文件，命名为 `<文件名>-<帧序号>.<扩展名>`；
+   * 只有一帧时写入 outputPath。尺寸、质量与效果选项作用于每一帧。
+   */
+  async splitImageFrames(
+    inputPath: string,
+    outputPath: string,
+    targetFormat: string,
+    options: ImageFrameOptions = {}
+  ): Promise<ImageConversionResult> {
+    await this.pathGuard.assertReadable(inputPath);
+    await this.pathGuard.assertWritable(outputPath);
+    const input = await fs.readFile(inputPath);
+    const total = (await sharp(input).metadata()).pages || 1;
+    const { pages: range, ...frameOptions } = options;
+    const frames = parsePageRange(range, total);
+
+    await fs.ensureDir(path.dirname(outputPath));
+    const parsed = path.parse(outputPath);
+    const digits = String(total).length;
+    const outputFiles: string[] = [];
+    let newSize = 0;
+    for (const frame of frames) {
+      const filePath = frames.length === 1
+        ? outputPath
+        : path.join(parsed.dir, `${parsed.name}-${String(frame).padStart(digits, '0')}${parsed.ext}`);
+      // 先按帧解码为单帧 PNG，再走常规的单图处理流程
+      await this.processImage(await sharp(input, { page: frame - 1 }).png().toBuffer(), filePath, targetFormat, frameOptions);
+      outputFiles.push(filePath);
+      newSize += (await fs.stat(filePath)).size;
     }
+    return {
+      success: true,
+      output_path: outputFiles[0],
+      message: `Extracted ${frames.length} of ${total} frame(s) to ${targetFormat}`,
+      original_size: input.length,
+      new_size: newSize,
+      output_files: outputFiles,
+      metadata: { total_frames: total, frames },
+    };
+  }
+
+  // 目录中的图像文件，按文件名自然排序（page2 在 page10 之前）
+  async listImageFiles(inputDir: string): Promise<string[]> {
+    const files = await fs.readdir(inputDir);
+    return files
+      .filter((file) => IMAGE_INPUT_EXTENSIONS.includes(path.extname(file).toLowerCase()))
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' }))
+      .map((file) => path.join(inputDir, file));
   }
 
   async batchConvertImages(
@@ -554,19 +1015,26 @@ export class ImageConverter {
     await fs.ensureDir(outputDir);
     
     // 获取所有图像文件
-    const files = await fs.readdir(inputDir);
-    const imageFiles = files.filter(file => {
-      const ext = path.extname(file).toLowerCase();
-      return ['.jpg', '.jpeg', '.png', '.webp', '.avif', '.tiff', '.tif', '.gif', '.bmp', '.svg', '.heic', '.heif'].includes(ext);
-    });
+    const imageFiles = await this.listImageFiles(inputDir);
     
     // 批量处理
-    for (const file of imageFiles) {
-      const inputPath = path.join(inputDir, file);
+    for (const inputPath of imageFiles) {
+      const file = path.basename(inputPath);
       const outputFileName = path.basename(file, path.extname(file)) + '.' + targetFormat;
       const outputPath = path.join(outputDir, outputFileName);
       
-      const result = await this.convertImage(inputPath, outputPath, targetFormat, options);
+      // 目录中的符号链接可能指向沙箱外，逐个文件检查
+      let result: ImageConversionResult;
+      try {
+        await this.pathGuard.assertReadable(inputPath);
+        result = await this.convertImage(inputPath, outputPath, targetFormat, options);
+      } catch (error) {
+        result = {
+          success: false,
+          output_path: outputPath,
+          message: error instanceof Error ? error.message : String(error),
+        };
+      }
       results.push(result);
       
       if (result.success) {
@@ -584,8 +1052,8 @@ export class ImageConverter {
     outputPath: string,
     text: string,
     options: WatermarkOptions = {}
-  ): Promise<void> {
-    const { position = 'bottom-right', opacity = 0.5 } = options;
+  ): Promise<ImageConversionResult> {
+    const { position = 'bottom-right', opacity = 0.5, fontSize = 30 } = options;
     
     // 使用sharp添加文字水印（简化版本）
     const image = sharp(inputPath);
@@ -595,6 +1063,8 @@ export class ImageConverter {
       throw new Error('Unable to get image dimensions');
     }
     
+    await fs.ensureDir(path.dirname(outputPath));
+    
     // 创建SVG文字水印
     let x = 20, y = 50;
     switch (position) {
@@ -620,12 +1090,13 @@ export class ImageConverter {
         break;
     }
     
+    const fill = options.color || `rgba(255,255,255,${opacity})`;
     const svgText = `
       <svg width="${width}" height="${height}">
-        <text x="${x}" y="${y}" font-family="Arial" font-size="30" 
-              fill="rgba(255,255,255,${opacity})" 
+        <text x="${x}" y="${y}" font-family="Arial" font-size="${fontSize}" 
+              fill="${escapeXml(fill)}" fill-opacity="${opacity}"
               stroke="rgba(0,0,0,${opacity})" stroke-width="1">
-          ${text}
+          ${escapeXml(text)}
         </text>
       </svg>
     `;
@@ -633,6 +1104,8 @@ export class ImageConverter {
     await image
       .composite([{ input: Buffer.from(svgText), top: 0, left: 0 }])
       .toFile(outputPath);
+    
+    return this.buildResult(inputPath, outputPath, 'Successfully added text watermark');
   }
 
   async addImageWatermark(
@@ -640,12 +1113,14 @@ export class ImageConverter {
     outputPath: string,
     watermarkPath: string,
     options: WatermarkOptions = {}
-  ): Promise<void> {
+  ): Promise<ImageConversionResult> {
     const { position = 'bottom-right', opacity = 0.5 } = options;
     
     const image = sharp(inputPath);
     const watermark = sharp(watermarkPath);
     
+    await fs.ensureDir(path.dirname(outputPath));
+    
     // 调整水印透明度
     const watermarkBuffer = await watermark
       .composite([{
@@ -664,29 +1139,98 @@ export class ImageConverter {
         blend: 'over'
       }])
       .toFile(outputPath);
+    
+    return this.buildResult(inputPath, outputPath, 'Successfully added image watermark');
   }
 
   async createThumbnail(
     inputPath: string,
     outputPath: string,
     width: number = 200,
-    height: number = 200
-  ): Promise<void> {
-    await sharp(inputPath)
+    height: number = 200,
+    options: ThumbnailOptions = {}
+  ): Promise<ImageConversionResult> {
+    await fs.ensureDir(path.dirname(outputPath));
+    
+    // 缩略图格式跟随输出文件扩展名，无法识别时使用 JPEG
+    const outputFormat = this.detectImageFormat(outputPath);
+    const format = ['jpeg', 'png', 'webp', 'avif', 'tiff'].includes(outputFormat) ? outputFormat : 'jpeg';
+    
+    const pipeline = sharp(inputPath)
+      .rotate()
       .resize(width, height, {
-        fit: 'cover',
-        position: 'center'
-      })
-      .jpeg({ quality: 80 })
-      .toFile(outputPath);
+        fit: options.fit || 'cover',
+        position: options.position || 'center',
+        background: options.background || { r: 255, g: 255, b: 255, alpha: 1 },
+      });
+    
+    await this.applySharpFormat(pipeline, format, { quality: options.quality || 80 }).toFile(outputPath);
+    
+    return this.buildResult(inputPath, outputPath, `Successfully created ${width}x${height} thumbnail`);
   }
 
+  /**
+   * 重新编码图像。给出 max_bytes、最大宽高或候选格式时按预算搜索：quality 为质量上限，
+   * 在候选格式（默认 targetFormat 或输入格式，其他输入格式用 JPEG）中取预算内尺寸最大、质量最高的结果；
+   * 所选格式与输出文件扩展名不一致时改用该格式的扩展名。预算无法满足时抛出 INVALID_ARGUMENT。
+   */
   async optimizeImage(
     inputPath: string,
     outputPath: string,
-    quality: number = 80
+    quality: number = 80,
+    targetFormat?: string,
+    budget: Omit<ImageBudgetOptions, 'quality'> = {}
   ): Promise<ImageConversionResult> {
-    const format = this.detectImageFormat(inputPath);
+    const format = targetFormat || this.detectImageFormat(inputPath);
+    if (budget.max_bytes !== undefined || budget.max_width || budget.max_height || budget.formats?.length) {
+      const defaultFormat = format === 'jpg' ? 'jpeg' : format;
+      const formats = budget.formats?.length
+        ? budget.formats
+        : [((BUDGET_FORMATS.includes(defaultFormat) || targetFormat) ? defaultFormat : 'jpeg') as BudgetFormat];
+      const result = await fitImageToBudget(inputPath, { ...budget, formats, quality });
+      
+      const extension = path.extname(outputPath).toLowerCase();
+      const matches = result.format === 'jpeg' ? ['.jpg', '.jpeg'].includes(extension) : extension === `.${result.format}`;
+      const finalPath = matches
+        ? outputPath
+        : path.join(path.dirname(outputPath), `${path.basename(outputPath, path.extname(outputPath))}.${result.format === 'jpeg' ? 'jpg' : result.format}`);
+      // 改换扩展名后的路径同样要经过沙箱检查，且不能覆盖输入文件
+      if (finalPath !== outputPath) {
+        const resolved = await this.pathGuard.assertWritable(finalPath);
+        if (resolved === await this.pathGuard.assertReadable(inputPath)) {
+          throw new ToolError('INVALID_ARGUMENT', `The ${result.format} result would overwrite the input file ${inputPath}; choose another output_path`, {
+            output_path: finalPath,
+            format: result.format,
+          });
+        }
+      }
+      await fs.ensureDir(path.dirname(finalPath));
+      await fs.writeFile(finalPath, result.buffer);
+      
+      const originalSize = (await fs.stat(inputPath)).size;
+      const newSize = result.buffer.length;
+      const resized = result.width !== result.source_width || result.height !== result.source_height;
+      return {
+        success: true,
+        output_path: finalPath,
+        message: `Optimized to ${newSize} bytes as ${result.format} (${result.lossless ? 'lossless' : `quality ${result.quality}`}, ` +
+          `${result.width}x${result.height}${resized ? `, downscaled from ${result.source_width}x${result.source_height}` : ''})` +
+          (budget.max_bytes !== undefined ? ` within the ${budget.max_bytes}-byte budget` : ''),
+        original_size: originalSize,
+        new_size: newSize,
+        compression_ratio: Math.round((originalSize - newSize) / originalSize * 10000) / 100,
+        metadata: {
+          format: result.format,
+          quality: result.quality,
+          ...(result.effort !== undefined ? { effort: result.effort } : {}),
+          lossless: result.lossless,
+          width: result.width,
+          height: result.height,
+          ...(budget.max_bytes !== undefined ? { max_bytes: budget.max_bytes } : {}),
+          attempts: result.attempts,
+        },
+      };
+    }
     
     const options: ImageConversionOptions = {
       quality,
@@ -695,4 +1239,31 @@ export class ImageConverter {
     
     return this.convertImage(inputPath, outputPath, format, options);
   }
-}
\ No newline at end of file
+
+  // 汇总输出文件大小与尺寸，作为工具调用的结构化结果
+  private async buildResult(inputPath: string, outputPath: string, message: string): Promise<ImageConversionResult> {
+    const originalSize = (await fs.stat(inputPath)).size;
+    const newSize = (await fs.stat(outputPath)).size;
+    const { width, height, format } = await sharp(outputPath).metadata();
+    
+    return {
+      success: true,
+      output_path: outputPath,
+      message,
+      original_size: originalSize,
+      new_size: newSize,
+      compression_ratio: Math.round((originalSize - newSize) / originalSize * 10000) / 100,
+      metadata: { width, height, format },
+    };
+  }
+}
+
+function escapeXml(value: string): string {
+  return String(value).replace(/[&<>"']/g, (c) => ({
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&apos;',
+  }[c] || c));
+}
@@ -0,0 +1,199 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import * as mime from 'mime-types';
+import { createHash } from 'crypto';
+import sharp from 'sharp';
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFNumber, PDFRawStream, PDFRef } from 'pdf-lib';
+
+// 匹配 HTML/Markdown 中内联的 base64 图片
+const DATA_URI_PATTERN = /data:(image\/[a-z0-9.+-]+);base64,([a-z0-9+/=\s]+)/gi;
+// 表单 XObject 可以嵌套，限制递归深度防止恶意文件
+const MAX_XOBJECT_DEPTH = 5;
+
+/**
+ * 收集转换过程中提取出的图片：写入 outputDir，同一图片内容只保存一次，
+ * 并生成相对于输出文档所在目录的链接，用于改写 Markdown/HTML 中的图片地址。
+ */
+export interface ImageCollectorOptions {
+  // 输出文档所在目录，链接相对于该目录生成；未指定时使用绝对路径
+  documentDir?: string;
+  // 图片文件名前缀
+  prefix?: string;
+  // 是否将文档中的图片改写为文件链接；为 false 时只保存文件，文档中保留内联图片
+  rewriteLinks?: boolean;
+}
+
+export class ImageCollector {
+  private saved = new Map<string, string>();
+  private counter = 0;
+
+  constructor(private outputDir: string, private options: ImageCollectorOptions = {}) {}
+
+  get paths(): string[] {
+    return Array.from(this.saved.values());
+  }
+
+  async save(buffer: Buffer, extension: string): Promise<string> {
+    const hash = createHash('sha1').update(buffer).digest('hex');
+    const existing = this.saved.get(hash);
+    if (existing) {
+      return existing;
+    }
+
+    this.counter++;
+    const filePath = path.join(this.outputDir, `${this.options.prefix || 'image'}-${this.counter}.${extension}`);
+    await fs.outputFile(filePath, buffer);
+    this.saved.set(hash, filePath);
+    return filePath;
+  }
+
+  // 文档中使用的链接：有输出文档目录时为相对路径，否则为绝对路径
+  link(filePath: string): string {
+    const { documentDir } = this.options;
+    const target = documentDir ? path.relative(documentDir, filePath) : filePath;
+    return target.split(path.sep).map((segment) => encodeURIComponent(segment)).join('/')
+      .replace(/^([A-Za-z])%3A/, '$1:');
+  }
+
+  // 保存图片并返回文档中使用的地址（文件链接或原样的 data URI）
+  async saveAndLink(buffer: Buffer, contentType: string): Promise<string> {
+    const filePath = await this.save(buffer, extensionFor(contentType));
+    return this.options.rewriteLinks === false
+      ? `data:${contentType};base64,${buffer.toString('base64')}`
+      : this.link(filePath);
+  }
+}
+
+// 将内容中的 base64 data URI 图片保存为文件并替换为链接
+export async function extractDataUriImages(content: string, collector: ImageCollector): Promise<string> {
+  const matches = Array.from(content.matchAll(DATA_URI_PATTERN));
+  if (matches.length === 0) {
+    return content;
+  }
+
+  const replacements = new Map<string, string>();
+  for (const match of matches) {
+    if (replacements.has(match[0])) continue;
+    const buffer = Buffer.from(match[2].replace(/\s+/g, ''), 'base64');
+    if (buffer.length === 0) continue;
+    replacements.set(match[0], await collector.saveAndLink(buffer, match[1]));
+  }
+  return content.replace(DATA_URI_PATTERN, (uri) => replacements.get(uri) ?? uri);
+}
+
+/**
+ * 提取 PDF 中的图片 XObject：
+ * - DCTDecode（JPEG）与 JPXDecode（JPEG 2000）直接保存原始数据
+ * - FlateDecode 或未压缩的 8 位 Gray/RGB/CMYK 位图解码后保存为 PNG
+ * 其他编码（CCITT、JBIG2、带预测器或索引色的位图等）无法可靠还原，跳过。
+ */
+export async function extractPdfImages(buffer: Buffer, collector: ImageCollector): Promise<string[]> {
+  const pdf = await PDFDocument.load(buffer, { ignoreEncryption: true, updateMetadata: false });
+  const seen = new Set<string>();
+  const paths: string[] = [];
+
+  const visit = async (resources: PDFDict | undefined, depth: number) => {
+    const xObjects = resources?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+    if (!xObjects || depth > MAX_XOBJECT_DEPTH) return;
+
+    for (const [, value] of xObjects.entries()) {
+      const key = value instanceof PDFRef ? value.toString() : undefined;
+      if (key) {
+        if (seen.has(key)) continue;
+        seen.add(key);
+      }
+      const stream = pdf.context.lookup(value);
+      if (!(stream instanceof PDFRawStream)) continue;
+
+      const subtype = stream.dict.get(PDFName.of('Subtype'));
+      if (subtype === PDFName.of('Form')) {
+        await visit(stream.dict.lookupMaybe(PDFName.of('Resources'), PDFDict), depth + 1);
+      } else if (subtype === PDFName.of('Image')) {
+        const image = await decodePdfImage(stream).catch(() => undefined);
+        if (image) {
+          paths.push(await collector.save(image.data, image.extension));
+        }
+      }
+    }
+  };
+
+  for (const page of pdf.getPages()) {
+    await visit(page.node.Resources(), 0);
+  }
+  return Array.from(new Set(paths));
+}
+
+async function decodePdfImage(stream: PDFRawStream): Promise<{ data: Buffer; extension: string } | undefined> {
+  const { dict } = stream;
+  const filterValue = dict.lookup(PDFName.of('Filter'));
+  const filters = (filterValue instanceof PDFArray ? filterValue.asArray() : filterValue ? [filterValue] : [])
+    .map((filter) => String(filter));
+  const data = Buffer.from(stream.contents);
+
+  if (filters.length === 1 && filters[0] === '/DCTDecode') {
+    return { data, extension: 'jpg' };
+  }
+  if (filters.length === 1 && filters[0] === '/JPXDecode') {
+    return { data, extension: 'jp2' };
+  }
+  if (filters.length > 1 || (filters.length === 1 && filters[0] !== '/FlateDecode')) {
+    return undefined;
+  }
+  // 带预测器的 Flate 数据需要逐行反预测，暂不支持
+  if (dict.lookup(PDFName.of('DecodeParms'))) {
+    return undefined;
+  }
+
+  const width = numberValue(dict.lookup(PDFName.of('Width')));
+  const height = numberValue(dict.lookup(PDFName.of('Height')));
+  const bits = numberValue(dict.lookup(PDFName.of('BitsPerComponent')));
+  const channels = channelsFor(dict.lookup(PDFName.of('ColorSpace')));
+  if (!width || !height || bits !== 8 || !channels) {
+    return undefined;
+  }
+
+  const raw = filters.length === 1 ? zlib.inflateSync(data) : data;
+  if (raw.length < width * height * channels) {
+    return undefined;
+  }
+  let pixels = raw.subarray(0, width * height * channels);
+  if (channels === 4) {
+    // CMYK 数据先转换为 RGB，避免被当作 RGBA
+    const rgb = Buffer.alloc(width * height * 3);
+    for (let i = 0, j = 0; i < pixels.length; i += 4, j += 3) {
+      const k = 255 - pixels[i + 3];
+      rgb[j] = Math.round(((255 - pixels[i]) * k) / 255);
+      rgb[j + 1] = Math.round(((255 - pixels[i + 1]) * k) / 255);
+      rgb[j + 2] = Math.round(((255 - pixels[i + 2]) * k) / 255);
+    }
+    pixels = rgb;
+  }
+  const image = sharp(pixels, { raw: { width, height, channels: channels === 1 ? 1 : 3 } });
+  return { data: await image.png().toBuffer(), extension: 'png' };
+}
+
+function numberValue(value: unknown): number | undefined {
+  return value instanceof PDFNumber ? value.asNumber() : undefined;
+}
+
+function channelsFor(colorSpace: unknown): number | undefined {
+  switch (String(colorSpace)) {
+    case '/DeviceGray':
+    case '/CalGray':
+      return 1;
+    case '/DeviceRGB':
+    case '/CalRGB':
+      return 3;
+    case '/DeviceCMYK':
+      return 4;
+    default:
+      return undefined;
+  }
+}
+
+function extensionFor(contentType: string): string {
+  const extension = mime.extension(contentType);
+  if (extension === 'jpeg') return 'jpg';
+  return extension || 'bin';
+}
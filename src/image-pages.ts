@@ -0,0 +1,294 @@
+import * as fs from 'fs-extra';
+import sharp from 'sharp';
+import { PDFDocument } from 'pdf-lib';
+import { ToolError } from './errors';
+
+/**
+ * 图片排版为文档页面：页面尺寸、适配方式、页边距与方向的计算，
+ * 图片页写入 PDF，以及将单页 TIFF 拼接为多页 TIFF。尺寸单位均为 pt（1/72 英寸）。
+ */
+
+export type PageSize = 'fit' | 'a3' | 'a4' | 'a5' | 'letter' | 'legal';
+// contain 等比缩放至版心；cover 等比铺满版心并裁去多余部分；fill 拉伸至版心；
+// shrink 保持图片实际尺寸（按分辨率换算），超出版心时才缩小
+export type PageFit = 'contain' | 'cover' | 'fill' | 'shrink';
+export type PageOrientation = 'auto' | 'portrait' | 'landscape';
+export type TiffCompression = 'lzw' | 'deflate' | 'jpeg' | 'ccittfax4' | 'none';
+
+export interface ImagePageLayout {
+  page_size?: PageSize;
+  fit?: PageFit;
+  // 页边距（pt）；纸张默认 36，fit 默认 0
+  margin?: number;
+  // auto 按图片宽高选择横竖
+  orientation?: PageOrientation;
+}
+
+// 图片中的一帧；page 为多页 TIFF 的帧序号（从 0 开始）
+export interface ImageFrame {
+  buffer: Buffer;
+  page?: number;
+  format: string;
+  // 按 EXIF 方向校正后的像素尺寸
+  width: number;
+  height: number;
+  dpi: number;
+  orientation: number;
+}
+
+export interface PagePlacement {
+  width: number;
+  height: number;
+  // 图片在页面中的位置，y 自页面底边起算
+  x: number;
+  y: number;
+  drawWidth: number;
+  drawHeight: number;
+  // cover 时保留的图片区域（占原图的比例）
+  crop?: { left: number; top: number; width: number; height: number };
+}
+
+export const PAGE_SIZES = ['fit', 'a3', 'a4', 'a5', 'letter', 'legal'];
+export const PAGE_FITS = ['contain', 'cover', 'fill', 'shrink'];
+export const PAGE_ORIENTATIONS = ['auto', 'portrait', 'landscape'];
+export const TIFF_COMPRESSIONS = ['lzw', 'deflate', 'jpeg', 'ccittfax4', 'none'];
+
+// 纸张尺寸（pt，纵向）
+const PAPER_SIZES: Record<Exclude<PageSize, 'fit'>, [number, number]> = {
+  a3: [841.89, 1190.55],
+  a4: [595.28, 841.89],
+  a5: [419.53, 595.28],
+  letter: [612, 792],
+  legal: [612, 1008],
+};
+export const DEFAULT_PAGE_MARGIN = 36;
+// 没有分辨率信息的图片按 96 DPI 换算为 pt
+const DEFAULT_IMAGE_DPI = 96;
+const REENCODE_JPEG_QUALITY = 90;
+
+// 读取图片（文件路径或图像数据）的全部帧：多页 TIFF 每页一帧，其他格式只取第一帧
+export async function readImageFrames(input: string | Buffer): Promise<ImageFrame[]> {
+  const buffer = typeof input === 'string' ? await fs.readFile(input) : input;
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(buffer).metadata();
+  } catch (error) {
+    const name = typeof input === 'string' ? input : 'image data';
+    throw new ToolError('UNSUPPORTED_CONVERSION', `Cannot read image ${name}: ${error instanceof Error ? error.message : String(error)}`, {
+      ...(typeof input === 'string' ? { path: input } : {}),
+    });
+  }
+  const count = metadata.format === 'tiff' ? metadata.pages || 1 : 1;
+  const frames: ImageFrame[] = [];
+  for (let page = 0; page < count; page++) {
+    const frameMetadata = count > 1 ? await sharp(buffer, { page }).metadata() : metadata;
+    const orientation = frameMetadata.orientation ?? 1;
+    // EXIF 方向 5-8 需要交换宽高
+    const swap = orientation >= 5;
+    frames.push({
+      buffer,
+      ...(count > 1 ? { page } : {}),
+      format: frameMetadata.format || 'unknown',
+      width: (swap ? frameMetadata.height : frameMetadata.width) || 0,
+      height: (swap ? frameMetadata.width : frameMetadata.height) || 0,
+      dpi: frameMetadata.density || DEFAULT_IMAGE_DPI,
+      orientation,
+    });
+  }
+  return frames;
+}
+
+// 计算图片页的页面尺寸与图片位置；宽高为图片的实际尺寸（pt）
+export function layoutImagePage(width: number, height: number, layout: ImagePageLayout = {}): PagePlacement {
+  const pageSize = layout.page_size ?? 'a4';
+  assertChoice('page_size', pageSize, PAGE_SIZES);
+  assertChoice('fit', layout.fit, PAGE_FITS);
+  assertChoice('orientation', layout.orientation, PAGE_ORIENTATIONS);
+  if (pageSize === 'fit') {
+    const margin = layout.margin ?? 0;
+    return { width: width + 2 * margin, height: height + 2 * margin, x: margin, y: margin, drawWidth: width, drawHeight: height };
+  }
+
+  const [short, long] = PAPER_SIZES[pageSize];
+  const orientation = layout.orientation ?? 'auto';
+  const landscape = orientation === 'landscape' || (orientation === 'auto' && width > height);
+  const [pageWidth, pageHeight] = landscape ? [long, short] : [short, long];
+  const margin = layout.margin ?? DEFAULT_PAGE_MARGIN;
+  const boxWidth = pageWidth - 2 * margin;
+  const boxHeight = pageHeight - 2 * margin;
+  if (boxWidth <= 0 || boxHeight <= 0) {
+    throw new ToolError('INVALID_ARGUMENT', `A margin of ${margin}pt leaves no room for the image on ${pageSize} pages`, { margin, page_size: pageSize });
+  }
+
+  const place = (drawWidth: number, drawHeight: number, crop?: PagePlacement['crop']): PagePlacement => ({
+    width: pageWidth,
+    height: pageHeight,
+    x: (pageWidth - drawWidth) / 2,
+    y: (pageHeight - drawHeight) / 2,
+    drawWidth,
+    drawHeight,
+    ...(crop ? { crop } : {}),
+  });
+  switch (layout.fit ?? 'shrink') {
+    case 'fill':
+      return place(boxWidth, boxHeight);
+    case 'cover': {
+      const scale = Math.max(boxWidth / width, boxHeight / height);
+      const cropWidth = Math.min(1, boxWidth / (width * scale));
+      const cropHeight = Math.min(1, boxHeight / (height * scale));
+      return place(boxWidth, boxHeight, { left: (1 - cropWidth) / 2, top: (1 - cropHeight) / 2, width: cropWidth, height: cropHeight });
+    }
+    case 'contain': {
+      const scale = Math.min(boxWidth / width, boxHeight / height);
+      return place(width * scale, height * scale);
+    }
+    default: {
+      const scale = Math.min(1, boxWidth / width, boxHeight / height);
+      return place(width * scale, height * scale);
+    }
+  }
+}
+
+export function assertChoice(name: string, value: string | undefined, choices: string[]) {
+  if (value !== undefined && !choices.includes(value)) {
+    throw new ToolError('INVALID_ARGUMENT', `Invalid ${name} '${value}'; expected one of: ${choices.join(', ')}`, { [name]: value });
+  }
+}
+
+// 图片帧的实际尺寸（pt）
+export function frameSize(frame: ImageFrame): [number, number] {
+  return [(frame.width * 72) / frame.dpi, (frame.height * 72) / frame.dpi];
+}
+
+// 将一帧图片排版为 PDF 的一页
+export async function addImagePdfPage(document: PDFDocument, frame: ImageFrame, layout: ImagePageLayout = {}) {
+  const placement = layoutImagePage(...frameSize(frame), layout);
+  // 未裁剪的单帧 JPEG（无需按 EXIF 旋转）与 PNG 直接嵌入，其余先解码再编码：
+  // JPEG 来源仍编码为 JPEG，其他格式编码为无损 PNG
+  const untouched = !placement.crop && frame.page === undefined;
+  let image;
+  if (untouched && frame.format === 'jpeg' && frame.orientation === 1) {
+    image = await document.embedJpg(frame.buffer);
+  } else if (untouched && frame.format === 'png') {
+    image = await document.embedPng(frame.buffer);
+  } else {
+    const decoded = await frameImage(frame, placement.crop);
+    image = frame.format === 'jpeg'
+      ? await document.embedJpg(await decoded.jpeg({ quality: REENCODE_JPEG_QUALITY }).toBuffer())
+      : await document.embedPng(await decoded.png().toBuffer());
+  }
+
+  document.addPage([placement.width, placement.height]).drawImage(image, {
+    x: placement.x,
+    y: placement.y,
+    width: placement.drawWidth,
+    height: placement.drawHeight,
+  });
+}
+
+// 将一帧图片按 dpi 栅格化为白底页面，编码为单页 TIFF
+export async function renderTiffPage(
+  frame: ImageFrame,
+  layout: ImagePageLayout,
+  options: { dpi: number; compression: TiffCompression; quality?: number }
+): Promise<Buffer> {
+  const placement = layoutImagePage(...frameSize(frame), layout);
+  const pixels = (points: number) => Math.max(1, Math.round((points * options.dpi) / 72));
+  const pageWidth = pixels(placement.width);
+  const pageHeight = pixels(placement.height);
+  const drawWidth = Math.min(pixels(placement.drawWidth), pageWidth);
+  const drawHeight = Math.min(pixels(placement.drawHeight), pageHeight);
+  const image = await (await frameImage(frame, placement.crop)).resize(drawWidth, drawHeight, { fit: 'fill' }).png().toBuffer();
+
+  const canvas = sharp({ create: { width: pageWidth, height: pageHeight, channels: 3, background: { r: 255, g: 255, b: 255 } } })
+    .composite([{
+      input: image,
+      left: Math.min(pixels(placement.x), pageWidth - drawWidth),
+      top: Math.min(pixels(placement.height - placement.y - placement.drawHeight), pageHeight - drawHeight),
+    }]);
+  // 合成结果带有 alpha 通道，落地后去除；CCITT G4 只能保存黑白图像，页面二值化为 1 位
+  let page = sharp(await canvas.png().toBuffer()).removeAlpha();
+  if (options.compression === 'ccittfax4') {
+    page = page.threshold(128).toColourspace('b-w');
+  }
+  const resolution = options.dpi / 25.4;
+  return page
+    .tiff({
+      compression: options.compression,
+      quality: options.quality || 80,
+      xres: resolution,
+      yres: resolution,
+      resolutionUnit: 'inch',
+      ...(options.compression === 'ccittfax4' ? { bitdepth: 1 as const } : {}),
+    })
+    .toBuffer();
+}
+
+// 将多个 TIFF 文件的 IFD 依次串联为一个多页 TIFF：各文件原样拼接，
+// 其中的文件内偏移（IFD 链、条带/瓦片偏移、外置取值）按拼接位置平移
+export function joinTiffPages(pages: Buffer[]): Buffer {
+  const total = 8 + pages.reduce((sum, page) => sum + page.length + (page.length % 2), 0);
+  const output = Buffer.alloc(total);
+  const littleEndian = pages[0].toString('latin1', 0, 2) === 'II';
+  const read16 = (position: number) => (littleEndian ? output.readUInt16LE(position) : output.readUInt16BE(position));
+  const read32 = (position: number) => (littleEndian ? output.readUInt32LE(position) : output.readUInt32BE(position));
+  const write32 = (position: number, value: number) =>
+    littleEndian ? output.writeUInt32LE(value, position) : output.writeUInt32BE(value, position);
+
+  pages[0].copy(output, 0, 0, 4);
+  // 上一个 IFD 的“下一 IFD 偏移”字段位置，文件头中的首个 IFD 偏移位于 4
+  let link = 4;
+  let base = 8;
+  for (const page of pages) {
+    if (page.toString('latin1', 0, 2) !== (littleEndian ? 'II' : 'MM') || (littleEndian ? page.readUInt16LE(2) : page.readUInt16BE(2)) !== 42) {
+      throw new ToolError('CONVERSION_FAILED', 'Cannot join TIFF pages with different byte orders or BigTIFF pages');
+    }
+    page.copy(output, base);
+    let ifd = read32(base + 4);
+    while (ifd !== 0) {
+      write32(link, base + ifd);
+      const entries = read16(base + ifd);
+      for (let index = 0; index < entries; index++) {
+        const entry = base + ifd + 2 + index * 12;
+        const tag = read16(entry);
+        const type = read16(entry + 2);
+        const count = read32(entry + 4);
+        const size = (TIFF_TYPE_SIZES[type] || 1) * count;
+        // 取值超过 4 字节时该字段是偏移，指向的数据也随文件平移
+        const values = size > 4 ? base + read32(entry + 8) : entry + 8;
+        if (size > 4) write32(entry + 8, values);
+        if (TIFF_OFFSET_TAGS.includes(tag)) {
+          if (type !== 4) {
+            throw new ToolError('CONVERSION_FAILED', `Cannot join TIFF pages with ${type === 3 ? 'SHORT' : `type ${type}`} data offsets`);
+          }
+          for (let item = 0; item < count; item++) {
+            write32(values + item * 4, read32(values + item * 4) + base);
+          }
+        }
+      }
+      link = base + ifd + 2 + entries * 12;
+      ifd = read32(link);
+    }
+    base += page.length + (page.length % 2);
+  }
+  write32(link, 0);
+  return output;
+}
+
+// TIFF 数据类型的字节数（BYTE、ASCII、SHORT、LONG、RATIONAL 等）
+const TIFF_TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+// 取值为文件内偏移的标签：StripOffsets、TileOffsets
+const TIFF_OFFSET_TAGS = [273, 324];
+
+// 解码一帧并按 EXIF 方向校正；crop 为保留区域占图片的比例
+async function frameImage(frame: ImageFrame, crop?: PagePlacement['crop']): Promise<sharp.Sharp> {
+  const image = sharp(frame.buffer, frame.page !== undefined ? { page: frame.page } : {}).rotate();
+  if (!crop) return image;
+  // sharp 的 extract 在方向校正之前执行，先落地校正后的图像再裁剪
+  return sharp(await image.toBuffer()).extract({
+    left: Math.round(crop.left * frame.width),
+    top: Math.round(crop.top * frame.height),
+    width: Math.max(1, Math.round(crop.width * frame.width)),
+    height: Math.max(1, Math.round(crop.height * frame.height)),
+  });
+}
@@ -2,6 +2,7 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
 import {
   CallToolRequestSchema,
   ErrorCode,
@@ -10,17 +11,104 @@ import {
 } from '@modelcontextprotocol/sdk/types.js';
 import * as http from 'http';
 import * as url from 'url';
+import * as os from 'os';
+import * as path from 'path';
+import * as mime from 'mime-types';
 import * as fs from 'fs-extra';
 // 导入文档转换器类
 import { DocumentConverter } from './converter';
+import type { BufferConversionResult, ConversionContext, ConversionOptions } from './converter';
+import { iccProfilePath, ImageConverter } from './image-converter';
+import type {
+  ImageConversionOptions,
+  ImageDocumentInput,
+  ImageDocumentOptions,
+  ThumbnailOptions,
+  WatermarkOptions,
+} from './image-converter';
+import type { BudgetFormat } from './image-budget';
+import { PdfToolkit } from './pdf-tools';
+import type { ImagePageSize, PdfMergeInput, PdfPageEditOptions, PdfPageNumberOptions } from './pdf-tools';
+import { receiveUpload, UploadError, writeZipArchive } from './http-upload';
+import { HttpAccessPolicy } from './http-access';
+import { ConversionJobManager } from './job-manager';
+import { getDefaultPathGuard, PathGuard } from './path-guard';
+import type { PathAccess } from './path-guard';
+import type { ConversionJob } from './job-manager';
+import { getToolDefinitions } from './tool-definitions';
+import type { ChunkRequest } from './chunker';
+import { BrowserPool, closeDefaultBrowserPool, getDefaultBrowserPool } from './browser-pool';
+import { ConversionCache, getDefaultConversionCache } from './conversion-cache';
+import { closeDefaultOcrEngine, getDefaultOcrEngine, OcrEngine } from './ocr';
+import { formatViolations, validateSchema } from './schema-validator';
+import { ToolError, toToolError } from './errors';
+
+type McpTransportMode = 'stdio' | 'sse' | 'both';
+
+interface SseSession {
+  transport: SSEServerTransport;
+  server: Server;
+  connected_at: Date;
+}
+
+// 解析 MCP_TRANSPORT：stdio（默认）、sse（仅 HTTP）、both（同时启用）
+function resolveTransportMode(value?: string): McpTransportMode {
+  const mode = (value || 'stdio').trim().toLowerCase();
+  if (mode === 'http') return 'sse';
+  if (mode === 'stdio' || mode === 'sse' || mode === 'both') return mode;
+  console.error(`Unknown MCP_TRANSPORT "${value}", falling back to stdio`);
+  return 'stdio';
+}
 
 class DocumentConverterServer {
   private server: Server;
   private converter: DocumentConverter;
+  private imageConverter: ImageConverter;
+  private pdfToolkit: PdfToolkit;
+  private jobManager: ConversionJobManager;
+  private pathGuard: PathGuard;
+  private browserPool: BrowserPool;
+  private conversionCache: ConversionCache;
+  private ocrEngine: OcrEngine;
   private httpServer?: http.Server;
+  private httpAccess: HttpAccessPolicy;
+  private transportMode: McpTransportMode;
+  private sseSessions = new Map<string, SseSession>();
+  private maxSseSessions: number;
 
   constructor() {
-    this.server = new Server(
+    this.pathGuard = getDefaultPathGuard();
+    this.browserPool = getDefaultBrowserPool();
+    this.conversionCache = getDefaultConversionCache();
+    this.ocrEngine = getDefaultOcrEngine();
+    this.converter = new DocumentConverter({
+      pathGuard: this.pathGuard,
+      browserPool: this.browserPool,
+      cache: this.conversionCache,
+      ocr: this.ocrEngine,
+    });
+    this.imageConverter = new ImageConverter({ pathGuard: this.pathGuard });
+    this.pdfToolkit = new PdfToolkit({ pathGuard: this.pathGuard });
+    this.jobManager = new ConversionJobManager(this.converter);
+    this.server = this.createMcpServer();
+
+    this.transportMode = resolveTransportMode(process.env.MCP_TRANSPORT);
+    this.httpAccess = HttpAccessPolicy.fromEnv();
+    const maxSessions = Number(process.env.MCP_MAX_SESSIONS);
+    this.maxSseSessions = Number.isFinite(maxSessions) && maxSessions > 0 ? maxSessions : 100;
+
+    // Only setup HTTP server if not disabled
+    if (!process.env.NO_HTTP_SERVER) {
+      this.setupHttpServer();
+    } else if (this.transportMode !== 'stdio') {
+      console.error('NO_HTTP_SERVER is set, MCP over HTTP is disabled; using stdio only');
+      this.transportMode = 'stdio';
+    }
+  }
+
+  // 每个 MCP 连接（stdio 或每个 SSE 会话）都需要独立的 Server 实例
+  private createMcpServer(): Server {
+    const server = new Server(
       {
         name: 'mcp-document-converter',
         version: '1.0.0',
@@ -31,211 +119,116 @@ class DocumentConverterServer {
         },
       }
     );
-    
-    this.converter = new DocumentConverter();
-    this.setupToolHandlers();
-    
-    // Only setup HTTP server if not disabled
-    if (!process.env.NO_HTTP_SERVER) {
-      this.setupHttpServer();
-    }
+    this.setupToolHandlers(server);
+    return server;
   }
 
-  private setupToolHandlers() {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+  private get sseEnabled(): boolean {
+    return this.transportMode === 'sse' || this.transportMode === 'both';
+  }
+
+  private setupToolHandlers(server: Server) {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
-        tools: [
-          {
-            name: 'convert_document',
-            description: 'Convert documents and images between various formats (PDF, Word, Markdown, HTML, TXT, JPEG, PNG, WebP, AVIF, TIFF, GIF, BMP, SVG, HEIC, HEIF)',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                input_path: {
-                  type: 'string',
-                  description: 'Path to the input document file',
-                },
-                output_path: {
-                  type: 'string',
-                  description: 'Path for the output converted file',
-                },
-                target_format: {
-                  type: 'string',
-                  enum: ['pdf', 'docx', 'md', 'html', 'txt', 'jpeg', 'jpg', 'png', 'webp', 'avif', 'tiff', 'gif', 'bmp', 'svg', 'heic', 'heif'],
-                  description: 'Target format for conversion',
-                },
-                options: {
-                  type: 'object',
-                  description: 'Additional conversion options',
-                  properties: {
-                    preserve_formatting: {
-                      type: 'boolean',
-                      description: 'Whether to preserve original formatting',
-                      default: true,
-                    },
-                    extract_images: {
-                      type: 'boolean',
-                      description: 'Whether to extract and save images separately',
-                      default: false,
-                    },
-                    image_options: {
-                      type: 'object',
-                      description: 'Image-specific conversion options',
-                      properties: {
-                        width: {
-                          type: 'number',
-                          description: 'Target width in pixels',
-                        },
-                        height: {
-                          type: 'number',
-                          description: 'Target height in pixels',
-                        },
-                        quality: {
-                          type: 'number',
-                          description: 'Image quality (0-100)',
-                          minimum: 0,
-                          maximum: 100,
-                        },
-                        maintain_aspect_ratio: {
-                          type: 'boolean',
-                          description: 'Whether to maintain aspect ratio when resizing',
-                          default: true,
-                        },
-                        background_color: {
-                          type: 'string',
-                          description: 'Background color for transparent images',
-                        },
-                        watermark: {
-                          type: 'object',
-                          description: 'Watermark options',
-                          properties: {
-                            text: {
-                              type: 'string',
-                              description: 'Watermark text',
-                            },
-                            image_path: {
-                              type: 'string',
-                              description: 'Path to watermark image',
-                            },
-                            position: {
-                              type: 'string',
-                              enum: ['top-left', 'top-right', 'bottom-left', 'bottom-right', 'center'],
-                              description: 'Watermark position',
-                              default: 'bottom-right',
-                            },
-                            opacity: {
-                              type: 'number',
-                              description: 'Watermark opacity (0-1)',
-                              minimum: 0,
-                              maximum: 1,
-                              default: 0.5,
-                            },
-                          },
-                        },
-                      },
-                    },
-                    pdf_options: {
-                      type: 'object',
-                      description: 'PDF-specific output options',
-                      properties: {
-                        format: { type: 'string', description: 'Paper format (e.g., A4, Letter)' },
-                        landscape: { type: 'boolean', description: 'Landscape orientation' },
-                        printBackground: { type: 'boolean', description: 'Print background graphics' },
-                        scale: { type: 'number', description: 'Scale of the page rendering (0.1 - 2.0)' },
-                        margin: {
-                          type: 'object',
-                          description: 'Page margins',
-                          properties: {
-                            top: { type: 'string', description: 'Top margin (e.g., 20mm)' },
-                            right: { type: 'string', description: 'Right margin (e.g., 20mm)' },
-                            bottom: { type: 'string', description: 'Bottom margin (e.g., 20mm)' },
-                            left: { type: 'string', description: 'Left margin (e.g., 20mm)' },
-                          },
-                        },
-                        header: { type: 'string', description: 'Header text to display' },
-                        footer: { type: 'string', description: 'Footer text to display' },
-                        prefer_chinese_fonts: { type: 'boolean', description: 'Prefer Chinese font stack for rendering' }
-                      }
-                    },
-                  },
-                },
-              },
-              required: ['input_path', 'output_path', 'target_format'],
-            },
-          },
-          {
-            name: 'get_document_info',
-            description: 'Get information about a document or image (format, size, dimensions, page count, etc.)',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                file_path: {
-                  type: 'string',
-                  description: 'Path to the document file',
-                },
-              },
-              required: ['file_path'],
-            },
-          },
-          {
-            name: 'list_supported_formats',
-            description: 'List all supported input and output formats',
-            inputSchema: {
-              type: 'object',
-              properties: {},
-            },
-          },
-        ],
+        tools: getToolDefinitions(),
       };
     });
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const { name } = request.params;
+      const progressToken = request.params._meta?.progressToken;
 
       try {
+        const args = this.validateArguments(name, request.params.arguments);
+
         switch (name) {
           case 'convert_document': {
-            const { input_path, output_path, target_format, options = {} } = args as {
-              input_path: string;
-              output_path: string;
+            const { input_path, input_content, output_path, target_format, return_content = false, options = {} } = args as {
+              input_path?: string;
+              input_content?: { data: string; filename?: string; mime_type?: string };
+              output_path?: string;
               target_format: string;
-              options?: any;
+              return_content?: boolean;
+              options?: ConversionOptions;
             };
 
-            const result = await this.converter.convertDocument(
-              input_path,
-              output_path,
-              target_format,
-              options
-            );
+            if (!input_path === !input_content) {
+              throw new ToolError('INVALID_ARGUMENT', "Provide exactly one of 'input_path' or 'input_content'.");
+            }
+            if (!output_path && !return_content) {
+              throw new ToolError('INVALID_ARGUMENT', "Provide 'output_path' or set 'return_content' to true.");
+            }
+            if (input_path) {
+              await this.requireExistingPath(input_path);
+            }
+            if (output_path) {
+              await this.requireWritablePath(output_path);
+            }
+            if (options.image_output_dir) {
+              await this.requireWritablePath(options.image_output_dir);
+            }
 
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: JSON.stringify(result, null, 2),
-                },
-              ],
+            const context: ConversionContext = {
+              signal: extra.signal,
+              onProgress: (progress) => this.sendProgress(server, progressToken, progress.percent, progress.message),
             };
+            let result: BufferConversionResult;
+            if (input_content) {
+              const { buffer, fileName } = this.decodeInputContent(input_content);
+              this.converter.assertConversionSupported(this.converter.detectFormat(fileName), target_format);
+              result = await this.converter.convertBuffer(buffer, fileName, target_format, options, context);
+            } else if (output_path) {
+              this.converter.assertConversionSupported(this.converter.detectFormat(input_path as string), target_format);
+              result = await this.converter.convertDocument(
+                input_path as string,
+                output_path,
+                target_format,
+                options,
+                context
+              );
+            } else {
+              this.converter.assertConversionSupported(this.converter.detectFormat(input_path as string), target_format);
+              const buffer = await fs.readFile(input_path as string);
+              result = await this.converter.convertBuffer(buffer, path.basename(input_path as string), target_format, options, context);
+            }
+
+            // 内存转换的结果在指定了 output_path 时同样写入文件
+            if (result.success && result.buffer && output_path) {
+              await fs.outputFile(output_path, result.buffer);
+              result.output_path = output_path;
+            }
+
+            return this.conversionResult(result, return_content);
           }
 
-          case 'get_document_info': {
-            const { file_path } = args as { file_path?: string };
+          case 'chunk_document': {
+            const { input_path, input_content, options = {}, ...request } = args as ChunkRequest & {
+              input_path?: string;
+              input_content?: { data: string; filename?: string; mime_type?: string };
+              options?: ConversionOptions;
+            };
 
-            if (typeof file_path !== 'string' || file_path.trim().length === 0) {
-              throw new McpError(
-                ErrorCode.InvalidParams,
-                "Missing required 'file_path' (string)."
-              );
+            if (!input_path === !input_content) {
+              throw new ToolError('INVALID_ARGUMENT', "Provide exactly one of 'input_path' or 'input_content'.");
             }
-
-            if (!(await fs.pathExists(file_path))) {
-              throw new McpError(
-                ErrorCode.InvalidParams,
-                `File does not exist: ${file_path}`
-              );
+            let buffer: Buffer;
+            let fileName: string;
+            if (input_content) {
+              ({ buffer, fileName } = this.decodeInputContent(input_content));
+            } else {
+              await this.requireExistingPath(input_path as string);
+              buffer = await fs.readFile(input_path as string);
+              fileName = path.basename(input_path as string);
             }
 
+            const page = await this.converter.chunkDocument(buffer, fileName, request, options, extra.signal);
+            return this.jsonResult(page);
+          }
+
+          case 'get_document_info': {
+            const { file_path } = args as { file_path: string };
+            await this.requireExistingPath(file_path);
+
             const info = await this.converter.getDocumentInfo(file_path);
 
             return {
@@ -261,30 +254,467 @@ class DocumentConverterServer {
             };
           }
 
-          default:
-            throw new McpError(
-              ErrorCode.MethodNotFound,
-              `Unknown tool: ${name}`
+          case 'get_image_info': {
+            const { file_path } = args as { file_path: string };
+            await this.requireExistingPath(file_path);
+
+            const info = await this.imageConverter.getImageInfo(file_path);
+            return this.jsonResult(info);
+          }
+
+          case 'create_thumbnail': {
+            const { input_path, output_path, width = 200, height = 200, fit, position, background, quality } = args as {
+              input_path: string;
+              output_path: string;
+              width?: number;
+              height?: number;
+              fit?: ThumbnailOptions['fit'];
+              position?: string;
+              background?: string;
+              quality?: number;
+            };
+            await this.requireExistingPath(input_path);
+            await this.requireWritablePath(output_path);
+
+            const result = await this.imageConverter.createThumbnail(
+              input_path,
+              output_path,
+              width,
+              height,
+              { fit, position, background, quality }
+            );
+            return this.operationResult(result);
+          }
+
+          case 'optimize_image': {
+            const { input_path, output_path, quality = 80, target_format, ...budget } = args as {
+              input_path: string;
+              output_path: string;
+              quality?: number;
+              target_format?: string;
+              max_bytes?: number;
+              max_width?: number;
+              max_height?: number;
+              formats?: BudgetFormat[];
+            };
+            await this.requireExistingPath(input_path);
+            await this.requireWritablePath(output_path);
+
+            const result = await this.imageConverter.optimizeImage(
+              input_path,
+              output_path,
+              quality,
+              target_format,
+              budget
+            );
+            return this.operationResult(result);
+          }
+
+          case 'watermark_image': {
+            const { input_path, output_path, text, watermark_image_path, position, opacity, font_size, color } = args as {
+              input_path: string;
+              output_path: string;
+              text?: string;
+              watermark_image_path?: string;
+              position?: WatermarkOptions['position'];
+              opacity?: number;
+              font_size?: number;
+              color?: string;
+            };
+            await this.requireExistingPath(input_path);
+            await this.requireWritablePath(output_path);
+
+            const watermarkOptions: WatermarkOptions = { position, opacity, fontSize: font_size, color };
+            let result;
+            if (watermark_image_path) {
+              await this.requireExistingPath(watermark_image_path);
+              result = await this.imageConverter.addImageWatermark(
+                input_path,
+                output_path,
+                watermark_image_path,
+                watermarkOptions
+              );
+            } else if (typeof text === 'string' && text.length > 0) {
+              result = await this.imageConverter.addTextWatermark(
+                input_path,
+                output_path,
+                text,
+                watermarkOptions
+              );
+            } else {
+              throw new ToolError('INVALID_ARGUMENT', "Either 'text' or 'watermark_image_path' is required.");
+            }
+            return this.operationResult(result);
+          }
+
+          case 'batch_convert_images': {
+            const { input_dir, output_dir, target_format, options = {} } = args as {
+              input_dir: string;
+              output_dir: string;
+              target_format: string;
+              options?: ImageConversionOptions;
+            };
+            await this.requireExistingPath(input_dir);
+            await this.requireWritablePath(output_dir);
+            const iccPath = iccProfilePath(options);
+            if (iccPath) {
+              await this.requireExistingPath(iccPath);
+            }
+
+            const result = await this.imageConverter.batchConvertImages(
+              input_dir,
+              output_dir,
+              target_format,
+              options
             );
+            return this.jsonResult(result, result.success === 0 && result.failed > 0);
+          }
+
+          case 'combine_images': {
+            const { inputs, input_dir, output_path, ...documentOptions } = args as {
+              inputs?: ImageDocumentInput[];
+              input_dir?: string;
+              output_path: string;
+              format?: ImageDocumentOptions['format'];
+              page_size?: ImageDocumentOptions['page_size'];
+              fit?: ImageDocumentOptions['fit'];
+              margin?: number;
+              orientation?: ImageDocumentOptions['orientation'];
+              dpi?: number;
+              compression?: ImageDocumentOptions['compression'];
+              quality?: number;
+            };
+            if ((inputs === undefined) === (input_dir === undefined)) {
+              throw new ToolError('INVALID_ARGUMENT', "Provide exactly one of 'inputs' or 'input_dir'.");
+            }
+            let images: ImageDocumentInput[];
+            if (inputs) {
+              for (const input of inputs) {
+                await this.requireExistingPath(input.path);
+              }
+              images = inputs;
+            } else {
+              await this.requireExistingPath(input_dir!);
+              images = (await this.imageConverter.listImageFiles(input_dir!)).map((file) => ({ path: file }));
+              if (images.length === 0) {
+                throw new ToolError('INVALID_ARGUMENT', `No image files found in ${input_dir}`, { input_dir });
+              }
+            }
+            await this.requireWritablePath(output_path);
+
+            return this.jsonResult(await this.imageConverter.combineImages(images, output_path, documentOptions));
+          }
+
+          case 'split_image_frames': {
+            const { input_path, output_path, target_format, pages, options = {} } = args as {
+              input_path: string;
+              output_path: string;
+              target_format: string;
+              pages?: string;
+              options?: ImageConversionOptions;
+            };
+            await this.requireExistingPath(input_path);
+            await this.requireWritablePath(output_path);
+
+            const result = await this.imageConverter.splitImageFrames(input_path, output_path, target_format, { ...options, pages });
+            return this.jsonResult(result);
+          }
+
+          case 'merge_pdfs': {
+            const { inputs, output_path, image_page_size } = args as {
+              inputs: PdfMergeInput[];
+              output_path: string;
+              image_page_size?: ImagePageSize;
+            };
+            for (const input of inputs) {
+              await this.requireExistingPath(input.path);
+            }
+            await this.requireWritablePath(output_path);
+
+            return this.jsonResult(await this.pdfToolkit.merge(inputs, output_path, { image_page_size }));
+          }
+
+          case 'split_pdf': {
+            const { input_path, output_dir, ranges, every, by_bookmarks, bookmark_level } = args as {
+              input_path: string;
+              output_dir: string;
+              ranges?: string[];
+              every?: number;
+              by_bookmarks?: boolean;
+              bookmark_level?: number;
+            };
+            await this.requireExistingPath(input_path);
+            await this.requireWritablePath(output_dir);
+
+            const result = await this.pdfToolkit.split(input_path, output_dir, { ranges, every, by_bookmarks, bookmark_level });
+            return this.jsonResult(result);
+          }
+
+          case 'edit_pdf_pages': {
+            const { input_path, output_path, pages, delete: deletePages, rotate } = args as {
+              input_path: string;
+              output_path: string;
+              pages?: string;
+              delete?: string;
+              rotate?: PdfPageEditOptions['rotate'];
+            };
+            await this.requireExistingPath(input_path);
+            await this.requireWritablePath(output_path);
+
+            const result = await this.pdfToolkit.editPages(input_path, output_path, { pages, delete: deletePages, rotate });
+            return this.jsonResult(result);
+          }
+
+          case 'add_page_numbers': {
+            const { input_path, output_path, format, position, pages, start, font_size, color, margin } = args as {
+              input_path: string;
+              output_path: string;
+              format?: string;
+              position?: PdfPageNumberOptions['position'];
+              pages?: string;
+              start?: number;
+              font_size?: number;
+              color?: string;
+              margin?: number;
+            };
+            await this.requireExistingPath(input_path);
+            await this.requireWritablePath(output_path);
+
+            const result = await this.pdfToolkit.addPageNumbers(input_path, output_path, {
+              format,
+              position,
+              pages,
+              start,
+              font_size,
+              color,
+              margin,
+            });
+            return this.jsonResult(result);
+          }
+
+          case 'start_conversion': {
+            const { input_path, output_path, target_format, options = {} } = args as {
+              input_path: string;
+              output_path: string;
+              target_format: string;
+              options?: ConversionOptions;
+            };
+            await this.requireExistingPath(input_path);
+            await this.requireWritablePath(output_path);
+            if (options.image_output_dir) {
+              await this.requireWritablePath(options.image_output_dir);
+            }
+            // 在创建任务前检查转换组合，避免排队后才失败
+            this.converter.assertConversionSupported(this.converter.detectFormat(input_path), target_format);
+
+            // 进度通知的 progressToken 只在请求处理期间有效，任务返回后的进度通过 get_conversion_status 查询
+            const job = this.jobManager.start({
+              input_path,
+              output_path,
+              target_format,
+              options,
+            });
+            return this.jsonResult(job);
+          }
+
+          case 'get_conversion_status': {
+            const { job_id } = args as { job_id?: string };
+            if (job_id === undefined) {
+              return this.jsonResult({ jobs: this.jobManager.list() });
+            }
+            return this.jsonResult(this.requireJob(this.jobManager.get(job_id), job_id));
+          }
+
+          case 'cancel_conversion': {
+            const { job_id } = args as { job_id: string };
+            return this.jsonResult(this.requireJob(this.jobManager.cancel(job_id), job_id));
+          }
+
+          case 'conversion_cache': {
+            const { action = 'stats' } = args as { action?: 'stats' | 'clear' | 'prune' };
+            if (action === 'clear') {
+              const removed = await this.conversionCache.clear();
+              return this.jsonResult({ removed, ...(await this.conversionCache.getStats()) });
+            }
+            if (action === 'prune') {
+              const removed = await this.conversionCache.prune();
+              return this.jsonResult({ removed, ...(await this.conversionCache.getStats()) });
+            }
+            return this.jsonResult(await this.conversionCache.getStats());
+          }
+
+          default:
+            throw new ToolError('UNKNOWN_TOOL', `Unknown tool: ${name}`);
         }
       } catch (error) {
-        throw new McpError(
-          ErrorCode.InternalError,
-          `Error executing tool ${name}: ${error instanceof Error ? error.message : String(error)}`
-        );
+        // 参数类错误作为 MCP 协议错误返回；执行失败作为 isError 结果返回，便于调用方据此调整后重试
+        const toolError = toToolError(error);
+        if (toolError.code === 'UNKNOWN_TOOL') {
+          throw new McpError(ErrorCode.MethodNotFound, `[${toolError.code}] ${toolError.message}`, { error_code: toolError.code });
+        }
+        if (toolError.isClientError) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `[${toolError.code}] ${toolError.message}`,
+            { error_code: toolError.code, ...toolError.details }
+          );
+        }
+        return this.jsonResult({ success: false, error_code: toolError.code, message: toolError.message, ...toolError.details }, true);
       }
     });
   }
 
+  // 按工具的 inputSchema 校验参数，返回校验后的参数对象
+  private validateArguments(name: string, args: unknown): Record<string, unknown> {
+    const tool = getToolDefinitions().find((definition) => definition.name === name);
+    if (!tool) {
+      throw new ToolError('UNKNOWN_TOOL', `Unknown tool: ${name}`);
+    }
+    const value = args ?? {};
+    const violations = validateSchema(tool.inputSchema, value);
+    if (violations.length > 0) {
+      throw new ToolError('INVALID_ARGUMENT', `Invalid arguments for ${name}: ${formatViolations(violations)}`, {
+        violations,
+      });
+    }
+    return value as Record<string, unknown>;
+  }
+
+  private requireJob(job: ConversionJob | undefined, jobId: string): ConversionJob {
+    if (!job) {
+      throw new ToolError('JOB_NOT_FOUND', `Unknown conversion job: ${jobId}`, { job_id: jobId });
+    }
+    return job;
+  }
+
+  // 发送 MCP 进度通知（仅当客户端在请求中提供了 progressToken）
+  private sendProgress(server: Server, progressToken: string | number | undefined, progress: number, message?: string) {
+    if (progressToken === undefined) return;
+    server.notification({
+      method: 'notifications/progress',
+      params: { progressToken, progress, total: 100, ...(message ? { message } : {}) },
+    }).catch(() => undefined);
+  }
+
+  // 先做沙箱检查再判断文件是否存在，避免泄露沙箱外文件的存在性
+  private async requireExistingPath(filePath: string) {
+    await this.assertPathAllowed(filePath, 'read');
+    if (!(await fs.pathExists(filePath))) {
+      throw new ToolError('FILE_NOT_FOUND', `File does not exist: ${filePath}`, { path: filePath });
+    }
+  }
+
+  private async requireWritablePath(filePath: string) {
+    await this.assertPathAllowed(filePath, 'write');
+  }
+
+  // 越界时抛出 PathAccessError，由调用处统一映射为 PATH_NOT_ALLOWED
+  private async assertPathAllowed(filePath: string, access: PathAccess) {
+    if (access === 'write') {
+      await this.pathGuard.assertWritable(filePath);
+    } else {
+      await this.pathGuard.assertReadable(filePath);
+    }
+  }
+
+  private decodeInputContent(content: { data: string; filename?: string; mime_type?: string }) {
+    let fileName = content.filename ? path.basename(content.filename) : '';
+    if (!fileName && content.mime_type) {
+      const ext = mime.extension(content.mime_type);
+      if (ext) {
+        fileName = `input.${ext}`;
+      }
+    }
+    if (!fileName) {
+      throw new ToolError(
+        'INVALID_ARGUMENT',
+        "Provide 'input_content.filename' or a known 'input_content.mime_type' so the input format can be detected."
+      );
+    }
+
+    const buffer = Buffer.from(content.data, 'base64');
+    if (buffer.length === 0) {
+      throw new ToolError('INVALID_ARGUMENT', "'input_content.data' is not valid base64 or is empty.");
+    }
+    return { buffer, fileName };
+  }
+
+  // 转换结果：JSON 摘要，按需附带嵌入资源形式的输出文件（多页栅格化时每个文件一项）
+  private async conversionResult(result: BufferConversionResult, returnContent: boolean) {
+    const { buffer, ...summary } = result;
+    const content: any[] = [
+      {
+        type: 'text',
+        text: JSON.stringify(summary, null, 2),
+      },
+    ];
+
+    if (returnContent && result.success) {
+      const files = buffer || !result.output_files ? [result.output_path] : result.output_files;
+      for (const filePath of files) {
+        const data = buffer ?? await fs.readFile(filePath);
+        const fileName = (files.length === 1 && result.file_name) || path.basename(filePath);
+        const mimeType = (files.length === 1 && result.mime_type) || mime.lookup(fileName) || 'application/octet-stream';
+        const uri = `converted:///${encodeURIComponent(fileName)}`;
+        const isText = /^text\//.test(mimeType) || ['.md', '.txt', '.html', '.htm', '.hocr', '.json'].includes(path.extname(fileName).toLowerCase());
+
+        content.push({
+          type: 'resource',
+          resource: isText
+            ? { uri, mimeType, text: data.toString('utf-8') }
+            : { uri, mimeType, blob: data.toString('base64') },
+        });
+      }
+    }
+
+    return {
+      content,
+      ...(result.success ? {} : { isError: true }),
+    };
+  }
+
+  // 图像工具等返回 { success, message } 的操作结果，失败时标记 isError 并补充错误码
+  private operationResult<T extends { success: boolean }>(result: T) {
+    if (result.success) {
+      return this.jsonResult(result);
+    }
+    return this.jsonResult({ error_code: 'CONVERSION_FAILED', ...result }, true);
+  }
+
+  private jsonResult(data: unknown, isError: boolean = false) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(data, null, 2),
+        },
+      ],
+      ...(isError ? { isError: true } : {}),
+    };
+  }
+
   private setupHttpServer() {
     this.httpServer = http.createServer((req, res) => {
       const parsedUrl = url.parse(req.url || '', true);
       const pathname = parsedUrl.pathname;
 
-      // 设置CORS头
-      res.setHeader('Access-Control-Allow-Origin', '*');
-      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+      // 拒绝白名单外的浏览器 Origin 与非本机 Host（防止 DNS 重绑定）
+      const rejection = this.httpAccess.rejects(req);
+      if (rejection) {
+        res.writeHead(403, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Forbidden', message: rejection }));
+        return;
+      }
+
+      // 设置CORS头：只回显白名单内的 Origin
+      const origin = this.httpAccess.allowedOrigin(req);
+      if (origin) {
+        res.setHeader('Access-Control-Allow-Origin', origin);
+        res.setHeader('Vary', 'Origin');
+        res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+        res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, X-Filename');
+        res.setHeader('Access-Control-Expose-Headers', 'Content-Disposition, X-Conversion-Message');
+      }
 
       if (req.method === 'OPTIONS') {
         res.writeHead(200);
@@ -301,29 +731,78 @@ class DocumentConverterServer {
             service: 'mcp-document-converter',
             version: '1.0.0',
             timestamp: new Date().toISOString(),
-            tools: ['convert_document', 'get_document_info', 'list_supported_formats']
+            tools: getToolDefinitions().map((tool) => tool.name),
+            endpoints: ['/health', '/tools', '/status', 'POST /convert', 'POST /info'],
+            mcp_transport: this.transportMode,
+            sandbox: this.pathGuard.enabled,
+            browser_pool: this.browserPool.getStats(),
+            ocr: this.ocrEngine.getStats(),
+            conversion_cache: this.conversionCache.enabled,
+            ...(this.sseEnabled ? { mcp_endpoints: ['GET /sse', 'POST /messages'], sessions: this.sseSessions.size } : {})
           }));
           break;
 
+        case '/sse':
+          if (!this.sseEnabled) {
+            res.writeHead(404, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'MCP over HTTP is disabled', hint: 'Set MCP_TRANSPORT=sse or MCP_TRANSPORT=both' }));
+            break;
+          }
+          if (req.method !== 'GET') {
+            res.writeHead(405, { 'Content-Type': 'application/json', Allow: 'GET, OPTIONS' });
+            res.end(JSON.stringify({ error: 'Method not allowed', path: pathname }));
+            break;
+          }
+          if (!this.requireAuthorization(req, res)) {
+            break;
+          }
+          this.handleSseConnection(res).catch((error) => this.sendHttpError(res, error));
+          break;
+
+        case '/messages':
+          if (!this.sseEnabled) {
+            res.writeHead(404, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'MCP over HTTP is disabled' }));
+            break;
+          }
+          if (req.method !== 'POST') {
+            res.writeHead(405, { 'Content-Type': 'application/json', Allow: 'POST, OPTIONS' });
+            res.end(JSON.stringify({ error: 'Method not allowed', path: pathname }));
+            break;
+          }
+          if (!this.requireAuthorization(req, res)) {
+            break;
+          }
+          this.handleSseMessage(req, res, parsedUrl.query.sessionId).catch((error) => {
+            console.error('Failed to handle MCP message:', error);
+          });
+          break;
+
+        case '/convert':
+        case '/info':
+          if (req.method !== 'POST') {
+            res.writeHead(405, { 'Content-Type': 'application/json', Allow: 'POST, OPTIONS' });
+            res.end(JSON.stringify({ error: 'Method not allowed', path: pathname }));
+            break;
+          }
+          if (!this.requireAuthorization(req, res)) {
+            break;
+          }
+          (pathname === '/convert'
+            ? this.handleConvertUpload(req, res, parsedUrl.query)
+            : this.handleInfoUpload(req, res, parsedUrl.query)
+          ).catch((error) => this.sendHttpError(res, error));
+          break;
+
         case '/tools':
           res.writeHead(200, { 'Content-Type': 'application/json' });
           const formats = this.converter.getSupportedFormats();
           res.end(JSON.stringify({
-            tools: [
-              {
-                name: 'convert_document',
-                description: 'Convert documents between various formats',
-                supported_formats: formats
-              },
-              {
-                name: 'get_document_info',
-                description: 'Get information about a document'
-              },
-              {
-                name: 'list_supported_formats',
-                description: 'List all supported input and output formats'
-              }
-            ]
+            tools: getToolDefinitions().map((tool) => ({
+              name: tool.name,
+              description: tool.description,
+              ...(tool.name === 'convert_document' ? { supported_formats: formats } : {}),
+            }))
           }));
           break;
 
@@ -355,21 +834,19 @@ class DocumentConverterServer {
                 </div>
                 <div class="tools">
                   <h2>Available Tools:</h2>
+                  ${getToolDefinitions().map((tool) => `
                   <div class="tool">
-                    <strong>convert_document</strong> - Convert documents between various formats (PDF, Word, Markdown, HTML, TXT)
-                  </div>
-                  <div class="tool">
-                    <strong>get_document_info</strong> - Get information about a document (format, size, page count, etc.)
-                  </div>
-                  <div class="tool">
-                    <strong>list_supported_formats</strong> - List all supported input and output formats
-                  </div>
+                    <strong>${tool.name}</strong> - ${tool.description}
+                  </div>`).join('')}
                 </div>
                 <p><strong>API Endpoints:</strong></p>
                 <ul>
                   <li><code>GET /health</code> - Health check</li>
                   <li><code>GET /tools</code> - List available tools</li>
                   <li><code>GET /status</code> - This status page</li>
+                  <li><code>POST /convert</code> - Upload a file (multipart field <code>file</code> or raw body) with <code>target_format</code> and optional <code>options</code> JSON, returns the converted file (a ZIP archive when several files are produced)</li>
+                  <li><code>POST /info</code> - Upload a file and get its document information</li>
+                  ${this.sseEnabled ? '<li><code>GET /sse</code> + <code>POST /messages</code> - MCP over HTTP (SSE transport)</li>' : ''}
                 </ul>
               </div>
             </body>
@@ -384,41 +861,241 @@ class DocumentConverterServer {
     });
   }
 
+  // 校验 Bearer 令牌，失败时返回 401
+  private requireAuthorization(req: http.IncomingMessage, res: http.ServerResponse): boolean {
+    if (this.httpAccess.isAuthorized(req)) {
+      return true;
+    }
+    res.writeHead(401, { 'Content-Type': 'application/json', 'WWW-Authenticate': 'Bearer' });
+    res.end(JSON.stringify({ error: 'Unauthorized', hint: 'Send Authorization: Bearer <MCP_AUTH_TOKEN>' }));
+    return false;
+  }
+
+  // GET /sse：建立新的 MCP 会话，每个会话使用独立的 Server 实例
+  private async handleSseConnection(res: http.ServerResponse) {
+    if (this.sseSessions.size >= this.maxSseSessions) {
+      res.writeHead(503, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Too many MCP sessions', limit: this.maxSseSessions }));
+      return;
+    }
+
+    const transport = new SSEServerTransport('/messages', res);
+    const server = this.createMcpServer();
+    const sessionId = transport.sessionId;
+    this.sseSessions.set(sessionId, { transport, server, connected_at: new Date() });
+
+    server.onclose = () => {
+      this.sseSessions.delete(sessionId);
+      console.error(`MCP SSE session closed: ${sessionId} (${this.sseSessions.size} active)`);
+    };
+
+    await server.connect(transport);
+    console.error(`MCP SSE session opened: ${sessionId} (${this.sseSessions.size} active)`);
+  }
+
+  // POST /messages?sessionId=...：将客户端消息路由到对应会话
+  private async handleSseMessage(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    sessionId: string | string[] | undefined
+  ) {
+    const id = Array.isArray(sessionId) ? sessionId[0] : sessionId;
+    const session = id ? this.sseSessions.get(id) : undefined;
+    if (!session) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Unknown or expired MCP session', sessionId: id }));
+      return;
+    }
+    await session.transport.handlePostMessage(req, res);
+  }
+
+  private async closeSseSessions() {
+    const sessions = Array.from(this.sseSessions.values());
+    this.sseSessions.clear();
+    await Promise.all(sessions.map((session) => session.server.close().catch(() => undefined)));
+  }
+
+  // POST /convert：上传文件，转换后以流的形式返回结果文件
+  private async handleConvertUpload(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    query: Record<string, string | string[] | undefined>
+  ) {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-convert-'));
+    const cleanup = () => {
+      fs.remove(tempDir).catch(() => undefined);
+    };
+
+    try {
+      const inputDir = path.join(tempDir, 'input');
+      const outputDir = path.join(tempDir, 'output');
+      await fs.ensureDir(inputDir);
+      await fs.ensureDir(outputDir);
+
+      const upload = await receiveUpload(req, query, inputDir);
+      const targetFormat = (upload.fields.target_format || '').trim().toLowerCase();
+      if (!targetFormat) {
+        throw new UploadError("Missing required 'target_format' field");
+      }
+      const options = this.parseUploadOptions(targetFormat, upload.fields.options);
+
+      const baseName = path.parse(upload.file_name).name || 'converted';
+      const outputPath = path.join(outputDir, `${baseName}.${targetFormat}`);
+      // 上传转换只能访问本次请求的临时目录，与服务器的沙箱配置无关（文档中引用的本地图片同样受限）
+      const result = await this.converter.convertDocument(upload.file_path, outputPath, targetFormat, options, {
+        pathGuard: new PathGuard({ write_roots: [tempDir] }),
+      });
+
+      if (!result.success) {
+        // 不支持的转换组合返回 415，其余转换失败返回 422
+        res.writeHead(result.error_code === 'UNSUPPORTED_CONVERSION' ? 415 : 422, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Conversion failed', code: result.error_code, message: result.message }));
+        cleanup();
+        return;
+      }
+
+      // 多页栅格化或提取了图片时生成多个文件，打包为 ZIP 返回
+      const producedPath = result.output_path || outputPath;
+      const files = [...(result.output_files ?? [producedPath]), ...(result.extracted_images ?? [])];
+      let downloadPath = producedPath;
+      if (files.length > 1) {
+        downloadPath = path.join(tempDir, `${baseName}.zip`);
+        await writeZipArchive(files, outputDir, downloadPath);
+      }
+      const stats = await fs.stat(downloadPath);
+      const downloadName = path.basename(downloadPath);
+      res.writeHead(200, {
+        'Content-Type': mime.contentType(downloadName) || 'application/octet-stream',
+        'Content-Length': stats.size,
+        'Content-Disposition': `attachment; filename="${downloadName.replace(/[^\x20-\x7e]|"/g, '_')}"; filename*=UTF-8''${encodeURIComponent(downloadName)}`,
+        'X-Conversion-Message': encodeURIComponent(result.message),
+      });
+
+      const stream = fs.createReadStream(downloadPath);
+      stream.on('error', () => res.destroy());
+      res.on('close', cleanup);
+      stream.pipe(res);
+    } catch (error) {
+      cleanup();
+      throw error;
+    }
+  }
+
+  // POST /info：上传文件，返回文档信息
+  private async handleInfoUpload(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    query: Record<string, string | string[] | undefined>
+  ) {
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-info-'));
+    try {
+      const upload = await receiveUpload(req, query, tempDir);
+      const info = await this.converter.getDocumentInfo(upload.file_path, new PathGuard({ read_roots: [tempDir] }));
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ file_name: upload.file_name, ...info }));
+    } finally {
+      await fs.remove(tempDir).catch(() => undefined);
+    }
+  }
+
+  // 按 convert_document 的参数定义校验上传选项；引用服务器本地路径的选项对上传没有意义，直接拒绝
+  private parseUploadOptions(targetFormat: string, raw?: string): ConversionOptions {
+    let options: unknown = {};
+    if (raw && raw.trim().length > 0) {
+      try {
+        options = JSON.parse(raw);
+      } catch {
+        throw new UploadError("Field 'options' must be a JSON object");
+      }
+    }
+    try {
+      this.validateArguments('convert_document', { target_format: targetFormat, options });
+    } catch (error) {
+      throw error instanceof ToolError ? new UploadError(error.message) : error;
+    }
+
+    const parsed = options as ConversionOptions;
+    const watermark = parsed.image_options?.watermark as { image?: string; image_path?: string } | undefined;
+    const pathOptions = [
+      parsed.image_output_dir !== undefined ? 'image_output_dir' : undefined,
+      watermark?.image !== undefined || watermark?.image_path !== undefined ? 'image_options.watermark.image' : undefined,
+      parsed.image_options && iccProfilePath(parsed.image_options) ? 'image_options.metadata.icc' : undefined,
+    ].filter(Boolean);
+    if (pathOptions.length > 0) {
+      throw new UploadError(`Options that reference server paths are not supported for uploads: ${pathOptions.join(', ')}`);
+    }
+    return parsed;
+  }
+
+  private sendHttpError(res: http.ServerResponse, error: unknown) {
+    const statusCode = error instanceof UploadError ? error.statusCode : 500;
+    const message = error instanceof Error ? error.message : String(error);
+    if (res.headersSent) {
+      res.destroy();
+      return;
+    }
+    res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: statusCode === 500 ? 'Internal server error' : 'Bad request', message }));
+  }
+
   async run() {
     try {
       // 启动HTTP服务器 (if not disabled)
+      // 未配置沙箱时 MCP 工具可以读写任意路径：监听非本机地址时拒绝启用 SSE，本机监听时给出警告
+      if (this.sseEnabled && !this.pathGuard.enabled) {
+        if (!this.httpAccess.loopback) {
+          console.error(
+            `❌ Refusing to serve MCP over SSE on ${this.httpAccess.host} without a file system sandbox. ` +
+              'Configure MCP_ALLOWED_DIRS / MCP_ALLOWED_READ_DIRS / MCP_ALLOWED_WRITE_DIRS (or --allow-read / --allow-write).'
+          );
+          if (this.transportMode === 'sse') {
+            process.exit(1);
+          }
+          this.transportMode = 'stdio';
+        } else {
+          console.error('⚠️  WARNING: MCP over SSE is enabled without a file system sandbox; every connected client can read and write any file this process can access.');
+          console.error('⚠️  Configure MCP_ALLOWED_DIRS / MCP_ALLOWED_READ_DIRS / MCP_ALLOWED_WRITE_DIRS to restrict it.');
+        }
+      }
+
       if (!process.env.NO_HTTP_SERVER) {
         const port = process.env.PORT || 3000;
+        const host = this.httpAccess.host;
         if (this.httpServer) {
-          this.httpServer.listen(port, () => {
-            console.error(`🌐 HTTP server running on port ${port}`);
-            console.error(`📊 Status page: http://localhost:${port}/status`);
-            console.error(`🔍 Health check: http://localhost:${port}/health`);
+          this.httpServer.listen(Number(port), host, () => {
+            const address = host.includes(':') ? `[${host}]` : host;
+            console.error(`🌐 HTTP server running on ${address}:${port}`);
+            console.error(`📊 Status page: http://${address}:${port}/status`);
+            console.error(`🔍 Health check: http://${address}:${port}/health`);
+            if (this.httpAccess.generatedToken) {
+              // 令牌只在启动时输出一次；需要固定令牌时设置 MCP_AUTH_TOKEN
+              console.error(`🔑 MCP_AUTH_TOKEN not set; /convert, /info and SSE clients must send Authorization: Bearer ${this.httpAccess.token}`);
+            }
           });
         }
       }
 
       // 启动MCP服务器
-      const transport = new StdioServerTransport();
-      await this.server.connect(transport);
       console.error('🚀 Starting MCP Document Converter Server...');
-      console.error('MCP Document Converter Server running on stdio');
+      if (this.transportMode !== 'sse') {
+        const transport = new StdioServerTransport();
+        await this.server.connect(transport);
+        console.error('MCP Document Converter Server running on stdio');
+      }
+      if (this.sseEnabled) {
+        const port = process.env.PORT || 3000;
+        console.error(`MCP Document Converter Server accepting SSE sessions at http://${this.httpAccess.host}:${port}/sse`);
+      }
       
       // 添加进程信号处理
       process.on('SIGINT', () => {
         console.error('Received SIGINT, shutting down gracefully...');
-        if (this.httpServer) {
-          this.httpServer.close();
-        }
-        process.exit(0);
+        this.shutdown();
       });
       
       process.on('SIGTERM', () => {
         console.error('Received SIGTERM, shutting down gracefully...');
-        if (this.httpServer) {
-          this.httpServer.close();
-        }
-        process.exit(0);
+        this.shutdown();
       });
       
     } catch (error) {
@@ -426,6 +1103,17 @@ class DocumentConverterServer {
       process.exit(1);
     }
   }
+
+  private async shutdown() {
+    this.jobManager.cancelAll();
+    await this.closeSseSessions();
+    await closeDefaultBrowserPool();
+    await closeDefaultOcrEngine();
+    if (this.httpServer) {
+      this.httpServer.close();
+    }
+    process.exit(0);
+  }
 }
 
 const server = new DocumentConverterServer();
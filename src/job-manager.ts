@@ -0,0 +1,191 @@
+import { randomUUID } from 'crypto';
+import { DocumentConverter } from './converter';
+import type { ConversionOptions, ConversionProgress, ConversionResult, ConversionStage } from './converter';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ConversionJob {
+  id: string;
+  status: JobStatus;
+  stage: ConversionStage | 'queued';
+  progress: number;
+  message?: string;
+  input_path: string;
+  output_path: string;
+  target_format: string;
+  created_at: Date;
+  started_at?: Date;
+  finished_at?: Date;
+  result?: ConversionResult;
+}
+
+export interface StartJobRequest {
+  input_path: string;
+  output_path: string;
+  target_format: string;
+  options?: ConversionOptions;
+}
+
+interface JobEntry {
+  job: ConversionJob;
+  options: ConversionOptions;
+  controller: AbortController;
+}
+
+// 已结束的任务默认保留 1 小时，可通过 JOB_RETENTION_MS 调整
+const DEFAULT_RETENTION_MS = 60 * 60 * 1000;
+// 同时运行的转换任务数，可通过 MAX_CONCURRENT_JOBS 调整
+const DEFAULT_MAX_CONCURRENT = 2;
+
+export class ConversionJobManager {
+  private jobs = new Map<string, JobEntry>();
+  private queue: string[] = [];
+  private running = 0;
+  private retentionMs: number;
+  private maxConcurrent: number;
+
+  constructor(private converter: DocumentConverter) {
+    const retention = Number(process.env.JOB_RETENTION_MS);
+    this.retentionMs = Number.isFinite(retention) && retention > 0 ? retention : DEFAULT_RETENTION_MS;
+    const concurrent = Number(process.env.MAX_CONCURRENT_JOBS);
+    this.maxConcurrent = Number.isFinite(concurrent) && concurrent > 0 ? concurrent : DEFAULT_MAX_CONCURRENT;
+  }
+
+  /**
+   * 创建转换任务并立即返回，任务在后台排队执行；调用方通过 get/list 轮询状态与进度。
+   */
+  start(request: StartJobRequest): ConversionJob {
+    this.prune();
+
+    const job: ConversionJob = {
+      id: randomUUID(),
+      status: 'queued',
+      stage: 'queued',
+      progress: 0,
+      input_path: request.input_path,
+      output_path: request.output_path,
+      target_format: request.target_format,
+      created_at: new Date(),
+    };
+    const entry: JobEntry = {
+      job,
+      options: request.options || {},
+      controller: new AbortController(),
+    };
+    this.jobs.set(job.id, entry);
+    this.queue.push(job.id);
+    this.drain();
+
+    return { ...job };
+  }
+
+  get(id: string): ConversionJob | undefined {
+    const entry = this.jobs.get(id);
+    return entry ? { ...entry.job } : undefined;
+  }
+
+  list(): ConversionJob[] {
+    this.prune();
+    return Array.from(this.jobs.values()).map((entry) => ({ ...entry.job }));
+  }
+
+  /**
+   * 取消任务：排队中的任务直接标记为已取消；运行中的任务通过 AbortSignal
+   * 终止子进程（soffice/python/cscript）并关闭 Puppeteer 浏览器。
+   */
+  cancel(id: string): ConversionJob | undefined {
+    const entry = this.jobs.get(id);
+    if (!entry) return undefined;
+
+    const { job } = entry;
+    if (job.status === 'queued') {
+      this.queue = this.queue.filter((queuedId) => queuedId !== id);
+      this.finish(entry, 'cancelled', { success: false, output_path: job.output_path, message: 'Conversion cancelled', cancelled: true, error_code: 'CANCELLED' });
+    } else if (job.status === 'running') {
+      job.message = 'Cancelling';
+      entry.controller.abort();
+    }
+    return { ...job };
+  }
+
+  // 关闭服务时取消所有未完成的任务
+  cancelAll() {
+    for (const entry of this.jobs.values()) {
+      if (entry.job.status === 'queued' || entry.job.status === 'running') {
+        this.cancel(entry.job.id);
+      }
+    }
+  }
+
+  private drain() {
+    while (this.running < this.maxConcurrent && this.queue.length > 0) {
+      const id = this.queue.shift() as string;
+      const entry = this.jobs.get(id);
+      if (!entry || entry.job.status !== 'queued') continue;
+      this.running++;
+      this.execute(entry).finally(() => {
+        this.running--;
+        this.drain();
+      });
+    }
+  }
+
+  private async execute(entry: JobEntry) {
+    const { job, options, controller } = entry;
+    job.status = 'running';
+    job.started_at = new Date();
+
+    try {
+      const result = await this.converter.convertDocument(
+        job.input_path,
+        job.output_path,
+        job.target_format,
+        options,
+        {
+          signal: controller.signal,
+          onProgress: (progress: ConversionProgress) => {
+            job.stage = progress.stage;
+            job.progress = progress.percent;
+            job.message = progress.message;
+          },
+        }
+      );
+
+      if (result.cancelled || controller.signal.aborted) {
+        this.finish(entry, 'cancelled', { ...result, success: false, cancelled: true, error_code: 'CANCELLED' });
+      } else {
+        this.finish(entry, result.success ? 'completed' : 'failed', result);
+      }
+    } catch (error) {
+      this.finish(entry, 'failed', {
+        success: false,
+        output_path: job.output_path,
+        message: `Conversion failed: ${error instanceof Error ? error.message : String(error)}`,
+        error_code: 'CONVERSION_FAILED',
+      });
+    }
+  }
+
+  private finish(entry: JobEntry, status: JobStatus, result: ConversionResult) {
+    const { job } = entry;
+    job.status = status;
+    job.result = result;
+    job.message = result.message;
+    job.finished_at = new Date();
+    if (status === 'completed') {
+      job.stage = 'done';
+      job.progress = 100;
+    }
+  }
+
+  // 清理超过保留时间的已结束任务
+  private prune() {
+    const now = Date.now();
+    for (const [id, entry] of this.jobs) {
+      const finished = entry.job.finished_at;
+      if (finished && now - finished.getTime() > this.retentionMs) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
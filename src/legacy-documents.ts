@@ -0,0 +1,818 @@
+import * as path from 'path';
+import JSZip from 'jszip';
+import WordExtractor from 'word-extractor';
+import { HTMLElement } from 'node-html-parser';
+import { ToolError } from './errors';
+import { descendants, firstText, readXml, zipImageDataUri } from './office-xml';
+
+export interface LegacyDocument {
+  html: string;
+  // 只有 DOC 直接提供纯文本；其他格式由调用方从 HTML 生成
+  text?: string;
+  metadata: { title?: string; author?: string };
+}
+
+export const LEGACY_DOCUMENT_FORMATS = ['doc', 'rtf', 'odt'];
+
+/**
+ * 不依赖 Word/LibreOffice 读取 DOC、RTF、ODT：
+ * ODT 与 RTF 保留标题、段落、粗斜体、列表、表格、图片与链接；DOC 只能提取文本段落。
+ */
+export async function readLegacyDocument(buffer: Buffer, format: string): Promise<LegacyDocument> {
+  switch (format) {
+    case 'odt':
+      return readOdt(buffer);
+    case 'rtf':
+      return readRtf(buffer);
+    case 'doc':
+      // 很多 .doc 文件实际上是 RTF
+      return isRtf(buffer) ? readRtf(buffer) : readDoc(buffer);
+    default:
+      throw new ToolError('UNSUPPORTED_CONVERSION', `No built-in reader for ${format}`, { format });
+  }
+}
+
+async function readDoc(buffer: Buffer): Promise<LegacyDocument> {
+  let document: WordExtractor.Document;
+  try {
+    document = await new WordExtractor().extract(buffer);
+  } catch (error) {
+    throw new ToolError(
+      'CONVERSION_FAILED',
+      `Cannot read Word document: ${error instanceof Error ? error.message : String(error)}`,
+      { format: 'doc' }
+    );
+  }
+
+  const paragraphs = (text: string) => text.split(/\n+/).map((line) => line.trim()).filter(Boolean);
+  const body = paragraphs(document.getBody());
+  const notes = [...paragraphs(document.getFootnotes()), ...paragraphs(document.getEndnotes())];
+  const html = body.map((line) => `<p>${escapeHtml(line)}</p>`);
+  if (notes.length > 0) {
+    html.push('<hr>', ...notes.map((line) => `<p><small>${escapeHtml(line)}</small></p>`));
+  }
+  return {
+    html: html.join('\n'),
+    text: [...body, ...notes].join('\n\n'),
+    metadata: {},
+  };
+}
+
+// ---------------------------------------------------------------------------
+// ODT
+
+interface OdtStyles {
+  text: Map<string, { bold?: boolean; italic?: boolean; underline?: boolean }>;
+  // 列表样式名称 → 第一级是否为编号列表
+  orderedLists: Map<string, boolean>;
+}
+
+async function readOdt(buffer: Buffer): Promise<LegacyDocument> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch {
+    throw new ToolError('INVALID_ARGUMENT', 'Input is not a valid odt (ZIP) file', { format: 'odt' });
+  }
+  const content = await readXml(zip, 'content.xml');
+  const body = content ? descendants(content, 'office:text')[0] : undefined;
+  if (!content || !body) {
+    throw new ToolError('INVALID_ARGUMENT', 'ODT is missing the document body (content.xml)', { format: 'odt' });
+  }
+
+  // 自动样式在 content.xml，命名样式在 styles.xml
+  const styles: OdtStyles = { text: new Map(), orderedLists: new Map() };
+  for (const xml of [await readXml(zip, 'styles.xml'), content]) {
+    if (xml) collectOdtStyles(xml, styles);
+  }
+
+  const writer = new OdtWriter(zip, styles);
+  const html = await writer.blocks(body);
+  const meta = await readXml(zip, 'meta.xml');
+  return {
+    html: html + writer.footnotes(),
+    metadata: {
+      title: meta ? firstText(meta, 'dc:title') : undefined,
+      author: meta ? firstText(meta, 'dc:creator') || firstText(meta, 'meta:initial-creator') : undefined,
+    },
+  };
+}
+
+function collectOdtStyles(xml: HTMLElement, styles: OdtStyles) {
+  for (const style of descendants(xml, 'style:style')) {
+    const name = style.getAttribute('style:name');
+    const properties = descendants(style, 'style:text-properties')[0];
+    if (!name || !properties) continue;
+    const underline = properties.getAttribute('style:text-underline-style');
+    styles.text.set(name, {
+      bold: properties.getAttribute('fo:font-weight') === 'bold',
+      italic: properties.getAttribute('fo:font-style') === 'italic',
+      underline: !!underline && underline !== 'none',
+    });
+  }
+  for (const list of descendants(xml, 'text:list-style')) {
+    const name = list.getAttribute('style:name');
+    const first = list.childNodes.find((node): node is HTMLElement => node instanceof HTMLElement);
+    if (name && first) styles.orderedLists.set(name, first.rawTagName === 'text:list-level-style-number');
+  }
+}
+
+class OdtWriter {
+  private notes: string[] = [];
+
+  constructor(private zip: JSZip, private styles: OdtStyles) {}
+
+  async blocks(element: HTMLElement, listStyle?: string): Promise<string> {
+    const parts: string[] = [];
+    for (const node of element.childNodes) {
+      if (!(node instanceof HTMLElement)) continue;
+      switch (node.rawTagName) {
+        case 'text:h': {
+          const level = Math.min(Math.max(Number(node.getAttribute('text:outline-level')) || 1, 1), 6);
+          parts.push(`<h${level}>${await this.inline(node)}</h${level}>`);
+          break;
+        }
+        case 'text:p': {
+          const html = await this.inline(node);
+          if (html.trim()) parts.push(`<p>${html}</p>`);
+          break;
+        }
+        case 'text:list': {
+          // 嵌套列表沿用外层的列表样式
+          const style = node.getAttribute('text:style-name') || listStyle;
+          const tag = style && this.styles.orderedLists.get(style) ? 'ol' : 'ul';
+          const items: string[] = [];
+          for (const item of node.childNodes) {
+            if (item instanceof HTMLElement && (item.rawTagName === 'text:list-item' || item.rawTagName === 'text:list-header')) {
+              // 第一个段落直接作为列表项文本，避免生成松散列表
+              items.push(`<li>${(await this.blocks(item, style)).replace(/^<p>([\s\S]*?)<\/p>/, '$1')}</li>`);
+            }
+          }
+          parts.push(`<${tag}>\n${items.join('\n')}\n</${tag}>`);
+          break;
+        }
+        case 'table:table':
+          parts.push(await this.table(node));
+          break;
+        case 'text:sequence-decls':
+        case 'text:tracked-changes':
+        case 'office:forms':
+        case 'text:soft-page-break':
+          break;
+        default:
+          // text:section、目录（text:table-of-content）等容器
+          parts.push(await this.blocks(node, listStyle));
+      }
+    }
+    return parts.filter(Boolean).join('\n');
+  }
+
+  footnotes(): string {
+    if (this.notes.length === 0) return '';
+    return `\n<hr>\n<ol class="footnotes">\n${this.notes.map((note, index) => `<li id="fn-${index + 1}">${note}</li>`).join('\n')}\n</ol>`;
+  }
+
+  private async table(table: HTMLElement): Promise<string> {
+    const head: string[] = [];
+    const body: string[] = [];
+    const walk = async (element: HTMLElement, header: boolean) => {
+      for (const node of element.childNodes) {
+        if (!(node instanceof HTMLElement)) continue;
+        if (node.rawTagName === 'table:table-row') {
+          const cells: string[] = [];
+          for (const cell of node.childNodes) {
+            if (!(cell instanceof HTMLElement) || cell.rawTagName !== 'table:table-cell') continue;
+            const colSpan = Number(cell.getAttribute('table:number-columns-spanned')) || 1;
+            const rowSpan = Number(cell.getAttribute('table:number-rows-spanned')) || 1;
+            const attributes = `${colSpan > 1 ? ` colspan="${colSpan}"` : ''}${rowSpan > 1 ? ` rowspan="${rowSpan}"` : ''}`;
+            const tag = header ? 'th' : 'td';
+            cells.push(`<${tag}${attributes}>${await this.cell(cell)}</${tag}>`);
+          }
+          (header ? head : body).push(`<tr>${cells.join('')}</tr>`);
+        } else if (node.rawTagName === 'table:table-header-rows') {
+          await walk(node, true);
+        } else if (node.rawTagName === 'table:table-rows' || node.rawTagName === 'table:table-row-group') {
+          await walk(node, header);
+        }
+      }
+    };
+    await walk(table, false);
+    return `<table>\n${head.length > 0 ? `<thead>${head.join('')}</thead>\n` : ''}<tbody>\n${body.join('\n')}\n</tbody>\n</table>`;
+  }
+
+  // 单元格中的多个段落用换行分隔，便于转换为 Markdown 表格
+  private async cell(cell: HTMLElement): Promise<string> {
+    const paragraphs: string[] = [];
+    for (const node of descendants(cell, '*')) {
+      if (node.rawTagName === 'text:p' || node.rawTagName === 'text:h') {
+        paragraphs.push(await this.inline(node));
+      }
+    }
+    return paragraphs.join('<br>');
+  }
+
+  private async inline(element: HTMLElement): Promise<string> {
+    let html = '';
+    for (const node of element.childNodes) {
+      if (!(node instanceof HTMLElement)) {
+        html += escapeHtml(node.text);
+        continue;
+      }
+      switch (node.rawTagName) {
+        case 'text:s':
+          html += ' '.repeat(Number(node.getAttribute('text:c')) || 1);
+          break;
+        case 'text:tab':
+          html += '\t';
+          break;
+        case 'text:line-break':
+          html += '<br>';
+          break;
+        case 'text:span': {
+          const style = this.styles.text.get(node.getAttribute('text:style-name') || '');
+          let inner = await this.inline(node);
+          if (inner.trim()) {
+            if (style?.underline) inner = `<u>${inner}</u>`;
+            if (style?.italic) inner = `<em>${inner}</em>`;
+            if (style?.bold) inner = `<strong>${inner}</strong>`;
+          }
+          html += inner;
+          break;
+        }
+        case 'text:a': {
+          const href = node.getAttribute('xlink:href') || '';
+          html += `<a href="${escapeHtml(href)}">${await this.inline(node)}</a>`;
+          break;
+        }
+        case 'text:note': {
+          const noteBody = descendants(node, 'text:note-body')[0];
+          this.notes.push(noteBody ? await this.blocks(noteBody) : '');
+          const number = this.notes.length;
+          html += `<sup><a href="#fn-${number}">${number}</a></sup>`;
+          break;
+        }
+        case 'draw:frame':
+          html += await this.frame(node);
+          break;
+        case 'office:annotation':
+        case 'text:bookmark':
+        case 'text:bookmark-start':
+        case 'text:bookmark-end':
+        case 'text:soft-page-break':
+          break;
+        default:
+          html += await this.inline(node);
+      }
+    }
+    return html;
+  }
+
+  // 图片框输出为 data URI 图片；文本框中的段落以换行分隔内联输出
+  private async frame(frame: HTMLElement): Promise<string> {
+    const parts: string[] = [];
+    for (const image of descendants(frame, 'draw:image')) {
+      const href = image.getAttribute('xlink:href');
+      const src = href && !/^[a-z][a-z0-9+.-]*:/i.test(href) ? await zipImageDataUri(this.zip, path.posix.normalize(href)) : undefined;
+      if (src) {
+        const alt = firstText(frame, 'svg:title') || firstText(frame, 'svg:desc') || frame.getAttribute('draw:name') || '';
+        parts.push(`<img src="${src}" alt="${escapeHtml(alt)}">`);
+        // 同一图片框中的替代图片（如 SVG 的位图回退）只取第一张
+        break;
+      }
+    }
+    const textBox = descendants(frame, 'draw:text-box')[0];
+    if (textBox) {
+      for (const paragraph of descendants(textBox, '*').filter((node) => node.rawTagName === 'text:p' || node.rawTagName === 'text:h')) {
+        parts.push(await this.inline(paragraph));
+      }
+    }
+    return parts.filter(Boolean).join('<br>');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// RTF
+
+// 不输出内容的目标组
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'listtable', 'listoverridetable', 'rsidtbl', 'generator', 'xmlnstbl',
+  'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl', 'footerr', 'footerf',
+  'themedata', 'colorschememapping', 'latentstyles', 'datastore', 'pntext', 'listtext',
+  'nonshppict', 'object', 'bkmkstart', 'bkmkend', 'annotation', 'atnid', 'atnauthor', 'comment',
+  'keywords', 'operator', 'company', 'doccomm', 'creatim', 'revtim', 'printim', 'buptim', 'pgdsctbl',
+]);
+
+const RTF_CODEPAGES: Record<number, string> = {
+  437: 'ibm437', 850: 'ibm850', 874: 'windows-874', 932: 'shift_jis', 936: 'gbk', 949: 'euc-kr', 950: 'big5',
+  1250: 'windows-1250', 1251: 'windows-1251', 1252: 'windows-1252', 1253: 'windows-1253', 1254: 'windows-1254',
+  1255: 'windows-1255', 1256: 'windows-1256', 1257: 'windows-1257', 1258: 'windows-1258', 10000: 'macintosh', 65001: 'utf-8',
+};
+
+interface RtfState {
+  destination: 'body' | 'skip' | 'pict' | 'stylesheet' | 'title' | 'author' | 'footnote' | 'fldinst';
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  hidden: boolean;
+  // \uN 之后需要跳过的替代字符数
+  uc: number;
+  // 位于 HYPERLINK 域的结果组（\fldrslt）中时的链接地址
+  link?: string;
+}
+
+interface RtfRun {
+  html: string;
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  link?: string;
+}
+
+function isRtf(buffer: Buffer): boolean {
+  return buffer.subarray(0, 5).toString('latin1') === '{\\rtf';
+}
+
+function readRtf(buffer: Buffer): LegacyDocument {
+  if (!isRtf(buffer)) {
+    throw new ToolError('INVALID_ARGUMENT', 'Input is not a valid RTF file', { format: 'rtf' });
+  }
+  return new RtfReader(buffer.toString('latin1')).read();
+}
+
+class RtfReader {
+  private state: RtfState = { destination: 'body', bold: false, italic: false, underline: false, hidden: false, uc: 1 };
+  private stack: RtfState[] = [];
+  private decoder = new TextDecoder('windows-1252');
+  private pendingBytes: number[] = [];
+  private skipChars = 0;
+  // 上一个符号是 \*，下一个控制字若未识别则跳过整个组
+  private ignorable = false;
+
+  // 当前段落
+  private runs: RtfRun[] = [];
+  private headingLevel = 0;
+  private inTable = false;
+  private listItem = false;
+  private styleId = 0;
+
+  // 已完成的块与表格
+  private blocks: Array<{ type: 'p' | 'li' | 'table'; html: string }> = [];
+  private row: string[] = [];
+  private rows: string[] = [];
+
+  // 样式表：样式编号 → 标题级别
+  private headingStyles = new Map<number, number>();
+  private styleName = '';
+  private stylesheetId = 0;
+  private stylesheetOutline = 0;
+
+  private pict = { hex: '', type: '' };
+  private metadata: { title?: string; author?: string } = {};
+  private metadataText = '';
+  private footnotes: RtfRun[][] = [];
+  private footnoteRuns: RtfRun[] = [];
+
+  // 域指令（{\*\fldinst HYPERLINK "..."}）的文本，以及解析出的、等待 \fldrslt 使用的链接
+  private fieldInstruction = '';
+  private fieldLink: string | undefined;
+
+  constructor(private source: string) {}
+
+  read(): LegacyDocument {
+    const source = this.source;
+    let i = 0;
+    while (i < source.length) {
+      const char = source[i];
+      if (char === '{') {
+        this.flushBytes();
+        this.stack.push({ ...this.state });
+        if (this.state.destination === 'stylesheet') {
+          this.stylesheetId = 0;
+          this.stylesheetOutline = 0;
+          this.styleName = '';
+        }
+        i++;
+      } else if (char === '}') {
+        this.flushBytes();
+        this.endGroup();
+        i++;
+      } else if (char === '\\') {
+        i = this.controlSymbol(i + 1);
+      } else if (char === '\r' || char === '\n') {
+        i++;
+      } else {
+        this.flushBytes();
+        this.text(char);
+        i++;
+      }
+    }
+    this.flushBytes();
+    this.endParagraph();
+    this.flushTable();
+    return { html: this.render(), metadata: this.metadata };
+  }
+
+  private controlSymbol(i: number): number {
+    const source = this.source;
+    const char = source[i];
+    if (char === undefined) return i;
+
+    if (/[a-zA-Z]/.test(char)) {
+      const match = /^([a-zA-Z]+)(-?\d+)? ?/.exec(source.slice(i, i + 40))!;
+      this.controlWord(match[1], match[2] === undefined ? undefined : Number(match[2]));
+      return i + match[0].length;
+    }
+
+    if (char === '\'') {
+      const byte = parseInt(source.slice(i + 1, i + 3), 16);
+      if (this.skipChars > 0) {
+        this.skipChars--;
+      } else if (!Number.isNaN(byte)) {
+        this.pendingBytes.push(byte);
+      }
+      return i + 3;
+    }
+
+    this.flushBytes();
+    switch (char) {
+      case '\\':
+      case '{':
+      case '}':
+        this.text(char);
+        break;
+      case '~':
+        this.text(' ');
+        break;
+      case '_':
+        this.text('-');
+        break;
+      case '*':
+        // 可忽略的目标组：未识别的控制字在 controlWord 中跳过
+        this.ignorable = true;
+        break;
+      case '\r':
+      case '\n':
+        this.endParagraph();
+        break;
+    }
+    return i + 1;
+  }
+
+  private controlWord(word: string, param: number | undefined) {
+    this.flushBytes();
+    const state = this.state;
+    const ignorable = this.ignorable;
+    this.ignorable = false;
+
+    if (RTF_SKIPPED_DESTINATIONS.has(word)) {
+      state.destination = 'skip';
+      return;
+    }
+    if (state.destination === 'skip' && word !== 'title' && word !== 'author') {
+      return;
+    }
+
+    switch (word) {
+      case 'ansicpg':
+        try {
+          this.decoder = new TextDecoder(RTF_CODEPAGES[param ?? 1252] || `windows-${param}`);
+        } catch {
+          this.decoder = new TextDecoder('windows-1252');
+        }
+        return;
+      case 'stylesheet':
+        state.destination = 'stylesheet';
+        return;
+      case 'info':
+        // info 组中只读取标题与作者
+        state.destination = 'skip';
+        return;
+      case 'title':
+      case 'author':
+        state.destination = word;
+        this.metadataText = '';
+        return;
+      case 'footnote':
+        state.destination = 'footnote';
+        this.footnoteRuns = [];
+        return;
+      case 'pict':
+        state.destination = 'pict';
+        this.pict = { hex: '', type: '' };
+        return;
+      case 'shppict':
+        // {\*\shppict{\pict ...}}：图片本身在内部的 \pict 组中
+        return;
+      case 'fldinst':
+        state.destination = 'fldinst';
+        this.fieldInstruction = '';
+        this.fieldLink = undefined;
+        return;
+      case 'fldrslt':
+        // 域的显示结果：HYPERLINK 域的结果包装为链接
+        state.link = this.fieldLink;
+        this.fieldLink = undefined;
+        return;
+    }
+
+    // 其余控制字只作用于正文、脚注以及样式表中的样式定义
+    switch (state.destination) {
+      case 'body':
+      case 'footnote':
+        this.textControlWord(word, param, ignorable);
+        return;
+      case 'stylesheet':
+        if (word === 's') this.stylesheetId = param ?? 0;
+        else if (word === 'outlinelevel' && param !== undefined && param >= 0 && param < 6) this.stylesheetOutline = param + 1;
+        return;
+      case 'pict':
+        if (word === 'pngblip') this.pict.type = 'image/png';
+        else if (word === 'jpegblip') this.pict.type = 'image/jpeg';
+        return;
+    }
+  }
+
+  private textControlWord(word: string, param: number | undefined, ignorable: boolean) {
+    const state = this.state;
+    // 段落属性只对正文生效，脚注中的段落以换行分隔
+    const body = state.destination === 'body';
+    switch (word) {
+      case 'par':
+      case 'sect':
+      case 'page':
+        this.endParagraph();
+        return;
+      case 'pard':
+        if (body) {
+          this.headingLevel = 0;
+          this.inTable = false;
+          this.listItem = false;
+          this.styleId = 0;
+        }
+        return;
+      case 'plain':
+        state.bold = state.italic = state.underline = state.hidden = false;
+        return;
+      case 'b':
+        state.bold = param !== 0;
+        return;
+      case 'i':
+        state.italic = param !== 0;
+        return;
+      case 'ul':
+        state.underline = param !== 0;
+        return;
+      case 'ulnone':
+        state.underline = false;
+        return;
+      case 'v':
+        state.hidden = param !== 0;
+        return;
+      case 'uc':
+        state.uc = param ?? 1;
+        return;
+      case 'u':
+        if (param !== undefined) {
+          this.text(String.fromCharCode(param < 0 ? param + 65536 : param));
+          this.skipChars = state.uc;
+        }
+        return;
+      case 's':
+        if (body) this.styleId = param ?? 0;
+        return;
+      case 'outlinelevel':
+        if (body && param !== undefined && param >= 0 && param < 6) this.headingLevel = param + 1;
+        return;
+      case 'ls':
+        if (body) this.listItem = true;
+        return;
+      case 'intbl':
+        if (body) this.inTable = true;
+        return;
+      case 'cell':
+        if (body) this.row.push(`<td>${this.takeParagraph().join('')}</td>`);
+        return;
+      case 'row':
+        if (body) {
+          if (this.row.length > 0) this.rows.push(`<tr>${this.row.join('')}</tr>`);
+          this.row = [];
+        }
+        return;
+      case 'line':
+        this.raw('<br>');
+        return;
+      case 'tab':
+        this.text('\t');
+        return;
+      case 'emdash':
+        this.text('—');
+        return;
+      case 'endash':
+        this.text('–');
+        return;
+      case 'bullet':
+        this.text('•');
+        return;
+      case 'lquote':
+        this.text('‘');
+        return;
+      case 'rquote':
+        this.text('’');
+        return;
+      case 'ldblquote':
+        this.text('“');
+        return;
+      case 'rdblquote':
+        this.text('”');
+        return;
+      default:
+        if (ignorable) state.destination = 'skip';
+    }
+  }
+
+  private endGroup() {
+    const closing = this.state;
+    const parent = this.stack.pop();
+    if (!parent) return;
+
+    if (closing.destination === 'pict' && parent.destination !== 'pict') {
+      if (this.pict.type && this.pict.hex) {
+        const data = Buffer.from(this.pict.hex.replace(/[^0-9a-fA-F]/g, ''), 'hex').toString('base64');
+        this.state = parent;
+        this.raw(`<img src="data:${this.pict.type};base64,${data}" alt="">`);
+        return;
+      }
+    } else if (closing.destination === 'fldinst' && parent.destination !== 'fldinst') {
+      this.fieldLink = parseHyperlinkField(this.fieldInstruction);
+    } else if ((closing.destination === 'title' || closing.destination === 'author') && parent.destination !== closing.destination) {
+      const value = this.metadataText.trim();
+      if (value) this.metadata[closing.destination] = value;
+    } else if (closing.destination === 'footnote' && parent.destination !== 'footnote') {
+      this.footnotes.push(this.footnoteRuns);
+      this.state = parent;
+      const number = this.footnotes.length;
+      this.raw(`<sup><a href="#fn-${number}">${number}</a></sup>`);
+      return;
+    } else if (parent.destination === 'stylesheet' && closing.destination === 'stylesheet') {
+      // 样式表中的一项，如 {\s1 ... heading 1;}
+      const match = /^heading\s*(\d)$/i.exec(this.styleName.replace(/;$/, '').trim());
+      const level = match ? Math.min(Number(match[1]), 6) : this.stylesheetOutline;
+      if (level > 0) this.headingStyles.set(this.stylesheetId, level);
+    }
+    this.state = parent;
+  }
+
+  private text(text: string) {
+    if (this.skipChars > 0) {
+      this.skipChars--;
+      return;
+    }
+    switch (this.state.destination) {
+      case 'body':
+      case 'footnote':
+        if (!this.state.hidden) this.raw(escapeHtml(text));
+        break;
+      case 'pict':
+        this.pict.hex += text;
+        break;
+      case 'stylesheet':
+        this.styleName += text;
+        break;
+      case 'title':
+      case 'author':
+        this.metadataText += text;
+        break;
+      case 'fldinst':
+        this.fieldInstruction += text;
+        break;
+    }
+  }
+
+  private raw(html: string) {
+    const destination = this.state.destination;
+    if (destination !== 'body' && destination !== 'footnote') return;
+    const runs = destination === 'footnote' ? this.footnoteRuns : this.runs;
+    const { bold, italic, underline, link } = this.state;
+    const last = runs[runs.length - 1];
+    if (last && last.bold === bold && last.italic === italic && last.underline === underline && last.link === link) {
+      last.html += html;
+    } else {
+      runs.push({ html, bold, italic, underline, link });
+    }
+  }
+
+  private flushBytes() {
+    if (this.pendingBytes.length === 0) return;
+    const text = this.decoder.decode(Uint8Array.from(this.pendingBytes));
+    this.pendingBytes = [];
+    // 十六进制字节先经代码页解码，再按普通字符处理（跳过计数按解码前的字节计算）
+    const skip = this.skipChars;
+    this.skipChars = 0;
+    this.text(text);
+    this.skipChars = skip;
+  }
+
+  // 取出当前段落（单元格）的内容
+  private takeParagraph(): string[] {
+    const html = renderRuns(this.runs).replace(/^(<br>)+|(<br>)+$/g, '');
+    this.runs = [];
+    return html ? [html] : [];
+  }
+
+  private endParagraph() {
+    if (this.state.destination === 'footnote') {
+      this.raw('<br>');
+      return;
+    }
+    if (this.inTable) {
+      // 表格中的段落分隔在单元格内保留为换行
+      if (this.runs.length > 0) this.raw('<br>');
+      return;
+    }
+    this.flushTable();
+    const [html] = this.takeParagraph();
+    if (!html || !html.replace(/<br>/g, '').trim()) return;
+    const level = this.headingLevel || this.headingStyles.get(this.styleId) || 0;
+    if (level > 0) {
+      this.blocks.push({ type: 'p', html: `<h${level}>${html}</h${level}>` });
+    } else if (this.listItem) {
+      this.blocks.push({ type: 'li', html: `<li>${html}</li>` });
+    } else {
+      this.blocks.push({ type: 'p', html: `<p>${html}</p>` });
+    }
+  }
+
+  private flushTable() {
+    if (this.row.length > 0) {
+      this.rows.push(`<tr>${this.row.join('')}</tr>`);
+      this.row = [];
+    }
+    if (this.rows.length === 0) return;
+    this.blocks.push({ type: 'table', html: `<table>\n<tbody>\n${this.rows.join('\n')}\n</tbody>\n</table>` });
+    this.rows = [];
+  }
+
+  private render(): string {
+    const parts: string[] = [];
+    let list: string[] = [];
+    const flushList = () => {
+      if (list.length > 0) parts.push(`<ul>\n${list.join('\n')}\n</ul>`);
+      list = [];
+    };
+    for (const block of this.blocks) {
+      if (block.type === 'li') {
+        list.push(block.html);
+        continue;
+      }
+      flushList();
+      parts.push(block.html);
+    }
+    flushList();
+    if (this.footnotes.length > 0) {
+      parts.push('<hr>', `<ol class="footnotes">\n${this.footnotes.map((runs, index) => `<li id="fn-${index + 1}">${renderRuns(runs).replace(/^(<br>)+|(<br>)+$/g, '')}</li>`).join('\n')}\n</ol>`);
+    }
+    return parts.join('\n');
+  }
+}
+
+// 格式化各个文本段，同一链接的相邻文本段合并为一个 <a>
+function renderRuns(runs: RtfRun[]): string {
+  const parts: string[] = [];
+  let link: string | undefined;
+  let linked = '';
+  const flushLink = () => {
+    if (link !== undefined && linked) parts.push(`<a href="${escapeHtml(link)}">${linked}</a>`);
+    linked = '';
+  };
+  for (const run of runs) {
+    let html = run.html;
+    if (html.trim()) {
+      if (run.underline && run.link === undefined) html = `<u>${html}</u>`;
+      if (run.italic) html = `<em>${html}</em>`;
+      if (run.bold) html = `<strong>${html}</strong>`;
+    }
+    if (run.link !== link) {
+      flushLink();
+      link = run.link;
+    }
+    if (link === undefined) {
+      parts.push(html);
+    } else {
+      linked += html;
+    }
+  }
+  flushLink();
+  return parts.join('').trim();
+}
+
+// HYPERLINK "url"，或指向书签的 HYPERLINK \l "name"；其他域（PAGE、TOC 等）不生成链接
+function parseHyperlinkField(instruction: string): string | undefined {
+  const match = /^\s*HYPERLINK\s+((?:\\[a-z]\s+(?:"[^"]*"\s+)?)*)"([^"]*)"/i.exec(instruction)
+    ?? /^\s*HYPERLINK\s+((?:\\[a-z]\s+)*)([^\s"\\]+)/i.exec(instruction);
+  if (!match || !match[2]) return undefined;
+  return /\\l\b/.test(match[1]) ? `#${match[2]}` : match[2];
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
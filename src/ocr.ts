@@ -0,0 +1,355 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { Worker } from 'tesseract.js';
+import { ToolError } from './errors';
+import type { LayoutPage, LayoutTextItem } from './pdf-layout';
+import { forEachPdfPage } from './pdf-rasterizer';
+
+export interface OcrEngineOptions {
+  // 语言数据目录，包含 <lang>.traineddata 或 <lang>.traineddata.gz；未指定时使用 @tesseract.js-data/<lang> 包内的数据
+  langPath?: string;
+  // 默认识别语言
+  languages?: string[];
+  // 识别引擎空闲多久后释放（毫秒），0 表示不自动释放
+  idleTimeoutMs?: number;
+}
+
+export interface OcrOptions {
+  languages?: string[];
+  // 同时输出 hOCR
+  hocr?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface OcrResult {
+  text: string;
+  // 平均置信度（0-100）
+  confidence: number;
+  hocr?: string;
+  // 识别出的文字位置，单位为像素，y 轴向上（与 PDF 坐标一致），可直接用于版面分析
+  layout: LayoutPage;
+}
+
+export interface OcrStats {
+  running: boolean;
+  languages: string[];
+  pages: number;
+}
+
+export const DEFAULT_OCR_LANGUAGES = ['eng', 'chi_sim'];
+// 图像经 OCR 可输出的格式
+export const OCR_TARGET_FORMATS = ['txt', 'md', 'hocr'];
+// 扫描页的渲染分辨率，Tesseract 在 300 DPI 左右识别效果最好
+export const OCR_DPI = 300;
+const DEFAULT_IDLE_TIMEOUT_MS = 60 * 1000;
+const LANGUAGE_CODE = /^[a-z_]+$/i;
+
+/**
+ * 基于 tesseract.js 的离线 OCR：
+ * - 只从本地读取语言数据，不访问网络
+ * - 识别引擎按语言组合懒加载，空闲超时后释放
+ * - 取消时终止当前识别引擎，下次识别重新创建
+ */
+export class OcrEngine {
+  private worker?: Worker;
+  private workerLanguages = '';
+  private creating?: Promise<Worker>;
+  private queue: Promise<unknown> = Promise.resolve();
+  private timer?: NodeJS.Timeout;
+  private stagingDir?: Promise<string>;
+  private closed = false;
+  private pages = 0;
+  private langPath?: string;
+  private languages: string[];
+  private idleTimeoutMs: number;
+
+  constructor(options: OcrEngineOptions = {}) {
+    this.langPath = options.langPath;
+    this.languages = options.languages?.length ? options.languages : DEFAULT_OCR_LANGUAGES;
+    this.idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+  }
+
+  /**
+   * 从环境变量构建：
+   * - OCR_LANG_PATH：语言数据目录（默认使用随包安装的 eng 与 chi_sim）
+   * - OCR_LANGUAGES：默认识别语言，以 + 或逗号分隔（默认 eng+chi_sim）
+   * - OCR_IDLE_TIMEOUT_MS：识别引擎空闲释放时间（默认 60 秒，0 为不释放）
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): OcrEngine {
+    const idle = Number(env.OCR_IDLE_TIMEOUT_MS);
+    return new OcrEngine({
+      langPath: env.OCR_LANG_PATH || undefined,
+      languages: parseOcrLanguages(env.OCR_LANGUAGES),
+      idleTimeoutMs: env.OCR_IDLE_TIMEOUT_MS && Number.isFinite(idle) && idle >= 0 ? idle : undefined,
+    });
+  }
+
+  /**
+   * 识别一张图像（PNG/JPEG 等 Buffer）。同一引擎上的识别依次执行。
+   */
+  async recognize(image: Buffer, options: OcrOptions = {}): Promise<OcrResult> {
+    const languages = this.normalizeLanguages(options.languages);
+    const run = this.queue.then(() => this.recognizeNow(image, languages, options));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  getStats(): OcrStats {
+    return {
+      running: !!this.worker,
+      languages: this.worker ? this.workerLanguages.split('+') : this.languages,
+      pages: this.pages,
+    };
+  }
+
+  async close() {
+    this.closed = true;
+    this.stopTimer();
+    await this.terminate();
+    const dir = await this.stagingDir?.catch(() => undefined);
+    if (dir) {
+      await fs.rm(dir, { recursive: true, force: true }).catch(() => undefined);
+    }
+  }
+
+  private async recognizeNow(image: Buffer, languages: string[], options: OcrOptions): Promise<OcrResult> {
+    if (options.signal?.aborted) {
+      throw new Error('OCR cancelled');
+    }
+    const worker = await this.getWorker(languages);
+    // tesseract.js 无法中断单次识别，取消时直接终止识别引擎
+    const onAbort = () => {
+      this.terminate().catch(() => undefined);
+    };
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    try {
+      const { data } = await worker.recognize(image, {}, { text: true, blocks: true, hocr: !!options.hocr });
+      if (options.signal?.aborted) {
+        throw new Error('OCR cancelled');
+      }
+      this.pages++;
+      return {
+        text: (data.text || '').trim(),
+        confidence: Math.round(data.confidence || 0),
+        ...(options.hocr && data.hocr ? { hocr: data.hocr } : {}),
+        layout: toLayoutPage(data, image),
+      };
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw new Error('OCR cancelled');
+      }
+      throw error;
+    } finally {
+      options.signal?.removeEventListener('abort', onAbort);
+      this.startTimer();
+    }
+  }
+
+  private normalizeLanguages(languages?: string[]): string[] {
+    const list = (languages?.length ? languages : this.languages).map((lang) => lang.trim()).filter(Boolean);
+    const invalid = list.find((lang) => !LANGUAGE_CODE.test(lang));
+    if (invalid) {
+      throw new ToolError('INVALID_ARGUMENT', `Invalid OCR language "${invalid}"`, { language: invalid });
+    }
+    return Array.from(new Set(list));
+  }
+
+  private async getWorker(languages: string[]): Promise<Worker> {
+    if (this.closed) {
+      throw new Error('OCR engine is closed');
+    }
+    const key = languages.join('+');
+    if (this.worker && this.workerLanguages === key) {
+      return this.worker;
+    }
+    if (!this.creating) {
+      this.creating = this.createWorker(languages).finally(() => {
+        this.creating = undefined;
+      });
+    }
+    return this.creating;
+  }
+
+  private async createWorker(languages: string[]): Promise<Worker> {
+    await this.terminate();
+    const dir = await this.stageLanguages(languages);
+    const { createWorker } = require('tesseract.js') as typeof import('tesseract.js');
+    // 语言数据已放入本地目录，从该目录读取（cacheMethod 为 readOnly 时不会写回或下载）
+    const worker = await createWorker(languages, 1, {
+      langPath: dir,
+      cachePath: dir,
+      cacheMethod: 'readOnly',
+      gzip: false,
+      errorHandler: () => undefined,
+    });
+    if (this.closed) {
+      await worker.terminate().catch(() => undefined);
+      throw new Error('OCR engine is closed');
+    }
+    this.worker = worker;
+    this.workerLanguages = languages.join('+');
+    return worker;
+  }
+
+  // 将所需语言数据复制到临时目录，统一命名为 <lang>.traineddata（tesseract.js 根据内容自动识别 gzip）
+  private async stageLanguages(languages: string[]): Promise<string> {
+    if (!this.stagingDir) {
+      this.stagingDir = fs.mkdtemp(path.join(os.tmpdir(), 'mcp-ocr-'));
+    }
+    const dir = await this.stagingDir;
+    for (const lang of languages) {
+      const target = path.join(dir, `${lang}.traineddata`);
+      if (await exists(target)) continue;
+      const source = await this.findLanguageData(lang);
+      await fs.copyFile(source, target);
+    }
+    return dir;
+  }
+
+  private async findLanguageData(lang: string): Promise<string> {
+    const candidates: string[] = [];
+    if (this.langPath) {
+      candidates.push(path.join(this.langPath, `${lang}.traineddata`), path.join(this.langPath, `${lang}.traineddata.gz`));
+    }
+    try {
+      const packageDir = path.dirname(require.resolve(`@tesseract.js-data/${lang}/package.json`));
+      candidates.push(
+        path.join(packageDir, '4.0.0_best_int', `${lang}.traineddata.gz`),
+        path.join(packageDir, '4.0.0', `${lang}.traineddata.gz`)
+      );
+    } catch {
+      // 未安装对应的语言包
+    }
+    for (const candidate of candidates) {
+      if (await exists(candidate)) return candidate;
+    }
+    throw new ToolError(
+      'INVALID_ARGUMENT',
+      `OCR language data for "${lang}" is not installed; install @tesseract.js-data/${lang} or put ${lang}.traineddata in OCR_LANG_PATH`,
+      { language: lang, ...(this.langPath ? { lang_path: this.langPath } : {}) }
+    );
+  }
+
+  private async terminate() {
+    const worker = this.worker;
+    this.worker = undefined;
+    this.workerLanguages = '';
+    if (worker) {
+      await worker.terminate().catch(() => undefined);
+    }
+  }
+
+  private startTimer() {
+    this.stopTimer();
+    if (this.idleTimeoutMs <= 0 || this.closed) return;
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.terminate().catch(() => undefined);
+    }, this.idleTimeoutMs);
+    // 定时器不阻止进程退出
+    this.timer.unref();
+  }
+
+  private stopTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+}
+
+/**
+ * 渲染 PDF 中的指定页并识别文字，返回可用于版面分析的页面（按页码索引）。
+ */
+export async function recognizePdfPages(
+  buffer: Buffer,
+  pageNumbers: number[],
+  engine: OcrEngine,
+  options: { languages?: string[]; signal?: AbortSignal } = {}
+): Promise<Map<number, LayoutPage>> {
+  const result = new Map<number, LayoutPage>();
+  if (pageNumbers.length === 0) {
+    return result;
+  }
+  // 逐页渲染并识别，避免同时持有所有页面的位图
+  await forEachPdfPage(buffer, { pages: pageNumbers.join(','), dpi: OCR_DPI, signal: options.signal }, async (page) => {
+    const recognized = await engine.recognize(page.data, { languages: options.languages, signal: options.signal });
+    result.set(page.page, recognized.layout);
+  });
+  return result;
+}
+
+// 解析 "eng+chi_sim" 或 "eng,chi_sim" 形式的语言列表
+export function parseOcrLanguages(value: string | undefined): string[] | undefined {
+  const languages = (value || '').split(/[+,\s]+/).map((lang) => lang.trim()).filter(Boolean);
+  return languages.length ? languages : undefined;
+}
+
+// 将识别结果转换为版面分析使用的文本项：每个词一项，同一行的词共用该行的基线
+function toLayoutPage(data: any, image: Buffer): LayoutPage {
+  const { width, height } = imageSize(image, data);
+  const items: LayoutTextItem[] = [];
+  for (const block of data.blocks || []) {
+    for (const paragraph of block.paragraphs || []) {
+      for (const line of paragraph.lines || []) {
+        const baseline = line.baseline?.has_baseline ? Math.max(line.baseline.y0, line.baseline.y1) : line.bbox.y1;
+        const fontSize = Math.max(1, line.rowAttributes?.row_height || line.bbox.y1 - line.bbox.y0);
+        for (const word of line.words || []) {
+          const text = (word.text || '').trim();
+          if (!text) continue;
+          items.push({
+            text,
+            x: word.bbox.x0,
+            y: height - baseline,
+            width: word.bbox.x1 - word.bbox.x0,
+            fontSize,
+            bold: !!word.is_bold,
+          });
+        }
+      }
+    }
+  }
+  return { width, height, items };
+}
+
+// 读取 PNG 尺寸；其他格式按识别出的文字范围估算
+function imageSize(image: Buffer, data: any): { width: number; height: number } {
+  if (image.length >= 24 && image.readUInt32BE(0) === 0x89504e47) {
+    return { width: image.readUInt32BE(16), height: image.readUInt32BE(20) };
+  }
+  let width = 0;
+  let height = 0;
+  for (const line of data.lines || []) {
+    width = Math.max(width, line.bbox.x1);
+    height = Math.max(height, line.bbox.y1);
+  }
+  return { width, height };
+}
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await fs.access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+let defaultEngine: OcrEngine | undefined;
+
+// 进程级共享 OCR 引擎
+export function getDefaultOcrEngine(): OcrEngine {
+  if (!defaultEngine) {
+    defaultEngine = OcrEngine.fromEnv();
+  }
+  return defaultEngine;
+}
+
+export async function closeDefaultOcrEngine() {
+  if (defaultEngine) {
+    const engine = defaultEngine;
+    defaultEngine = undefined;
+    await engine.close();
+  }
+}
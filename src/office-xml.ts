@@ -0,0 +1,91 @@
+import * as path from 'path';
+import JSZip from 'jszip';
+import { HTMLElement, parse } from 'node-html-parser';
+
+// OOXML（PPTX）与 ODF（ODP/ODT）共用的 ZIP/XML 读取工具
+
+// 浏览器可以直接显示的图片类型；EMF/WMF 等矢量格式跳过
+const IMAGE_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.bmp': 'image/bmp',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.tif': 'image/tiff',
+  '.tiff': 'image/tiff',
+};
+
+// ODF 文本：text:s 表示空格，text:tab 与 text:line-break 分别为制表符与换行
+export function odfText(element: HTMLElement): string {
+  let text = '';
+  for (const node of element.childNodes) {
+    if (!(node instanceof HTMLElement)) {
+      text += node.text;
+    } else if (node.rawTagName === 'text:s') {
+      text += ' '.repeat(Number(node.getAttribute('text:c')) || 1);
+    } else if (node.rawTagName === 'text:tab') {
+      text += '\t';
+    } else if (node.rawTagName === 'text:line-break') {
+      text += '\n';
+    } else {
+      text += odfText(node);
+    }
+  }
+  return text;
+}
+
+export interface Relationship {
+  type: string;
+  target: string;
+}
+
+// 读取部件的关系文件（_rels/<name>.rels），目标路径解析为 ZIP 内的绝对路径
+export async function readRelationships(zip: JSZip, part: string): Promise<Map<string, Relationship>> {
+  const dir = path.posix.dirname(part);
+  const xml = await readXml(zip, `${dir}/_rels/${path.posix.basename(part)}.rels`);
+  const relationships = new Map<string, Relationship>();
+  for (const rel of xml ? descendants(xml, 'Relationship') : []) {
+    const id = rel.getAttribute('Id');
+    const target = rel.getAttribute('Target');
+    if (!id || !target || rel.getAttribute('TargetMode') === 'External') continue;
+    relationships.set(id, {
+      type: rel.getAttribute('Type') || '',
+      target: target.startsWith('/') ? target.slice(1) : path.posix.normalize(path.posix.join(dir, target)),
+    });
+  }
+  return relationships;
+}
+
+// 读取 ZIP 中的 XML 部件；node-html-parser 保留带命名空间前缀的原始标签名
+export async function readXml(zip: JSZip, name: string): Promise<HTMLElement | undefined> {
+  const file = zip.file(name);
+  if (!file) return undefined;
+  return parse(await file.async('string'), { comment: false, blockTextElements: {} });
+}
+
+export async function zipImageDataUri(zip: JSZip, name: string): Promise<string | undefined> {
+  const type = IMAGE_TYPES[path.posix.extname(name).toLowerCase()];
+  const file = zip.file(name);
+  if (!type || !file) return undefined;
+  return `data:${type};base64,${await file.async('base64')}`;
+}
+
+// 按原始标签名（含命名空间前缀）查找后代元素，'*' 表示全部
+export function descendants(element: HTMLElement, name: string): HTMLElement[] {
+  const result: HTMLElement[] = [];
+  const walk = (node: HTMLElement) => {
+    for (const child of node.childNodes) {
+      if (!(child instanceof HTMLElement)) continue;
+      if (name === '*' || child.rawTagName === name) result.push(child);
+      walk(child);
+    }
+  };
+  walk(element);
+  return result;
+}
+
+export function firstText(element: HTMLElement, name: string): string | undefined {
+  return descendants(element, name)[0]?.text.trim() || undefined;
+}
@@ -0,0 +1,168 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+export type PathAccess = 'read' | 'write';
+
+export class PathAccessError extends Error {
+  constructor(message: string, public filePath: string, public access: PathAccess) {
+    super(message);
+    this.name = 'PathAccessError';
+  }
+}
+
+export interface PathGuardConfig {
+  read_roots?: string[];
+  write_roots?: string[];
+}
+
+/**
+ * 文件系统沙箱：限制转换器只能读取 read_roots、写入 write_roots 下的路径。
+ * 写入目录同时可读。两者均未配置时不做限制（保持原有行为）。
+ * 路径会先解析符号链接与 `..`，再判断是否位于允许的根目录内。
+ */
+export class PathGuard {
+  private readRoots: string[];
+  private writeRoots: string[];
+
+  constructor(config: PathGuardConfig = {}) {
+    this.writeRoots = normalizeRoots(config.write_roots || []);
+    this.readRoots = normalizeRoots([...(config.read_roots || []), ...this.writeRoots]);
+  }
+
+  /**
+   * 从环境变量构建：
+   * - MCP_ALLOWED_DIRS：同时允许读写的目录
+   * - MCP_ALLOWED_READ_DIRS / MCP_ALLOWED_WRITE_DIRS：只读 / 可写目录
+   * - MCP_SANDBOX_CONFIG：JSON 配置文件路径，格式为 { "read_roots": [], "write_roots": [] }
+   * 多个目录使用系统路径分隔符（Linux/macOS 为 `:`，Windows 为 `;`）分隔。
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): PathGuard {
+    const split = (value?: string) => (value || '').split(path.delimiter).map((item) => item.trim()).filter(Boolean);
+    const config: Required<PathGuardConfig> = {
+      read_roots: split(env.MCP_ALLOWED_READ_DIRS),
+      write_roots: [...split(env.MCP_ALLOWED_DIRS), ...split(env.MCP_ALLOWED_WRITE_DIRS)],
+    };
+
+    if (env.MCP_SANDBOX_CONFIG) {
+      let fileConfig: PathGuardConfig;
+      try {
+        fileConfig = fs.readJsonSync(env.MCP_SANDBOX_CONFIG);
+      } catch (error) {
+        throw new Error(`Unable to read sandbox config ${env.MCP_SANDBOX_CONFIG}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      config.read_roots.push(...(fileConfig.read_roots || []));
+      config.write_roots.push(...(fileConfig.write_roots || []));
+    }
+
+    return new PathGuard(config);
+  }
+
+  get enabled(): boolean {
+    return this.readRoots.length > 0;
+  }
+
+  getConfig(): Required<PathGuardConfig> {
+    return {
+      read_roots: this.readRoots.filter((root) => !this.writeRoots.includes(root)),
+      write_roots: [...this.writeRoots],
+    };
+  }
+
+  // 在当前限制基础上额外允许若干目录（例如服务器自己创建的临时目录）
+  extend(config: PathGuardConfig): PathGuard {
+    if (!this.enabled) {
+      return this;
+    }
+    return new PathGuard({
+      read_roots: [...this.readRoots, ...(config.read_roots || [])],
+      write_roots: [...this.writeRoots, ...(config.write_roots || [])],
+    });
+  }
+
+  async assertReadable(filePath: string): Promise<string> {
+    return this.assertAllowed(filePath, 'read');
+  }
+
+  async assertWritable(filePath: string): Promise<string> {
+    return this.assertAllowed(filePath, 'write');
+  }
+
+  private async assertAllowed(filePath: string, access: PathAccess): Promise<string> {
+    if (typeof filePath !== 'string' || filePath.length === 0 || filePath.includes('\0')) {
+      throw new PathAccessError(`Invalid path: ${JSON.stringify(filePath)}`, String(filePath), access);
+    }
+
+    const { resolved, dangling } = await resolveRealPath(filePath);
+    if (!this.enabled) {
+      return resolved;
+    }
+    // 指向不存在目标的符号链接无法确定最终写入位置，直接拒绝
+    if (dangling) {
+      throw new PathAccessError(`Path contains a dangling symbolic link: ${filePath}`, filePath, access);
+    }
+
+    const roots = access === 'write' ? this.writeRoots : this.readRoots;
+    if (!roots.some((root) => isWithin(root, resolved))) {
+      const allowed = roots.length > 0 ? roots.join(', ') : '(none)';
+      throw new PathAccessError(
+        `Path is outside the allowed ${access} directories: ${filePath} (allowed: ${allowed})`,
+        filePath,
+        access
+      );
+    }
+    return resolved;
+  }
+}
+
+let defaultGuard: PathGuard | undefined;
+
+// 进程级默认沙箱，基于环境变量在首次使用时创建
+export function getDefaultPathGuard(): PathGuard {
+  if (!defaultGuard) {
+    defaultGuard = PathGuard.fromEnv();
+  }
+  return defaultGuard;
+}
+
+function normalizeRoots(roots: string[]): string[] {
+  const normalized = roots.map((root) => {
+    const absolute = path.resolve(root);
+    try {
+      return fs.realpathSync(absolute);
+    } catch {
+      return absolute;
+    }
+  });
+  return Array.from(new Set(normalized));
+}
+
+// 解析真实路径：目标不存在时解析最近的已存在父目录，再拼接剩余部分
+async function resolveRealPath(filePath: string): Promise<{ resolved: string; dangling: boolean }> {
+  const absolute = path.resolve(filePath);
+  const pending: string[] = [];
+  let current = absolute;
+
+  for (;;) {
+    try {
+      const real = await fs.realpath(current);
+      return { resolved: pending.length > 0 ? path.join(real, ...pending.reverse()) : real, dangling: false };
+    } catch {
+      // realpath 失败但 lstat 成功，说明这一级是悬空的符号链接
+      if (await fs.lstat(current).then(() => true, () => false)) {
+        return { resolved: absolute, dangling: true };
+      }
+      const parent = path.dirname(current);
+      if (parent === current) {
+        return { resolved: absolute, dangling: false };
+      }
+      pending.push(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+function isWithin(root: string, target: string): boolean {
+  const normalize = (value: string) => (process.platform === 'win32' ? value.toLowerCase() : value);
+  const relative = path.relative(normalize(root), normalize(target));
+  return relative === '' || (relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative));
+}
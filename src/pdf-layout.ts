@@ -0,0 +1,532 @@
+import pdfParse from 'pdf-parse';
+
+export interface PdfLayout {
+  // 与 pdf-parse 默认输出一致的纯文本
+  text: string;
+  // 根据版面分析重建的 HTML（标题、段落、列表、表格）
+  html: string;
+  numpages: number;
+  info: any;
+  // 没有文字层的页码（从 1 开始），通常是扫描页
+  pages_without_text: number[];
+  // 经 OCR 识别的页码
+  ocr_pages: number[];
+}
+
+export interface PdfLayoutOptions {
+  // 识别指定页面的文字，返回按页码索引的识别结果
+  ocr?: (pages: number[]) => Promise<Map<number, LayoutPage>>;
+  // 对所有页面执行 OCR（默认只处理没有文字层的页面）
+  ocrAllPages?: boolean;
+}
+
+// 带位置的文本项，y 轴向上，单位与页面尺寸一致（PDF 点或图像像素）
+export interface LayoutTextItem {
+  text: string;
+  x: number;
+  // 基线位置
+  y: number;
+  width: number;
+  fontSize: number;
+  bold?: boolean;
+}
+
+export interface LayoutPage {
+  width: number;
+  height: number;
+  items: LayoutTextItem[];
+}
+
+// 同一行内的一段连续文本；水平间距较大的文本（表格单元格、分栏）拆为多个片段
+interface Segment {
+  text: string;
+  x: number;
+  right: number;
+  fontSize: number;
+  bold: boolean;
+}
+
+interface Line {
+  page: number;
+  y: number;
+  x: number;
+  right: number;
+  fontSize: number;
+  bold: boolean;
+  segments: Segment[];
+  // 所在分栏（0 为通栏或左栏，1 为右栏），用于判断相邻行是否连续
+  column: number;
+}
+
+interface PageLines {
+  width: number;
+  height: number;
+  lines: Line[];
+}
+
+// page 为块开始所在的页码，输出为 HTML 的 data-page 属性
+type Block =
+  | { type: 'heading'; page: number; level: number; fontSize: number; text: string; last: Line }
+  | { type: 'paragraph'; page: number; text: string; last: Line; left: number; right: number }
+  | { type: 'list'; page: number; ordered: boolean; items: Array<{ text: string; textX: number }>; last: Line }
+  | { type: 'table'; page: number; rows: string[][] };
+
+interface RawItem {
+  str: string;
+  width: number;
+  height: number;
+  transform: number[];
+  fontName?: string;
+}
+
+// 页眉/页脚所在的区域占页面高度的比例
+const MARGIN_BAND = 0.1;
+// 同一行内两段文本的间距超过字号的该倍数时拆为独立片段
+const SEGMENT_GAP = 1.5;
+const BULLET_PATTERN = /^([•·▪‣◦●○■□►▶–—*-])\s+/;
+const ORDERED_PATTERN = /^(\(?(?:\d{1,3}|[a-z]|[ivx]{1,5})[.)])\s+/i;
+const PAGE_NUMBER_PATTERN = /^(?:(?:page|p\.)\s*)?(?:\d{1,4}|[ivxlc]{1,6})(?:\s*(?:of|\/)\s*\d{1,4})?$|^[-–—]\s*\d{1,4}\s*[-–—]$|^第\s*\d{1,4}\s*页(?:\s*[,，/]?\s*共\s*\d{1,4}\s*页)?$/i;
+const SENTENCE_END = /[.!?:;。！？：；”"')\]]$/;
+const CJK = /[\u3000-\u303f\u3040-\u30ff\u3400-\u9fff\uff00-\uffef]/;
+
+/**
+ * 读取 PDF 并进行版面分析：根据文本位置与字号重建标题、段落、列表、简单表格，
+ * 按分栏恢复阅读顺序，并去除重复的页眉/页脚和页码。
+ * 提供 ocr 时，没有文字层的页面（扫描页）交给 ocr 识别后参与同样的版面分析。
+ */
+export async function readPdfLayout(buffer: Buffer, options: PdfLayoutOptions = {}): Promise<PdfLayout> {
+  const pages = new Map<number, LayoutPage>();
+  const pageTexts = new Map<number, string>();
+
+  // pdf-parse 内置的 pdf.js 无法正确读取独占 ArrayBuffer 的 Node Buffer（报 bad XRef entry），传入 Uint8Array 副本
+  const data = await (pdfParse as any)(new Uint8Array(buffer), {
+    pagerender: async (pageData: any) => {
+      const content = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+      const items: RawItem[] = content.items;
+      const [x0, y0, x1, y1] = pageData.view || [0, 0, 612, 792];
+      const pageNumber = (pageData.pageIndex ?? pages.size) + 1;
+      const text = flatText(items);
+      pages.set(pageNumber, { width: x1 - x0, height: y1 - y0, items: items.map((item) => toLayoutItem(item, y0)) });
+      pageTexts.set(pageNumber, text);
+      return text;
+    },
+  });
+
+  const pageNumbers = Array.from(pages.keys()).sort((a, b) => a - b);
+  const pagesWithoutText = pageNumbers.filter((page) => !pages.get(page)!.items.some((item) => item.text.trim()));
+  const ocrTargets = options.ocrAllPages ? pageNumbers : pagesWithoutText;
+  const ocrPages: number[] = [];
+  if (options.ocr && ocrTargets.length > 0) {
+    const recognized = await options.ocr(ocrTargets);
+    for (const [pageNumber, page] of recognized) {
+      pages.set(pageNumber, page);
+      pageTexts.set(pageNumber, buildLines(page.items, pageNumber).map(lineText).join('\n'));
+      ocrPages.push(pageNumber);
+    }
+  }
+
+  return {
+    // 与 pdf-parse 一致：每页文本前加空行
+    text: ocrPages.length > 0 ? pageNumbers.map((page) => '\n\n' + (pageTexts.get(page) || '')).join('') : data.text,
+    html: layoutToHtml(pageNumbers.map((page) => pages.get(page)!)),
+    numpages: data.numpages,
+    info: data.info,
+    pages_without_text: pagesWithoutText,
+    ocr_pages: ocrPages.sort((a, b) => a - b),
+  };
+}
+
+/**
+ * 对已定位的文本（PDF 文字层或 OCR 结果）做版面分析并生成 HTML。
+ */
+export function layoutToHtml(pages: LayoutPage[]): string {
+  const pageLines: PageLines[] = pages.map((page, index) => ({
+    width: page.width,
+    height: page.height,
+    lines: buildLines(page.items, index + 1),
+  }));
+  return blocksToHtml(buildBlocks(orderPages(removeRunningLines(pageLines))));
+}
+
+// 与 pdf-parse 默认的页面渲染保持一致：y 坐标变化时换行
+function flatText(items: RawItem[]): string {
+  let lastY: number | undefined;
+  let text = '';
+  for (const item of items) {
+    if (lastY === item.transform[5] || lastY === undefined) {
+      text += item.str;
+    } else {
+      text += '\n' + item.str;
+    }
+    lastY = item.transform[5];
+  }
+  return text;
+}
+
+function toLayoutItem(item: RawItem, originY: number): LayoutTextItem {
+  const [a, b, , , e, f] = item.transform;
+  const fontSize = Math.round((Math.hypot(a, b) || item.height || 10) * 10) / 10;
+  return {
+    text: item.str,
+    x: e,
+    y: f - originY,
+    width: item.width || item.str.length * fontSize * 0.5,
+    fontSize,
+    bold: /bold|black|heavy|semibold/i.test(item.fontName || ''),
+  };
+}
+
+// 将文本项按基线分组为行，行内按水平间距拆分片段
+function buildLines(items: LayoutTextItem[], page: number): Line[] {
+  const positioned = items
+    .filter((item) => item.text && item.text.trim())
+    .map((item) => ({ ...item, right: item.x + item.width, bold: !!item.bold }))
+    .sort((a, b) => b.y - a.y || a.x - b.x);
+
+  const groups: Array<typeof positioned> = [];
+  for (const item of positioned) {
+    const current = groups[groups.length - 1];
+    if (current && Math.abs(current[0].y - item.y) <= Math.max(current[0].fontSize, item.fontSize) * 0.4) {
+      current.push(item);
+    } else {
+      groups.push([item]);
+    }
+  }
+
+  return groups.map((group) => {
+    group.sort((a, b) => a.x - b.x);
+    const segments: Segment[] = [];
+    for (const item of group) {
+      const segment = segments[segments.length - 1];
+      const gap = segment ? item.x - segment.right : Infinity;
+      if (segment && gap <= SEGMENT_GAP * Math.max(segment.fontSize, item.fontSize)) {
+        // 中日韩文字之间不补空格（OCR 结果中每个汉字是独立的词）
+        const needsSpace = gap > 0.2 * item.fontSize && !/\s$/.test(segment.text) && !/^\s/.test(item.text)
+          && !(CJK.test(segment.text.slice(-1)) && CJK.test(item.text[0]));
+        segment.text += (needsSpace ? ' ' : '') + item.text;
+        segment.right = Math.max(segment.right, item.right);
+        segment.fontSize = Math.max(segment.fontSize, item.fontSize);
+        segment.bold = segment.bold && item.bold;
+      } else {
+        segments.push({ text: item.text, x: item.x, right: item.right, fontSize: item.fontSize, bold: item.bold });
+      }
+    }
+    for (const segment of segments) {
+      segment.text = segment.text.replace(/\s+/g, ' ').trim();
+    }
+    return makeLine(page, group[0].y, segments, 0);
+  });
+}
+
+function makeLine(page: number, y: number, segments: Segment[], column: number): Line {
+  return {
+    page,
+    y,
+    x: segments[0].x,
+    right: Math.max(...segments.map((segment) => segment.right)),
+    fontSize: Math.max(...segments.map((segment) => segment.fontSize)),
+    bold: segments.every((segment) => segment.bold),
+    segments,
+    column,
+  };
+}
+
+function lineText(line: Line): string {
+  return line.segments.map((segment) => segment.text).join(' ');
+}
+
+/**
+ * 去除页眉/页脚：页面顶部/底部区域的首行或末行在多数页面上重复出现（数字视为相同），
+ * 或者是单独的页码。
+ */
+function removeRunningLines(pages: PageLines[]): PageLines[] {
+  const candidates = pages.map((page) => {
+    const top = page.lines.find((line) => line.y >= page.height * (1 - MARGIN_BAND));
+    const bottom = [...page.lines].reverse().find((line) => line.y <= page.height * MARGIN_BAND);
+    return { top: top === page.lines[0] ? top : undefined, bottom: bottom === page.lines[page.lines.length - 1] ? bottom : undefined };
+  });
+
+  const key = (line: Line) => lineText(line).replace(/\d+/g, '#').replace(/\s+/g, ' ').trim().toLowerCase();
+  const count = (lines: Array<Line | undefined>) => {
+    const counts = new Map<string, number>();
+    for (const line of lines) {
+      if (line) counts.set(key(line), (counts.get(key(line)) || 0) + 1);
+    }
+    return counts;
+  };
+  const topCounts = count(candidates.map((candidate) => candidate.top));
+  const bottomCounts = count(candidates.map((candidate) => candidate.bottom));
+  const threshold = Math.max(2, Math.ceil(pages.length / 2));
+
+  const isRunning = (line: Line | undefined, counts: Map<string, number>) =>
+    !!line && (PAGE_NUMBER_PATTERN.test(lineText(line)) || (pages.length > 1 && (counts.get(key(line)) || 0) >= threshold));
+
+  return pages.map((page, index) => {
+    const { top, bottom } = candidates[index];
+    const removed = new Set<Line>();
+    if (isRunning(top, topCounts)) removed.add(top!);
+    if (isRunning(bottom, bottomCounts)) removed.add(bottom!);
+    return { ...page, lines: page.lines.filter((line) => !removed.has(line)) };
+  });
+}
+
+/**
+ * 恢复双栏页面的阅读顺序：在页面中部寻找多次出现、且为正文长度的片段起始位置作为右栏左边界；
+ * 跨越该位置的行视为通栏，通栏行之间先输出左栏再输出右栏。
+ */
+function orderPages(pages: PageLines[]): Line[] {
+  const ordered: Line[] = [];
+
+  for (const page of pages) {
+    const split = findColumnSplit(page);
+    if (split === undefined) {
+      ordered.push(...page.lines);
+      continue;
+    }
+
+    let left: Line[] = [];
+    let right: Line[] = [];
+    const flush = () => {
+      ordered.push(...left, ...right);
+      left = [];
+      right = [];
+    };
+    for (const line of page.lines) {
+      if (line.segments.some((segment) => segment.x < split - 1 && segment.right > split + 1)) {
+        flush();
+        ordered.push(line);
+        continue;
+      }
+      const leftSegments = line.segments.filter((segment) => segment.x < split);
+      const rightSegments = line.segments.filter((segment) => segment.x >= split);
+      if (leftSegments.length > 0) left.push(makeLine(line.page, line.y, leftSegments, 0));
+      if (rightSegments.length > 0) right.push(makeLine(line.page, line.y, rightSegments, 1));
+    }
+    flush();
+  }
+  return ordered;
+}
+
+function findColumnSplit(page: PageLines): number | undefined {
+  const segments = page.lines.flatMap((line) => line.segments);
+  const starts = new Map<number, Segment[]>();
+  for (const segment of segments) {
+    if (segment.x < page.width * 0.3 || segment.x > page.width * 0.7) continue;
+    const key = Math.round(segment.x / 2) * 2;
+    starts.set(key, [...(starts.get(key) || []), segment]);
+  }
+
+  let best: { x: number; count: number } | undefined;
+  for (const [x, columnSegments] of starts) {
+    if (columnSegments.length < 3 || median(columnSegments.map((segment) => segment.text.length)) < 15) continue;
+    const leftSegments = segments.filter((segment) => segment.right <= x - 2);
+    if (leftSegments.length < 3 || median(leftSegments.map((segment) => segment.text.length)) < 15) continue;
+    if (!best || columnSegments.length > best.count) {
+      best = { x: Math.min(...columnSegments.map((segment) => segment.x)), count: columnSegments.length };
+    }
+  }
+  return best?.x;
+}
+
+function buildBlocks(lines: Line[]): Block[] {
+  const bodySize = bodyFontSize(lines);
+  const spacing = lineSpacing(lines, bodySize);
+  const headingSizes = Array.from(new Set(
+    lines
+      .filter((line) => isHeadingCandidate(line, bodySize) && line.fontSize >= bodySize * 1.15)
+      .map((line) => Math.round(line.fontSize * 2) / 2)
+  )).sort((a, b) => b - a);
+  const headingLevel = (line: Line) => {
+    const index = headingSizes.indexOf(Math.round(line.fontSize * 2) / 2);
+    return Math.min(6, index >= 0 ? index + 1 : headingSizes.length + 1);
+  };
+
+  const tableRows = markTableRows(lines);
+  const blocks: Block[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const previous = lines[i - 1];
+    const text = lineText(line);
+    const block = blocks[blocks.length - 1];
+    const gap = previous && previous.page === line.page && previous.column === line.column
+      ? previous.y - line.y
+      : undefined;
+    const close = gap !== undefined && gap > 0 && gap <= spacing * 1.35 * (line.fontSize / bodySize);
+
+    if (tableRows.has(line)) {
+      const cells = line.segments.map((segment) => segment.text);
+      if (block?.type === 'table' && tableRows.get(previous) === tableRows.get(line)) {
+        block.rows.push(cells);
+      } else {
+        blocks.push({ type: 'table', page: line.page, rows: [cells] });
+      }
+      continue;
+    }
+
+    const isBoldHeading = line.bold && !previous?.bold && Math.abs(line.fontSize - bodySize) < 0.5
+      && isHeadingCandidate(line, bodySize) && !SENTENCE_END.test(text) && text.length <= 80;
+    if ((line.fontSize >= bodySize * 1.15 && isHeadingCandidate(line, bodySize)) || isBoldHeading) {
+      const level = headingLevel(line);
+      if (block?.type === 'heading' && block.level === level && block.last === previous && close) {
+        block.text = joinText(block.text, text);
+        block.last = line;
+      } else {
+        blocks.push({ type: 'heading', page: line.page, level, fontSize: line.fontSize, text, last: line });
+      }
+      continue;
+    }
+
+    const bullet = text.match(BULLET_PATTERN);
+    const ordered = bullet ? undefined : text.match(ORDERED_PATTERN);
+    const marker = bullet || ordered;
+    if (marker) {
+      const itemText = text.slice(marker[0].length);
+      const textX = line.x + (line.right - line.x) * (marker[0].length / Math.max(text.length, 1));
+      if (block?.type === 'list' && block.ordered === !!ordered && (close || block.last.page !== line.page || block.last.column !== line.column)) {
+        block.items.push({ text: itemText, textX });
+        block.last = line;
+      } else {
+        blocks.push({ type: 'list', page: line.page, ordered: !!ordered, items: [{ text: itemText, textX }], last: line });
+      }
+      continue;
+    }
+
+    // 列表项的续行：缩进到列表项文字位置
+    if (block?.type === 'list' && block.last === previous && close) {
+      const item = block.items[block.items.length - 1];
+      if (line.x >= item.textX - line.fontSize) {
+        item.text = joinText(item.text, text);
+        block.last = line;
+        continue;
+      }
+    }
+
+    if (block?.type === 'paragraph' && block.last === previous && continuesParagraph(block, line, text, close)) {
+      block.text = joinText(block.text, text);
+      block.left = Math.min(block.left, line.x);
+      block.right = Math.max(block.right, line.right);
+      block.last = line;
+      continue;
+    }
+
+    blocks.push({ type: 'paragraph', page: line.page, text, last: line, left: line.x, right: line.right });
+  }
+
+  return blocks;
+}
+
+// 判断一行是否接续当前段落：行距正常、字号一致，且上一行不是以句末标点结束的短行；
+// 跨页或跨栏时，上一行未结束句子且本行以小写字母开头才视为接续
+function continuesParagraph(block: Extract<Block, { type: 'paragraph' }>, line: Line, text: string, close: boolean): boolean {
+  const previous = block.last;
+  if (Math.abs(previous.fontSize - line.fontSize) > 1) {
+    return false;
+  }
+  if (previous.page !== line.page || previous.column !== line.column) {
+    return !SENTENCE_END.test(block.text) && /^[a-z]/.test(text);
+  }
+  if (!close) {
+    return false;
+  }
+  const shortLine = previous.right < block.right - 3 * previous.fontSize;
+  return !(shortLine && SENTENCE_END.test(block.text));
+}
+
+function isHeadingCandidate(line: Line, bodySize: number): boolean {
+  const text = lineText(line);
+  return line.segments.length === 1 && text.length <= 150 && /\p{L}/u.test(text) && line.fontSize > bodySize * 0.9;
+}
+
+// 表格行：连续两行以上拆分出相同数量（至少 2 个）的片段
+function markTableRows(lines: Line[]): Map<Line | undefined, number> {
+  const rows = new Map<Line | undefined, number>();
+  let table = 0;
+  let start = 0;
+  for (let i = 0; i <= lines.length; i++) {
+    const line = lines[i];
+    const first = lines[start];
+    const sameTable = line && first && line.segments.length >= 2 && line.segments.length === first.segments.length
+      && line.page === first.page && line.column === first.column;
+    if (sameTable) continue;
+    if (first && first.segments.length >= 2 && i - start >= 2) {
+      table++;
+      for (let j = start; j < i; j++) rows.set(lines[j], table);
+    }
+    start = i;
+  }
+  return rows;
+}
+
+// 正文字号：按字符数加权出现最多的字号
+function bodyFontSize(lines: Line[]): number {
+  const weights = new Map<number, number>();
+  for (const line of lines) {
+    const size = Math.round(line.fontSize * 2) / 2;
+    weights.set(size, (weights.get(size) || 0) + lineText(line).length);
+  }
+  let best = 10;
+  let bestWeight = -1;
+  for (const [size, weight] of weights) {
+    if (weight > bestWeight) {
+      best = size;
+      bestWeight = weight;
+    }
+  }
+  return best;
+}
+
+// 正文行距：同一栏内相邻正文行基线距离的中位数
+function lineSpacing(lines: Line[], bodySize: number): number {
+  const gaps: number[] = [];
+  for (let i = 1; i < lines.length; i++) {
+    const [previous, line] = [lines[i - 1], lines[i]];
+    if (previous.page !== line.page || previous.column !== line.column) continue;
+    if (Math.abs(line.fontSize - bodySize) > 0.5 || Math.abs(previous.fontSize - bodySize) > 0.5) continue;
+    const gap = previous.y - line.y;
+    if (gap > 0 && gap < bodySize * 3) gaps.push(gap);
+  }
+  return gaps.length > 0 ? median(gaps) : bodySize * 1.2;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// 拼接换行的文本：去掉行尾连字符，中日韩文字之间不加空格
+function joinText(current: string, next: string): string {
+  if (/\p{L}-$/u.test(current) && /^\p{Ll}/u.test(next)) {
+    return current.slice(0, -1) + next;
+  }
+  if (CJK.test(current.slice(-1)) || CJK.test(next.charAt(0))) {
+    return current + next;
+  }
+  return `${current} ${next}`;
+}
+
+function blocksToHtml(blocks: Block[]): string {
+  return blocks.map((block) => {
+    const page = ` data-page="${block.page}"`;
+    switch (block.type) {
+      case 'heading':
+        return `<h${block.level}${page}>${escapeHtml(block.text)}</h${block.level}>`;
+      case 'paragraph':
+        return `<p${page}>${escapeHtml(block.text)}</p>`;
+      case 'list': {
+        const tag = block.ordered ? 'ol' : 'ul';
+        return `<${tag}${page}>\n${block.items.map((item) => `  <li>${escapeHtml(item.text)}</li>`).join('\n')}\n</${tag}>`;
+      }
+      case 'table': {
+        const [header, ...body] = block.rows;
+        const row = (cells: string[], tag: string) => `  <tr>${cells.map((cell) => `<${tag}>${escapeHtml(cell)}</${tag}>`).join('')}</tr>`;
+        return `<table${page}>\n<thead>\n${row(header, 'th')}\n</thead>\n<tbody>\n${body.map((cells) => row(cells, 'td')).join('\n')}\n</tbody>\n</table>`;
+      }
+    }
+  }).join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"]/g, (char) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[char] || char));
+}
@@ -0,0 +1,176 @@
+import * as path from 'path';
+import { ToolError } from './errors';
+
+export interface PdfRasterOptions {
+  // 页码范围，如 "1-3,5"；未指定时渲染全部页面
+  pages?: string;
+  // 渲染分辨率（默认 150 DPI）
+  dpi?: number;
+  signal?: AbortSignal;
+}
+
+export interface RenderedPdfPage {
+  page: number;
+  width: number;
+  height: number;
+  // PNG 数据
+  data: Buffer;
+}
+
+export const DEFAULT_RASTER_DPI = 150;
+export const MAX_RASTER_DPI = 600;
+// 单页像素上限，超出时降低该页的渲染分辨率，避免超大页面耗尽内存
+const MAX_PAGE_PIXELS = 40 * 1000 * 1000;
+
+let pdfjs: typeof import('pdfjs-dist') | undefined;
+
+export interface PdfPageRun {
+  total_pages: number;
+  // 要渲染的页码（从 1 开始，按渲染顺序）
+  pages: number[];
+}
+
+/**
+ * 使用 pdf.js 与 @napi-rs/canvas 将 PDF 页面逐页渲染为 PNG，每页渲染后交给 onPage 处理，
+ * 不同时持有多个页面的图像数据（onPage 返回后该页即可释放）。
+ * 首次调用时才加载 pdf.js，不影响其他转换的启动速度。
+ */
+export async function forEachPdfPage(
+  buffer: Buffer,
+  options: PdfRasterOptions,
+  onPage: (page: RenderedPdfPage, run: PdfPageRun) => Promise<void> | void
+): Promise<PdfPageRun> {
+  const { createCanvas } = loadCanvas();
+  const dpi = Math.min(Math.max(options.dpi || DEFAULT_RASTER_DPI, 1), MAX_RASTER_DPI);
+  const document = await openPdfDocument(buffer);
+
+  try {
+    const run: PdfPageRun = { total_pages: document.numPages, pages: parsePageRange(options.pages, document.numPages) };
+    for (const pageNumber of run.pages) {
+      if (options.signal?.aborted) {
+        throw new Error('Rendering cancelled');
+      }
+      const page = await document.getPage(pageNumber);
+      let scale = dpi / 72;
+      const base = page.getViewport({ scale: 1 });
+      if (base.width * base.height * scale * scale > MAX_PAGE_PIXELS) {
+        scale = Math.sqrt(MAX_PAGE_PIXELS / (base.width * base.height));
+      }
+      const viewport = page.getViewport({ scale });
+      const width = Math.ceil(viewport.width);
+      const height = Math.ceil(viewport.height);
+      const canvas = createCanvas(width, height);
+      const context = canvas.getContext('2d');
+      // PDF 页面默认透明，填充白色背景
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, width, height);
+      await page.render({ canvasContext: context as any, viewport }).promise;
+      const data = await canvas.encode('png');
+      page.cleanup();
+      await onPage({ page: pageNumber, width, height, data }, run);
+    }
+    return run;
+  } finally {
+    await document.destroy();
+  }
+}
+
+/**
+ * 渲染页面并一次返回全部 PNG 数据，只用于需要同时使用所有页面的场合（例如拼接总览图）；
+ * 逐页写出或识别时使用 forEachPdfPage。
+ */
+export async function renderPdfPages(buffer: Buffer, options: PdfRasterOptions = {}): Promise<{ total_pages: number; pages: RenderedPdfPage[] }> {
+  const pages: RenderedPdfPage[] = [];
+  const { total_pages } = await forEachPdfPage(buffer, options, (page) => {
+    pages.push(page);
+  });
+  return { total_pages, pages };
+}
+
+// 使用 pdf.js 打开 PDF；调用方负责 destroy()
+export async function openPdfDocument(buffer: Buffer) {
+  const pdf = loadPdfjs();
+  const assetDir = path.dirname(require.resolve('pdfjs-dist/package.json'));
+  return pdf.getDocument({
+    data: new Uint8Array(buffer),
+    standardFontDataUrl: path.join(assetDir, 'standard_fonts') + path.sep,
+    cMapUrl: path.join(assetDir, 'cmaps') + path.sep,
+    cMapPacked: true,
+    disableFontFace: true,
+    isEvalSupported: false,
+    verbosity: 0,
+    canvasFactory: new NodeCanvasFactory(),
+  } as any).promise;
+}
+
+/**
+ * 解析页码范围（从 1 开始）："1-3,5"、"4-"（第 4 页到末页）、"-2"（前两页）、"last"。
+ * 格式错误或超出文档页数时抛出 INVALID_ARGUMENT。
+ */
+export function parsePageRange(spec: string | undefined, totalPages: number): number[] {
+  if (!spec || !spec.trim()) {
+    return Array.from({ length: totalPages }, (_, i) => i + 1);
+  }
+
+  const pages: number[] = [];
+  for (const part of spec.split(',').map((value) => value.trim()).filter(Boolean)) {
+    const match = part.toLowerCase().replace(/last/g, String(totalPages)).match(/^(\d*)\s*(-?)\s*(\d*)$/);
+    if (!match || (!match[1] && !match[3])) {
+      throw new ToolError('INVALID_ARGUMENT', `Invalid page range "${part}"; expected e.g. "1-3,5"`, { pages: spec });
+    }
+    const start = match[1] ? Number(match[1]) : 1;
+    const end = match[2] ? (match[3] ? Number(match[3]) : totalPages) : start;
+    if (start < 1 || end < start || end > totalPages) {
+      throw new ToolError(
+        'INVALID_ARGUMENT',
+        `Page range "${part}" is outside the document (1-${totalPages})`,
+        { pages: spec, total_pages: totalPages }
+      );
+    }
+    for (let page = start; page <= end; page++) {
+      if (!pages.includes(page)) pages.push(page);
+    }
+  }
+  if (pages.length === 0) {
+    throw new ToolError('INVALID_ARGUMENT', `Invalid page range "${spec}"`, { pages: spec });
+  }
+  return pages;
+}
+
+function loadCanvas(): typeof import('@napi-rs/canvas') {
+  return require('@napi-rs/canvas');
+}
+
+function loadPdfjs(): typeof import('pdfjs-dist') {
+  if (!pdfjs) {
+    // pdf.js 在 Node 中需要 DOMMatrix/Path2D/ImageData，由 @napi-rs/canvas 提供
+    const canvas = loadCanvas() as any;
+    for (const name of ['DOMMatrix', 'Path2D', 'ImageData']) {
+      if (!(globalThis as any)[name]) {
+        (globalThis as any)[name] = canvas[name];
+      }
+    }
+    pdfjs = require('pdfjs-dist/legacy/build/pdf.js');
+  }
+  return pdfjs!;
+}
+
+// pdf.js 渲染图案、遮罩等时通过该工厂创建临时画布
+class NodeCanvasFactory {
+  create(width: number, height: number) {
+    const canvas = loadCanvas().createCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') };
+  }
+
+  reset(target: { canvas: any }, width: number, height: number) {
+    target.canvas.width = width;
+    target.canvas.height = height;
+  }
+
+  destroy(target: { canvas: any; context: any }) {
+    target.canvas.width = 0;
+    target.canvas.height = 0;
+    target.canvas = null;
+    target.context = null;
+  }
+}
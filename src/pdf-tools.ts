@@ -0,0 +1,399 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { degrees, PDFDocument, PDFFont, PDFPage, rgb, StandardFonts } from 'pdf-lib';
+import { ToolError } from './errors';
+import { addImagePdfPage, readImageFrames } from './image-pages';
+import { getDefaultPathGuard, PathGuard } from './path-guard';
+import { openPdfDocument, parsePageRange } from './pdf-rasterizer';
+
+/**
+ * 现有 PDF 的页面操作：合并（PDF 与图片）、拆分（页码范围、固定页数、书签）、
+ * 选取/重排/删除/旋转页面以及添加页码。页码均从 1 开始，范围语法同 parsePageRange。
+ */
+
+export interface PdfMergeInput {
+  path: string;
+  // 只取 PDF 的部分页面，如 "1-3,5"；图片不支持
+  pages?: string;
+}
+
+export type ImagePageSize = 'fit' | 'a4' | 'letter';
+
+export interface PdfMergeOptions {
+  // 图片页面的尺寸：fit 与图片尺寸一致，a4/letter 按图片方向选择横竖并居中缩放
+  image_page_size?: ImagePageSize;
+}
+
+export interface PdfSplitOptions {
+  // 每项生成一个文件，如 ["1-3", "4-"]
+  ranges?: string[];
+  // 每 N 页生成一个文件（默认 1，即每页一个文件）
+  every?: number;
+  // 按书签拆分：每个书签从其目标页开始一个文件
+  by_bookmarks?: boolean;
+  // 使用的书签层级，1 为顶层书签
+  bookmark_level?: number;
+}
+
+export interface PdfPageEditOptions {
+  // 保留的页面及其顺序，如 "3,1,2" 或 "5-"；默认全部页面
+  pages?: string;
+  // 删除的页面
+  delete?: string;
+  // 顺时针旋转，页码指原文档中的页码
+  rotate?: Array<{ pages?: string; angle: number }>;
+}
+
+export type PageNumberPosition = 'bottom-center' | 'bottom-left' | 'bottom-right' | 'top-center' | 'top-left' | 'top-right';
+
+export interface PdfPageNumberOptions {
+  // {page} 为页码，{total} 为最后一个页码，如 "Page {page} of {total}"
+  format?: string;
+  position?: PageNumberPosition;
+  // 添加页码的页面，默认全部
+  pages?: string;
+  // 第一个编号页面的页码
+  start?: number;
+  font_size?: number;
+  // 文字颜色，如 "#333333"
+  color?: string;
+  // 与页面边缘的距离（pt）
+  margin?: number;
+}
+
+export interface PdfPart {
+  output_path: string;
+  pages: number[];
+  title?: string;
+}
+
+export interface PdfToolResult {
+  success: boolean;
+  output_path: string;
+  message: string;
+  // 输出文件的页数（split 时为生成的文件数）
+  pages: number;
+  size?: number;
+  // split 生成的全部文件
+  output_files?: string[];
+  parts?: PdfPart[];
+}
+
+export interface PdfToolkitOptions {
+  pathGuard?: PathGuard;
+}
+
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp', '.avif', '.tiff', '.tif', '.gif', '.svg', '.heic', '.heif'];
+
+export class PdfToolkit {
+  private pathGuard: PathGuard;
+
+  constructor(toolkitOptions: PdfToolkitOptions = {}) {
+    this.pathGuard = toolkitOptions.pathGuard ?? getDefaultPathGuard();
+  }
+
+  // 按顺序合并 PDF 与图片；图片各占一页
+  async merge(inputs: PdfMergeInput[], outputPath: string, options: PdfMergeOptions = {}): Promise<PdfToolResult> {
+    if (inputs.length === 0) {
+      throw new ToolError('INVALID_ARGUMENT', 'Provide at least one input file to merge');
+    }
+    await this.pathGuard.assertWritable(outputPath);
+
+    const merged = await PDFDocument.create();
+    for (const input of inputs) {
+      await this.pathGuard.assertReadable(input.path);
+      const extension = path.extname(input.path).toLowerCase();
+      if (extension === '.pdf') {
+        const source = await this.loadPdf(input.path);
+        const indices = parsePageRange(input.pages, source.getPageCount()).map((page) => page - 1);
+        const pages = await merged.copyPages(source, indices);
+        pages.forEach((page) => merged.addPage(page));
+      } else if (IMAGE_EXTENSIONS.includes(extension)) {
+        if (input.pages) {
+          throw new ToolError('INVALID_ARGUMENT', `'pages' only applies to PDF inputs: ${input.path}`, { path: input.path });
+        }
+        for (const frame of await readImageFrames(input.path)) {
+          await addImagePdfPage(merged, frame, { page_size: options.image_page_size ?? 'a4', fit: 'shrink' });
+        }
+      } else {
+        throw new ToolError('UNSUPPORTED_CONVERSION', `Cannot merge ${extension || 'extensionless'} files; merge accepts PDF and image files`, {
+          path: input.path,
+        });
+      }
+    }
+    return this.save(merged, outputPath, `Merged ${inputs.length} files into ${merged.getPageCount()} pages`);
+  }
+
+  // 拆分为多个文件，写入 outputDir，文件名为 <原文件名>-<序号>[-<书签标题>].pdf
+  async split(inputPath: string, outputDir: string, options: PdfSplitOptions = {}): Promise<PdfToolResult> {
+    const modes = [options.ranges !== undefined, options.every !== undefined, !!options.by_bookmarks].filter(Boolean).length;
+    if (modes > 1) {
+      throw new ToolError('INVALID_ARGUMENT', "Use only one of 'ranges', 'every' or 'by_bookmarks'");
+    }
+    await this.pathGuard.assertReadable(inputPath);
+    await this.pathGuard.assertWritable(outputDir);
+
+    const source = await this.loadPdf(inputPath);
+    const total = source.getPageCount();
+    let parts: Array<{ pages: number[]; title?: string }>;
+    if (options.by_bookmarks) {
+      parts = await this.bookmarkParts(inputPath, total, options.bookmark_level ?? 1);
+    } else if (options.ranges) {
+      if (options.ranges.length === 0) {
+        throw new ToolError('INVALID_ARGUMENT', "'ranges' must contain at least one page range");
+      }
+      parts = options.ranges.map((range) => ({ pages: parsePageRange(range, total) }));
+    } else {
+      const every = options.every ?? 1;
+      if (!Number.isInteger(every) || every < 1) {
+        throw new ToolError('INVALID_ARGUMENT', "'every' must be a positive integer", { every });
+      }
+      parts = [];
+      for (let start = 1; start <= total; start += every) {
+        parts.push({ pages: Array.from({ length: Math.min(every, total - start + 1) }, (_, i) => start + i) });
+      }
+    }
+
+    const baseName = path.parse(inputPath).name;
+    const digits = String(parts.length).length;
+    const written: PdfPart[] = [];
+    await fs.ensureDir(outputDir);
+    for (const [index, part] of parts.entries()) {
+      const suffix = part.title ? `-${safeFileName(part.title)}` : '';
+      const outputPath = path.join(outputDir, `${baseName}-${String(index + 1).padStart(digits, '0')}${suffix}.pdf`);
+      const output = await PDFDocument.create();
+      copyMetadata(source, output);
+      const pages = await output.copyPages(source, part.pages.map((page) => page - 1));
+      pages.forEach((page) => output.addPage(page));
+      await fs.writeFile(outputPath, await output.save());
+      written.push({ output_path: outputPath, pages: part.pages, ...(part.title ? { title: part.title } : {}) });
+    }
+
+    return {
+      success: true,
+      output_path: outputDir,
+      message: `Split ${total} pages into ${written.length} files`,
+      pages: written.length,
+      output_files: written.map((part) => part.output_path),
+      parts: written,
+    };
+  }
+
+  // 选取、重排、删除与旋转页面；只旋转时在原文档上修改，保留书签与链接
+  async editPages(inputPath: string, outputPath: string, options: PdfPageEditOptions = {}): Promise<PdfToolResult> {
+    await this.pathGuard.assertReadable(inputPath);
+    await this.pathGuard.assertWritable(outputPath);
+
+    const source = await this.loadPdf(inputPath);
+    const total = source.getPageCount();
+    let order = parsePageRange(options.pages, total);
+    if (options.delete) {
+      const deleted = new Set(parsePageRange(options.delete, total));
+      order = order.filter((page) => !deleted.has(page));
+    }
+    if (order.length === 0) {
+      throw new ToolError('INVALID_ARGUMENT', 'No pages would be left in the output', { pages: options.pages, delete: options.delete });
+    }
+
+    const rotations = new Map<number, number>();
+    for (const rule of options.rotate || []) {
+      if (!Number.isInteger(rule.angle) || rule.angle % 90 !== 0) {
+        throw new ToolError('INVALID_ARGUMENT', `Rotation must be a multiple of 90 degrees, got ${rule.angle}`, { angle: rule.angle });
+      }
+      for (const page of parsePageRange(rule.pages, total)) {
+        rotations.set(page, (rotations.get(page) ?? 0) + rule.angle);
+      }
+    }
+    const rotate = (page: PDFPage, angle: number | undefined) => {
+      if (angle) page.setRotation(degrees((((page.getRotation().angle + angle) % 360) + 360) % 360));
+    };
+
+    let output: PDFDocument;
+    if (order.length === total && order.every((page, index) => page === index + 1)) {
+      output = source;
+      output.getPages().forEach((page, index) => rotate(page, rotations.get(index + 1)));
+    } else {
+      output = await PDFDocument.create();
+      copyMetadata(source, output);
+      const pages = await output.copyPages(source, order.map((page) => page - 1));
+      pages.forEach((page, index) => {
+        rotate(page, rotations.get(order[index]));
+        output.addPage(page);
+      });
+    }
+    return this.save(output, outputPath, `Wrote ${order.length} of ${total} pages`);
+  }
+
+  // 在页面上添加页码；按页面的显示方向放置，旋转过的页面同样正确
+  async addPageNumbers(inputPath: string, outputPath: string, options: PdfPageNumberOptions = {}): Promise<PdfToolResult> {
+    await this.pathGuard.assertReadable(inputPath);
+    await this.pathGuard.assertWritable(outputPath);
+
+    const document = await this.loadPdf(inputPath);
+    const font = await document.embedFont(StandardFonts.Helvetica);
+    const pages = parsePageRange(options.pages, document.getPageCount());
+    const format = options.format ?? '{page} / {total}';
+    const start = options.start ?? 1;
+    const size = options.font_size ?? 10;
+    const color = parseColor(options.color ?? '#000000');
+    const margin = options.margin ?? 24;
+    const position = options.position ?? 'bottom-center';
+
+    pages.forEach((pageNumber, index) => {
+      const text = format
+        .replace(/\{page\}/g, String(start + index))
+        .replace(/\{total\}/g, String(start + pages.length - 1));
+      drawPageNumber(document.getPage(pageNumber - 1), text, font, { size, color, margin, position });
+    });
+    return this.save(document, outputPath, `Added page numbers to ${pages.length} pages`);
+  }
+
+  private async loadPdf(filePath: string): Promise<PDFDocument> {
+    const buffer = await fs.readFile(filePath);
+    try {
+      return await PDFDocument.load(buffer, { updateMetadata: false });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (/encrypted/i.test(message)) {
+        throw new ToolError('INVALID_ARGUMENT', `${path.basename(filePath)} is encrypted; decrypt it before editing`, { path: filePath });
+      }
+      throw new ToolError('CONVERSION_FAILED', `Cannot read PDF ${path.basename(filePath)}: ${message}`, { path: filePath });
+    }
+  }
+
+  // 按书签目标页划分页面；第一个书签之前的页面单独成为一部分
+  private async bookmarkParts(inputPath: string, total: number, level: number): Promise<Array<{ pages: number[]; title?: string }>> {
+    const pdf = await openPdfDocument(await fs.readFile(inputPath));
+    const starts: Array<{ page: number; title: string }> = [];
+    try {
+      const visit = async (items: any[] | null, depth: number) => {
+        for (const item of items || []) {
+          if (depth === level) {
+            const page = await destinationPage(pdf, item.dest);
+            if (page !== undefined) starts.push({ page, title: String(item.title || '').trim() });
+          } else {
+            await visit(item.items, depth + 1);
+          }
+        }
+      };
+      await visit(await pdf.getOutline(), 1);
+    } finally {
+      await pdf.destroy();
+    }
+    if (starts.length === 0) {
+      throw new ToolError('INVALID_ARGUMENT', `The PDF has no bookmarks at level ${level}`, { bookmark_level: level });
+    }
+
+    // 同一页上的多个书签只保留第一个
+    const sorted = starts
+      .sort((a, b) => a.page - b.page)
+      .filter((start, index, all) => index === 0 || start.page !== all[index - 1].page);
+    if (sorted[0].page > 1) {
+      sorted.unshift({ page: 1, title: '' });
+    }
+    return sorted.map((start, index) => {
+      const end = index + 1 < sorted.length ? sorted[index + 1].page - 1 : total;
+      return {
+        pages: Array.from({ length: end - start.page + 1 }, (_, i) => start.page + i),
+        ...(start.title ? { title: start.title } : {}),
+      };
+    });
+  }
+
+  private async save(document: PDFDocument, outputPath: string, message: string): Promise<PdfToolResult> {
+    await fs.ensureDir(path.dirname(outputPath));
+    const bytes = await document.save();
+    await fs.writeFile(outputPath, bytes);
+    return {
+      success: true,
+      output_path: outputPath,
+      message,
+      pages: document.getPageCount(),
+      size: bytes.length,
+    };
+  }
+}
+
+// 解析书签目标（命名目标或显式目标）对应的页码
+async function destinationPage(pdf: any, dest: unknown): Promise<number | undefined> {
+  try {
+    const explicit = typeof dest === 'string' ? await pdf.getDestination(dest) : dest;
+    if (!Array.isArray(explicit) || explicit.length === 0) return undefined;
+    const target = explicit[0];
+    const index = typeof target === 'number' ? target : await pdf.getPageIndex(target);
+    return index + 1;
+  } catch {
+    return undefined;
+  }
+}
+
+function copyMetadata(source: PDFDocument, target: PDFDocument) {
+  const title = source.getTitle();
+  const author = source.getAuthor();
+  const subject = source.getSubject();
+  if (title) target.setTitle(title);
+  if (author) target.setAuthor(author);
+  if (subject) target.setSubject(subject);
+}
+
+function drawPageNumber(
+  page: PDFPage,
+  text: string,
+  font: PDFFont,
+  options: { size: number; color: ReturnType<typeof rgb>; margin: number; position: PageNumberPosition }
+) {
+  let textWidth: number;
+  try {
+    textWidth = font.widthOfTextAtSize(text, options.size);
+  } catch {
+    throw new ToolError('INVALID_ARGUMENT', `The page number format can only contain Latin characters: "${text}"`, { format: text });
+  }
+
+  // 先在显示方向（考虑 /Rotate）上计算文字位置，再换算回页面坐标
+  const box = page.getCropBox();
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+  const sideways = rotation === 90 || rotation === 270;
+  const visibleWidth = sideways ? box.height : box.width;
+  const visibleHeight = sideways ? box.width : box.height;
+  const [vertical, horizontal] = options.position.split('-');
+  const vx = horizontal === 'left'
+    ? options.margin
+    : horizontal === 'right'
+      ? visibleWidth - options.margin - textWidth
+      : (visibleWidth - textWidth) / 2;
+  const vy = vertical === 'top' ? visibleHeight - options.margin - options.size : options.margin;
+
+  const [x, y] = rotation === 90
+    ? [box.width - vy, vx]
+    : rotation === 180
+      ? [box.width - vx, box.height - vy]
+      : rotation === 270
+        ? [vy, box.height - vx]
+        : [vx, vy];
+  page.drawText(text, {
+    x: box.x + x,
+    y: box.y + y,
+    size: options.size,
+    font,
+    color: options.color,
+    rotate: degrees(rotation),
+  });
+}
+
+function parseColor(value: string) {
+  const match = value.trim().match(/^#?([0-9a-f]{6}|[0-9a-f]{3})$/i);
+  if (!match) {
+    throw new ToolError('INVALID_ARGUMENT', `Invalid color "${value}"; expected a hex color such as "#333333"`, { color: value });
+  }
+  const hex = match[1].length === 3 ? match[1].replace(/./g, (c) => c + c) : match[1];
+  const channel = (offset: number) => parseInt(hex.slice(offset, offset + 2), 16) / 255;
+  return rgb(channel(0), channel(2), channel(4));
+}
+
+function safeFileName(title: string): string {
+  return title
+    .replace(/[\\/:*?"<>|\x00-\x1f]+/g, '_')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 60);
+}
@@ -0,0 +1,338 @@
+import * as path from 'path';
+import JSZip from 'jszip';
+import { HTMLElement } from 'node-html-parser';
+import { ToolError } from './errors';
+import { descendants, firstText, odfText, readRelationships, readXml, Relationship, zipImageDataUri } from './office-xml';
+
+export type SlideBlock =
+  | { type: 'paragraph'; text: string; level: number; bullet?: 'unordered' | 'ordered' }
+  | { type: 'table'; rows: string[][] }
+  | { type: 'image'; src: string; alt: string };
+
+export interface Slide {
+  // 从 1 开始的幻灯片序号
+  number: number;
+  title?: string;
+  blocks: SlideBlock[];
+  // 演讲者备注，每段一项
+  notes: string[];
+  hidden?: boolean;
+}
+
+export interface Presentation {
+  slides: Slide[];
+  metadata: { title?: string; author?: string };
+}
+
+const TITLE_PLACEHOLDERS = new Set(['title', 'ctrTitle']);
+
+/**
+ * 读取演示文稿（PPTX/ODP）：按放映顺序返回每张幻灯片的标题、文本段落（含列表层级）、表格、
+ * 图片（内联为 data URI）与演讲者备注。
+ */
+export async function readPresentation(buffer: Buffer, format: string): Promise<Presentation> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(buffer);
+  } catch {
+    throw new ToolError('INVALID_ARGUMENT', `Input is not a valid ${format} (ZIP) file`, { format });
+  }
+  return format === 'odp' ? readOdp(zip) : readPptx(zip);
+}
+
+export function presentationToHtml(presentation: Presentation): string {
+  return presentation.slides.map((slide) => {
+    const parts = [`<h2>${escapeHtml(slideHeading(slide))}</h2>`];
+    let items: Array<{ text: string; level: number; ordered: boolean }> = [];
+    const flushList = () => {
+      if (items.length > 0) parts.push(listToHtml(items));
+      items = [];
+    };
+
+    for (const block of slide.blocks) {
+      if (block.type === 'paragraph' && block.bullet) {
+        items.push({ text: block.text, level: block.level, ordered: block.bullet === 'ordered' });
+        continue;
+      }
+      flushList();
+      if (block.type === 'paragraph') {
+        parts.push(`<p>${textToHtml(block.text)}</p>`);
+      } else if (block.type === 'table') {
+        const [header, ...body] = block.rows;
+        parts.push(`<table>
+<thead><tr>${header.map((cell) => `<th>${textToHtml(cell)}</th>`).join('')}</tr></thead>
+<tbody>
+${body.map((row) => `<tr>${row.map((cell) => `<td>${textToHtml(cell)}</td>`).join('')}</tr>`).join('\n')}
+</tbody>
+</table>`);
+      } else {
+        parts.push(`<p><img src="${block.src}" alt="${escapeHtml(block.alt)}"></p>`);
+      }
+    }
+    flushList();
+
+    if (slide.notes.length > 0) {
+      parts.push(`<blockquote>\n<p><strong>Speaker notes:</strong></p>\n${slide.notes.map((note) => `<p>${textToHtml(note)}</p>`).join('\n')}\n</blockquote>`);
+    }
+    // 打印或转换为 PDF 时每张幻灯片从新的一页开始；data-page 为文档树中的幻灯片序号
+    return `<section class="slide" id="slide-${slide.number}" data-page="${slide.number}" style="page-break-after: always">\n${parts.join('\n')}\n</section>`;
+  }).join('\n');
+}
+
+// 连续的列表段落按层级构造嵌套列表：层级更深的段落嵌套在前一项之下
+function listToHtml(items: Array<{ text: string; level: number; ordered: boolean }>): string {
+  const render = (start: number, end: number): string => {
+    const tag = items[start].ordered ? 'ol' : 'ul';
+    const level = items[start].level;
+    const parts: string[] = [];
+    let i = start;
+    while (i < end) {
+      let next = i + 1;
+      while (next < end && items[next].level > level) next++;
+      const nested = next > i + 1 ? `\n${render(i + 1, next)}\n` : '';
+      parts.push(`<li>${textToHtml(items[i].text)}${nested}</li>`);
+      i = next;
+    }
+    return `<${tag}>\n${parts.join('\n')}\n</${tag}>`;
+  };
+  return render(0, items.length);
+}
+
+export function presentationToText(presentation: Presentation): string {
+  return presentation.slides.map((slide) => {
+    const lines = [slideHeading(slide)];
+    for (const block of slide.blocks) {
+      if (block.type === 'paragraph') {
+        const indent = '  '.repeat(block.level);
+        lines.push(`${indent}${block.bullet ? '- ' : ''}${block.text}`);
+      } else if (block.type === 'table') {
+        lines.push(...block.rows.map((row) => row.join('\t')));
+      } else if (block.alt) {
+        lines.push(`[Image: ${block.alt}]`);
+      }
+    }
+    if (slide.notes.length > 0) {
+      lines.push('Speaker notes:', ...slide.notes);
+    }
+    return lines.join('\n');
+  }).join('\n\n');
+}
+
+function slideHeading(slide: Slide): string {
+  const hidden = slide.hidden ? ' (hidden)' : '';
+  return slide.title ? `Slide ${slide.number}: ${slide.title}${hidden}` : `Slide ${slide.number}${hidden}`;
+}
+
+async function readPptx(zip: JSZip): Promise<Presentation> {
+  const presentation = await readXml(zip, 'ppt/presentation.xml');
+  if (!presentation) {
+    throw new ToolError('INVALID_ARGUMENT', 'PPTX is missing ppt/presentation.xml');
+  }
+  const presentationRels = await readRelationships(zip, 'ppt/presentation.xml');
+  const slidePaths = descendants(presentation, 'p:sldId')
+    .map((slideId) => presentationRels.get(slideId.getAttribute('r:id') || '')?.target)
+    .filter((target): target is string => !!target);
+
+  const slides: Slide[] = [];
+  for (const [index, slidePath] of slidePaths.entries()) {
+    const slideXml = await readXml(zip, slidePath);
+    if (!slideXml) continue;
+    const rels = await readRelationships(zip, slidePath);
+    const slide: Slide = { number: index + 1, blocks: [], notes: [] };
+    if (descendants(slideXml, 'p:sld')[0]?.getAttribute('show') === '0') {
+      slide.hidden = true;
+    }
+
+    const tree = descendants(slideXml, 'p:spTree')[0];
+    if (tree) {
+      await readPptxShapes(zip, tree, rels, slide);
+    }
+
+    const notesPath = Array.from(rels.values()).find((rel) => rel.type.endsWith('/notesSlide'))?.target;
+    const notesXml = notesPath ? await readXml(zip, notesPath) : undefined;
+    if (notesXml) {
+      for (const shape of descendants(notesXml, 'p:sp')) {
+        if (descendants(shape, 'p:ph')[0]?.getAttribute('type') !== 'body') continue;
+        slide.notes.push(...pptxParagraphs(shape).map((paragraph) => paragraph.text).filter(Boolean));
+      }
+    }
+    slides.push(slide);
+  }
+
+  const core = await readXml(zip, 'docProps/core.xml');
+  return {
+    slides,
+    metadata: {
+      title: core ? firstText(core, 'dc:title') : undefined,
+      author: core ? firstText(core, 'dc:creator') : undefined,
+    },
+  };
+}
+
+// 按文档顺序读取形状；标题占位符作为幻灯片标题，组合形状递归读取
+async function readPptxShapes(zip: JSZip, container: HTMLElement, rels: Map<string, Relationship>, slide: Slide) {
+  for (const shape of container.childNodes) {
+    if (!(shape instanceof HTMLElement)) continue;
+    switch (shape.rawTagName) {
+      case 'p:sp': {
+        const placeholder = descendants(shape, 'p:ph')[0];
+        const type = placeholder?.getAttribute('type');
+        const paragraphs = pptxParagraphs(shape);
+        if (type && TITLE_PLACEHOLDERS.has(type) && !slide.title) {
+          slide.title = paragraphs.map((paragraph) => paragraph.text).filter(Boolean).join(' ') || undefined;
+          break;
+        }
+        // 正文占位符（没有 type 或 type="body"）默认带项目符号
+        const bodyPlaceholder = !!placeholder && (!type || type === 'body');
+        for (const paragraph of paragraphs) {
+          if (!paragraph.text) continue;
+          const bullet = paragraph.bullet === undefined && bodyPlaceholder ? 'unordered' : paragraph.bullet;
+          slide.blocks.push({ type: 'paragraph', text: paragraph.text, level: paragraph.level, ...(bullet ? { bullet } : {}) });
+        }
+        break;
+      }
+      case 'p:pic': {
+        const embed = descendants(shape, 'a:blip')[0]?.getAttribute('r:embed');
+        const target = embed ? rels.get(embed)?.target : undefined;
+        const src = target ? await zipImageDataUri(zip, target) : undefined;
+        if (src) {
+          const properties = descendants(shape, 'p:cNvPr')[0];
+          slide.blocks.push({ type: 'image', src, alt: properties?.getAttribute('descr') || properties?.getAttribute('name') || '' });
+        }
+        break;
+      }
+      case 'p:graphicFrame': {
+        const table = descendants(shape, 'a:tbl')[0];
+        if (table) {
+          const rows = descendants(table, 'a:tr').map((row) =>
+            descendants(row, 'a:tc').map((cell) => pptxParagraphs(cell).map((paragraph) => paragraph.text).join('\n')));
+          if (rows.length > 0) slide.blocks.push({ type: 'table', rows });
+        }
+        break;
+      }
+      case 'p:grpSp':
+        await readPptxShapes(zip, shape, rels, slide);
+        break;
+    }
+  }
+}
+
+function pptxParagraphs(shape: HTMLElement): Array<{ text: string; level: number; bullet: 'unordered' | 'ordered' | null | undefined }> {
+  return descendants(shape, 'a:p').map((paragraph) => {
+    let text = '';
+    for (const node of descendants(paragraph, '*')) {
+      if (node.rawTagName === 'a:t') text += node.text;
+      else if (node.rawTagName === 'a:br') text += '\n';
+    }
+    const properties = descendants(paragraph, 'a:pPr')[0];
+    const level = Number(properties?.getAttribute('lvl')) || 0;
+    // null 表示段落显式关闭了项目符号（a:buNone），不再套用占位符默认的列表样式
+    let bullet: 'unordered' | 'ordered' | null | undefined;
+    if (properties && descendants(properties, 'a:buAutoNum').length > 0) bullet = 'ordered';
+    else if (properties && descendants(properties, 'a:buChar').length > 0) bullet = 'unordered';
+    else if (properties && descendants(properties, 'a:buNone').length > 0) bullet = null;
+    return { text: text.trim(), level, bullet };
+  });
+}
+
+async function readOdp(zip: JSZip): Promise<Presentation> {
+  const content = await readXml(zip, 'content.xml');
+  if (!content) {
+    throw new ToolError('INVALID_ARGUMENT', 'ODP is missing content.xml');
+  }
+
+  const slides: Slide[] = [];
+  for (const [index, page] of descendants(content, 'draw:page').entries()) {
+    const slide: Slide = { number: index + 1, blocks: [], notes: [] };
+    for (const node of page.childNodes) {
+      if (!(node instanceof HTMLElement)) continue;
+      if (node.rawTagName === 'presentation:notes') {
+        for (const frame of descendants(node, 'draw:frame')) {
+          if (frame.getAttribute('presentation:class') === 'notes') {
+            slide.notes.push(...odpParagraphs(frame).map((paragraph) => paragraph.text).filter(Boolean));
+          }
+        }
+      } else {
+        await readOdpShape(zip, node, slide);
+      }
+    }
+    slides.push(slide);
+  }
+
+  const meta = await readXml(zip, 'meta.xml');
+  return {
+    slides,
+    metadata: {
+      title: meta ? firstText(meta, 'dc:title') : undefined,
+      author: meta ? firstText(meta, 'dc:creator') || firstText(meta, 'meta:initial-creator') : undefined,
+    },
+  };
+}
+
+async function readOdpShape(zip: JSZip, shape: HTMLElement, slide: Slide) {
+  if (shape.rawTagName === 'draw:g') {
+    for (const child of shape.childNodes) {
+      if (child instanceof HTMLElement) await readOdpShape(zip, child, slide);
+    }
+    return;
+  }
+
+  const kind = shape.getAttribute('presentation:class');
+  if (kind === 'title' && !slide.title) {
+    slide.title = odpParagraphs(shape).map((paragraph) => paragraph.text).filter(Boolean).join(' ') || undefined;
+    return;
+  }
+
+  const table = descendants(shape, 'table:table')[0];
+  if (table) {
+    const rows = descendants(table, 'table:table-row').map((row) =>
+      descendants(row, 'table:table-cell').map((cell) => odpParagraphs(cell).map((paragraph) => paragraph.text).join('\n')));
+    if (rows.length > 0) slide.blocks.push({ type: 'table', rows });
+    return;
+  }
+
+  for (const image of descendants(shape, 'draw:image')) {
+    const href = image.getAttribute('xlink:href');
+    const src = href && !/^[a-z][a-z0-9+.-]*:/i.test(href) ? await zipImageDataUri(zip, path.posix.normalize(href)) : undefined;
+    if (src) {
+      const alt = descendants(shape, 'svg:title')[0]?.text.trim() || shape.getAttribute('draw:name') || '';
+      slide.blocks.push({ type: 'image', src, alt });
+    }
+  }
+
+  // 大纲占位符中的段落作为列表
+  const outline = kind === 'outline';
+  for (const paragraph of odpParagraphs(shape)) {
+    if (!paragraph.text) continue;
+    const bullet = paragraph.bullet ?? (outline ? 'unordered' : undefined);
+    slide.blocks.push({ type: 'paragraph', text: paragraph.text, level: paragraph.level, ...(bullet ? { bullet } : {}) });
+  }
+}
+
+// 读取文本框中的段落；text:list 的嵌套深度作为列表层级
+function odpParagraphs(element: HTMLElement): Array<{ text: string; level: number; bullet?: 'unordered' }> {
+  const paragraphs: Array<{ text: string; level: number; bullet?: 'unordered' }> = [];
+  const walk = (node: HTMLElement, depth: number) => {
+    for (const child of node.childNodes) {
+      if (!(child instanceof HTMLElement)) continue;
+      if (child.rawTagName === 'text:p' || child.rawTagName === 'text:h') {
+        const text = odfText(child).trim();
+        paragraphs.push(depth > 0 ? { text, level: depth - 1, bullet: 'unordered' } : { text, level: 0 });
+      } else if (child.rawTagName === 'text:list') {
+        walk(child, depth + 1);
+      } else if (child.rawTagName !== 'draw:image' && child.rawTagName !== 'svg:title' && child.rawTagName !== 'svg:desc') {
+        walk(child, depth);
+      }
+    }
+  };
+  walk(element, 0);
+  return paragraphs;
+}
+
+function textToHtml(text: string): string {
+  return escapeHtml(text).replace(/\n/g, '<br>');
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -0,0 +1,111 @@
+/**
+ * 工具 inputSchema 使用的 JSON Schema 子集，以及对应的参数校验。
+ * 仅支持本项目工具定义中用到的关键字：type、properties、required、enum、
+ * minimum、maximum、minLength、items、additionalProperties。
+ */
+export interface JsonSchema {
+  type?: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: readonly unknown[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  minItems?: number;
+  default?: unknown;
+}
+
+export interface SchemaViolation {
+  path: string;
+  message: string;
+}
+
+export function validateSchema(schema: JsonSchema, value: unknown, location: string = ''): SchemaViolation[] {
+  const name = location || 'arguments';
+  const violations: SchemaViolation[] = [];
+  const fail = (message: string) => violations.push({ path: name, message });
+
+  if (schema.type && !matchesType(schema.type, value)) {
+    fail(`must be ${schema.type === 'integer' || schema.type === 'array' || schema.type === 'object' ? 'an' : 'a'} ${schema.type}`);
+    return violations;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    fail(`must be one of: ${schema.enum.join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail(`must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail(`must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.trim().length < schema.minLength) {
+    fail(schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`must contain at least ${schema.minItems} item(s)`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        violations.push(...validateSchema(schema.items as JsonSchema, item, `${name}[${index}]`));
+      });
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const properties = schema.properties || {};
+    for (const key of schema.required || []) {
+      if (value[key] === undefined || value[key] === null) {
+        violations.push({ path: join(location, key), message: 'is required' });
+      }
+    }
+    for (const [key, item] of Object.entries(value)) {
+      const propertySchema = properties[key];
+      if (propertySchema) {
+        if (item !== undefined) {
+          violations.push(...validateSchema(propertySchema, item, join(location, key)));
+        }
+      } else if (schema.additionalProperties === false) {
+        violations.push({ path: join(location, key), message: 'is not a recognized parameter' });
+      }
+    }
+  }
+
+  return violations;
+}
+
+export function formatViolations(violations: SchemaViolation[]): string {
+  return violations.map((violation) => `'${violation.path}' ${violation.message}`).join('; ');
+}
+
+function matchesType(type: NonNullable<JsonSchema['type']>, value: unknown): boolean {
+  switch (type) {
+    case 'object':
+      return isPlainObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function join(location: string, key: string): string {
+  return location ? `${location}.${key}` : key;
+}
@@ -0,0 +1,262 @@
+import * as XLSX from 'xlsx';
+import { ToolError } from './errors';
+
+export interface SpreadsheetOptions {
+  // 要读取的工作表：名称或从 1 开始的序号，默认全部
+  sheets?: string[];
+  // 单元格范围，如 "A1:D20"，作用于每个选中的工作表
+  range?: string;
+  // 有公式的单元格输出公式（如 "=SUM(A1:A3)"）而不是计算结果
+  formulas?: boolean;
+}
+
+export interface SheetTable {
+  name: string;
+  // 实际读取的范围，如 "A1:D20"；空工作表为空字符串
+  range: string;
+  rows: string[][];
+  // 合并单元格（相对于读取范围，从 0 开始）
+  merges: Array<{ row: number; column: number; rowSpan: number; colSpan: number }>;
+}
+
+export interface SheetInfo {
+  name: string;
+  range: string;
+  rows: number;
+  columns: number;
+}
+
+export const SPREADSHEET_FORMATS = ['xlsx', 'xls', 'ods', 'csv'];
+
+// 读取的行数与单元格数上限，防止声明了超大范围或解压后体积巨大的表格耗尽内存；
+// 可通过 SPREADSHEET_MAX_ROWS / SPREADSHEET_MAX_CELLS 环境变量调整
+const DEFAULT_MAX_ROWS = 100_000;
+const DEFAULT_MAX_CELLS = 2_000_000;
+
+export function getSpreadsheetLimits(): { rows: number; cells: number } {
+  const positive = (value: string | undefined, fallback: number) => {
+    const number = Number(value);
+    return Number.isInteger(number) && number > 0 ? number : fallback;
+  };
+  return {
+    rows: positive(process.env.SPREADSHEET_MAX_ROWS, DEFAULT_MAX_ROWS),
+    cells: positive(process.env.SPREADSHEET_MAX_CELLS, DEFAULT_MAX_CELLS),
+  };
+}
+
+/**
+ * 读取电子表格（XLSX/XLS/ODS/CSV），按选项筛选工作表与单元格范围，
+ * 返回每个工作表的单元格文本（数字、日期按单元格格式显示）。
+ * 读取范围的右下角收缩到实际有内容的单元格；超过行数或单元格数上限时抛出 INVALID_ARGUMENT。
+ */
+export function readSpreadsheet(buffer: Buffer, format: string, options: SpreadsheetOptions = {}): SheetTable[] {
+  const limits = getSpreadsheetLimits();
+  const workbook = loadWorkbook(buffer, format, limits.rows);
+  const names = selectSheets(workbook, options.sheets);
+  const limit = options.range ? parseRange(options.range) : undefined;
+
+  let cells = 0;
+  const tooLarge = (name: string) => new ToolError(
+    'INVALID_ARGUMENT',
+    `Spreadsheet is too large to convert (limit ${limits.rows} rows and ${limits.cells} cells); ` +
+      'select fewer cells with spreadsheet_options.range or spreadsheet_options.sheets',
+    { sheet: name, max_rows: limits.rows, max_cells: limits.cells }
+  );
+  return names.map((name) => {
+    const sheet = workbook.Sheets[name];
+    const used = sheet['!ref'] ? XLSX.utils.decode_range(sheet['!ref']) : undefined;
+    // 解析时最多读取 limits.rows + 1 行：最后一行有内容说明工作表被截断，要读取的行伸入截断处时超出上限
+    const extent = used && populatedRange(sheet, used);
+    if (extent && extent.e.r >= limits.rows && (limit ? limit.e.r : Infinity) >= limits.rows) {
+      throw tooLarge(name);
+    }
+    const declared = used && limit ? intersect(used, limit) : used;
+    const range = declared && populatedRange(sheet, declared);
+    if (!range) {
+      return { name, range: '', rows: [], merges: [] };
+    }
+    const rowCount = range.e.r - range.s.r + 1;
+    cells += rowCount * (range.e.c - range.s.c + 1);
+    if (rowCount > limits.rows || cells > limits.cells) {
+      throw tooLarge(name);
+    }
+
+    const rows: string[][] = [];
+    for (let r = range.s.r; r <= range.e.r; r++) {
+      const row: string[] = [];
+      for (let c = range.s.c; c <= range.e.c; c++) {
+        row.push(cellText(sheet[XLSX.utils.encode_cell({ r, c })], options.formulas));
+      }
+      rows.push(row);
+    }
+
+    const merges = (sheet['!merges'] || [])
+      .map((merge) => intersect(merge, range))
+      .filter((merge): merge is XLSX.Range => !!merge && (merge.e.r > merge.s.r || merge.e.c > merge.s.c))
+      .map((merge) => ({
+        row: merge.s.r - range.s.r,
+        column: merge.s.c - range.s.c,
+        rowSpan: merge.e.r - merge.s.r + 1,
+        colSpan: merge.e.c - merge.s.c + 1,
+      }));
+    return { name, range: XLSX.utils.encode_range(range), rows, merges };
+  });
+}
+
+// 工作表名称与尺寸，用于 get_document_info
+export function getSpreadsheetInfo(buffer: Buffer, format: string): SheetInfo[] {
+  const workbook = loadWorkbook(buffer, format, getSpreadsheetLimits().rows);
+  return workbook.SheetNames.map((name) => {
+    // 超过行数上限而被截断的工作表，完整范围在 !fullref 中
+    const sheet = workbook.Sheets[name];
+    const ref = sheet?.['!fullref'] || sheet?.['!ref'];
+    if (!ref) {
+      return { name, range: '', rows: 0, columns: 0 };
+    }
+    const range = XLSX.utils.decode_range(ref);
+    return { name, range: ref, rows: range.e.r - range.s.r + 1, columns: range.e.c - range.s.c + 1 };
+  });
+}
+
+/**
+ * 每个工作表输出为一个标题加表格，第一行作为表头；合并单元格转换为 colspan/rowspan。
+ * CSV 只有一个没有实际名称的工作表，可以通过 headings: false 省略标题。
+ */
+export function sheetsToHtml(sheets: SheetTable[], options: { headings?: boolean } = {}): string {
+  return sheets.map((sheet) => {
+    const heading = options.headings === false ? '' : `<h2>${escapeHtml(sheet.name)}</h2>\n`;
+    if (sheet.rows.length === 0) {
+      return `${heading}<p></p>`;
+    }
+
+    const spans = new Map<string, { rowSpan: number; colSpan: number }>();
+    const covered = new Set<string>();
+    for (const merge of sheet.merges) {
+      spans.set(`${merge.row},${merge.column}`, merge);
+      for (let r = merge.row; r < merge.row + merge.rowSpan; r++) {
+        for (let c = merge.column; c < merge.column + merge.colSpan; c++) {
+          if (r !== merge.row || c !== merge.column) covered.add(`${r},${c}`);
+        }
+      }
+    }
+
+    const renderRow = (row: string[], r: number, cellTag: 'th' | 'td') => {
+      const cells = row.map((value, c) => {
+        if (covered.has(`${r},${c}`)) return '';
+        const span = spans.get(`${r},${c}`);
+        const attributes = `${span && span.colSpan > 1 ? ` colspan="${span.colSpan}"` : ''}${span && span.rowSpan > 1 ? ` rowspan="${span.rowSpan}"` : ''}`;
+        return `<${cellTag}${attributes}>${escapeHtml(value).replace(/\n/g, '<br>')}</${cellTag}>`;
+      });
+      return `<tr>${cells.join('')}</tr>`;
+    };
+
+    const [header, ...body] = sheet.rows;
+    return `${heading}<table>
+<thead>${renderRow(header, 0, 'th')}</thead>
+<tbody>
+${body.map((row, index) => renderRow(row, index + 1, 'td')).join('\n')}
+</tbody>
+</table>`;
+  }).join('\n');
+}
+
+/**
+ * 输出为制表符分隔的文本；多个工作表时每个表前加一行 `[工作表名称]`，表之间空一行。
+ */
+export function sheetsToTsv(sheets: SheetTable[]): string {
+  const tsv = (sheet: SheetTable) => sheet.rows
+    .map((row) => row.map((value) => value.replace(/[\t\r\n]+/g, ' ')).join('\t'))
+    .join('\n');
+  if (sheets.length === 1) {
+    return tsv(sheets[0]);
+  }
+  return sheets.map((sheet) => `[${sheet.name}]\n${tsv(sheet)}`).join('\n\n');
+}
+
+function loadWorkbook(buffer: Buffer, format: string, maxRows: number): XLSX.WorkBook {
+  // 多读一行，用于判断是否超出行数上限
+  const sheetRows = maxRows + 1;
+  try {
+    if (format === 'csv') {
+      // CSV 按 UTF-8 文本读取（去掉 BOM），单元格保持原始文本，不做数字/日期推断
+      return XLSX.read(buffer.toString('utf-8').replace(/^\uFEFF/, ''), { type: 'string', raw: true, sheetRows });
+    }
+    return XLSX.read(buffer, { type: 'buffer', cellFormula: true, cellDates: false, sheetRows });
+  } catch (error) {
+    throw new ToolError(
+      'CONVERSION_FAILED',
+      `Cannot read ${format} spreadsheet: ${error instanceof Error ? error.message : String(error)}`,
+      { format }
+    );
+  }
+}
+
+function selectSheets(workbook: XLSX.WorkBook, sheets: string[] | undefined): string[] {
+  if (!sheets || sheets.length === 0) {
+    return workbook.SheetNames;
+  }
+  return sheets.map((selector) => {
+    // 先按名称匹配，再按序号匹配
+    if (workbook.SheetNames.includes(selector)) {
+      return selector;
+    }
+    const index = /^\d+$/.test(selector.trim()) ? Number(selector) : NaN;
+    if (index >= 1 && index <= workbook.SheetNames.length) {
+      return workbook.SheetNames[index - 1];
+    }
+    throw new ToolError(
+      'INVALID_ARGUMENT',
+      `Sheet "${selector}" not found; available sheets: ${workbook.SheetNames.join(', ')}`,
+      { sheet: selector, sheets: workbook.SheetNames }
+    );
+  });
+}
+
+function parseRange(spec: string): XLSX.Range {
+  const value = spec.trim().toUpperCase();
+  if (!/^\$?[A-Z]{1,3}\$?\d{1,7}(:\$?[A-Z]{1,3}\$?\d{1,7})?$/.test(value)) {
+    throw new ToolError('INVALID_ARGUMENT', `Invalid cell range "${spec}"; expected e.g. "A1:D20"`, { range: spec });
+  }
+  const range = XLSX.utils.decode_range(value.replace(/\$/g, ''));
+  // 允许反向书写的范围（如 "D20:A1"）
+  return {
+    s: { r: Math.min(range.s.r, range.e.r), c: Math.min(range.s.c, range.e.c) },
+    e: { r: Math.max(range.s.r, range.e.r), c: Math.max(range.s.c, range.e.c) },
+  };
+}
+
+// 将范围的右下角收缩到最后一个有单元格的行列；设置过格式的空白行列常使 !ref 远大于内容
+function populatedRange(sheet: XLSX.WorkSheet, range: XLSX.Range): XLSX.Range | undefined {
+  let lastRow = -1;
+  let lastColumn = -1;
+  for (const address of Object.keys(sheet)) {
+    if (address.startsWith('!')) continue;
+    const { r, c } = XLSX.utils.decode_cell(address);
+    if (r < range.s.r || r > range.e.r || c < range.s.c || c > range.e.c) continue;
+    lastRow = Math.max(lastRow, r);
+    lastColumn = Math.max(lastColumn, c);
+  }
+  return lastRow < 0 ? undefined : { s: range.s, e: { r: lastRow, c: lastColumn } };
+}
+
+function intersect(a: XLSX.Range, b: XLSX.Range): XLSX.Range | undefined {
+  const range = {
+    s: { r: Math.max(a.s.r, b.s.r), c: Math.max(a.s.c, b.s.c) },
+    e: { r: Math.min(a.e.r, b.e.r), c: Math.min(a.e.c, b.e.c) },
+  };
+  return range.s.r <= range.e.r && range.s.c <= range.e.c ? range : undefined;
+}
+
+function cellText(cell: XLSX.CellObject | undefined, formulas?: boolean): string {
+  if (!cell) return '';
+  if (formulas && cell.f) {
+    return `=${cell.f}`;
+  }
+  if (cell.w !== undefined) return cell.w;
+  if (cell.v === undefined || cell.v === null) return '';
+  return cell.v instanceof Date ? cell.v.toISOString() : String(cell.v);
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -0,0 +1,877 @@
+import type { JsonSchema } from './schema-validator';
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema & { type: 'object' };
+}
+
+const conversionOptionsSchema: JsonSchema = {
+  type: 'object',
+  description: 'Additional conversion options',
+  properties: {
+    preserve_formatting: {
+      type: 'boolean',
+      description: 'Whether to preserve original formatting',
+      default: true,
+    },
+    pdf_layout: {
+      type: 'boolean',
+      description: 'For PDF input, rebuild headings, paragraphs, lists and tables from the page layout and drop running headers/footers; false extracts plain text',
+      default: true,
+    },
+    ocr: {
+      type: 'string',
+      enum: ['auto', 'always', 'never'],
+      description: 'OCR for PDF input: auto recognizes pages without a text layer (scans), always recognizes every page, never skips OCR',
+      default: 'auto',
+    },
+    ocr_languages: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Tesseract language codes for OCR (e.g., ["eng", "chi_sim"]); default from OCR_LANGUAGES or eng+chi_sim',
+    },
+    extract_images: {
+      type: 'boolean',
+      description: 'Extract embedded images (DOCX, PDF, data URIs in HTML/Markdown) into files; Markdown/HTML output links to them',
+      default: false,
+    },
+    image_output_dir: {
+      type: 'string',
+      description: 'Directory for extracted images (default: <output name>_images next to the output file)',
+    },
+    spreadsheet_options: {
+      type: 'object',
+      description: 'Spreadsheet input (xlsx, xls, ods, csv) options',
+      properties: {
+        sheets: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Sheets to convert, by name or 1-based index (default: all sheets)',
+        },
+        range: {
+          type: 'string',
+          description: 'Cell range to read from each selected sheet (e.g., "A1:D20")',
+        },
+        formulas: {
+          type: 'boolean',
+          description: 'Output formulas (e.g., "=SUM(A1:A3)") instead of evaluated values',
+          default: false,
+        },
+      },
+    },
+    image_options: {
+      type: 'object',
+      description: 'Image-specific conversion options',
+      properties: {
+        width: {
+          type: 'number',
+          description: 'Target width in pixels',
+        },
+        height: {
+          type: 'number',
+          description: 'Target height in pixels',
+        },
+        quality: {
+          type: 'number',
+          description: 'Image quality (0-100)',
+          minimum: 0,
+          maximum: 100,
+        },
+        maintain_aspect_ratio: {
+          type: 'boolean',
+          description: 'Whether to maintain aspect ratio when resizing',
+          default: true,
+        },
+        background_color: {
+          type: 'string',
+          description: 'Background color for transparent images',
+        },
+        watermark: {
+          type: 'object',
+          description: 'Watermark options',
+          properties: {
+            text: {
+              type: 'string',
+              description: 'Watermark text',
+            },
+            image_path: {
+              type: 'string',
+              description: 'Path to watermark image',
+            },
+            position: {
+              type: 'string',
+              enum: ['top-left', 'top-right', 'bottom-left', 'bottom-right', 'center'],
+              description: 'Watermark position',
+              default: 'bottom-right',
+            },
+            opacity: {
+              type: 'number',
+              description: 'Watermark opacity (0-1)',
+              minimum: 0,
+              maximum: 1,
+              default: 0.5,
+            },
+          },
+        },
+        animation: {
+          type: 'object',
+          description: 'Animated GIF/WebP options; gif and webp output keep every frame, frame delays and the loop count by default, other formats get a single frame. Animated AVIF output is not supported: converting an animation to avif requires frame',
+          properties: {
+            frame: {
+              type: 'integer',
+              description: 'Output only this frame (1-based) as a still image',
+              minimum: 1,
+            },
+            loop: {
+              type: 'integer',
+              description: 'Override the loop count (0 loops forever)',
+              minimum: 0,
+            },
+            delay: {
+              type: 'integer',
+              description: 'Override the delay of every frame, in milliseconds',
+              minimum: 0,
+            },
+          },
+        },
+        metadata: {
+          type: 'object',
+          description: 'EXIF/XMP/ICC metadata options; by default all metadata is stripped and pixels are rotated upright from the EXIF orientation',
+          properties: {
+            mode: {
+              type: 'string',
+              enum: ['strip', 'keep', 'strip_gps'],
+              description: 'strip removes all metadata; keep preserves EXIF, XMP and ICC; strip_gps keeps EXIF and ICC but removes GPS location and XMP',
+              default: 'strip',
+            },
+            auto_orient: {
+              type: 'boolean',
+              description: 'Rotate pixels according to the EXIF orientation and reset the tag; when false the orientation tag is kept instead',
+              default: true,
+            },
+            set: {
+              type: 'object',
+              description: 'Rewrite EXIF text fields in the output',
+              additionalProperties: false,
+              properties: {
+                artist: { type: 'string' },
+                copyright: { type: 'string' },
+                description: { type: 'string' },
+                software: { type: 'string' },
+              },
+            },
+            icc: {
+              type: 'string',
+              minLength: 1,
+              description: 'Color profile: "keep" the input profile, convert to "srgb", "p3" or "cmyk" (jpeg/tiff only), or the path of an ICC file',
+            },
+          },
+        },
+        rasterize: {
+          type: 'object',
+          description: 'PDF to image (png, jpg, webp) options',
+          properties: {
+            pages: {
+              type: 'string',
+              description: 'Pages to render, 1-based (e.g., "1-3,5", "4-", "last"); default all pages',
+            },
+            dpi: {
+              type: 'number',
+              description: 'Rendering resolution (default 150, or 72 for sprite)',
+              minimum: 18,
+              maximum: 600,
+            },
+            layout: {
+              type: 'string',
+              enum: ['pages', 'sprite'],
+              description: 'One image per page (multiple pages are written as <name>-<page>.<ext>) or a single contact sheet',
+              default: 'pages',
+            },
+            columns: {
+              type: 'integer',
+              description: 'Pages per row in the sprite (default: square-ish grid)',
+              minimum: 1,
+            },
+          },
+        },
+      },
+    },
+    pdf_options: {
+      type: 'object',
+      description: 'PDF-specific output options',
+      properties: {
+        format: { type: 'string', description: 'Paper format (e.g., A4, Letter)' },
+        landscape: { type: 'boolean', description: 'Landscape orientation' },
+        printBackground: { type: 'boolean', description: 'Print background graphics' },
+        scale: { type: 'number', description: 'Scale of the page rendering (0.1 - 2.0)' },
+        margin: {
+          type: 'object',
+          description: 'Page margins',
+          properties: {
+            top: { type: 'string', description: 'Top margin (e.g., 20mm)' },
+            right: { type: 'string', description: 'Right margin (e.g., 20mm)' },
+            bottom: { type: 'string', description: 'Bottom margin (e.g., 20mm)' },
+            left: { type: 'string', description: 'Left margin (e.g., 20mm)' },
+          },
+        },
+        header: { type: 'string', description: 'Header text to display' },
+        footer: { type: 'string', description: 'Footer text to display' },
+        prefer_chinese_fonts: { type: 'boolean', description: 'Prefer Chinese font stack for rendering' }
+      }
+    },
+  },
+};
+
+const inputContentSchema: JsonSchema = {
+  type: 'object',
+  description: 'Inline input document, used instead of input_path',
+  properties: {
+    data: { type: 'string', minLength: 1, description: 'Base64-encoded file content' },
+    filename: { type: 'string', description: 'Original file name, used to detect the input format (e.g., report.docx)' },
+    mime_type: { type: 'string', description: 'MIME type, used to detect the input format when filename is missing' },
+  },
+  required: ['data'],
+};
+
+/**
+ * 所有 MCP 工具的定义。inputSchema 既用于 tools/list，也用于调用时的参数校验，
+ * 因此顶层设置 additionalProperties: false，拼写错误的参数会被明确拒绝。
+ */
+export function getToolDefinitions(): ToolDefinition[] {
+  return [
+    {
+      name: 'convert_document',
+      description: 'Convert documents and images between various formats (PDF, Word DOCX/DOC, RTF, ODT, Markdown, HTML, TXT, EPUB, XLSX/XLS/ODS/CSV, PPTX/ODP, JPEG, PNG, WebP, AVIF, TIFF, GIF, BMP, SVG, HEIC, HEIF); PDF pages can be rendered to PNG, JPEG or WebP images; scanned PDFs and images can be converted to text via OCR (txt, md, hocr); documents can be converted to a structured JSON document tree (json; schema in list_supported_formats)',
+      inputSchema: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          input_path: {
+            type: 'string',
+            minLength: 1,
+            description: 'Path to the input document file on the server (use input_content instead when the server has no access to your files)',
+          },
+          input_content: inputContentSchema,
+          output_path: {
+            type: 'string',
+            minLength: 1,
+            description: 'Path for the output converted file (optional when return_content is true)',
+          },
+          return_content: {
+            type: 'boolean',
+            description: 'Return the converted file inline as an embedded resource (text for txt/md/html, base64 blob otherwise)',
+            default: false,
+          },
+          target_format: {
+            type: 'string',
+            enum: ['pdf', 'docx', 'md', 'html', 'txt', 'epub', 'json', 'hocr', 'jpeg', 'jpg', 'png', 'webp', 'avif', 'tiff', 'gif', 'bmp'],
+            description: 'Target format for conversion (see list_supported_formats for the supported pairs)',
+          },
+          options: conversionOptionsSchema,
+        },
+        required: ['target_format'],
+      },
+    },
+    {
+      name: 'chunk_document',
+      description: 'Split a document into text chunks for feeding to a language model: by section (heading), on paragraph boundaries or by size, with optional overlap. Each chunk has its heading path, page range (PDF, presentations) and character offsets. Long documents are returned page by page; pass next_cursor back as cursor, with the same other arguments, to get the next chunks',
+      inputSchema: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          input_path: {
+            type: 'string',
+            minLength: 1,
+            description: 'Path to the input document file on the server (use input_content instead when the server has no access to your files)',
+          },
+          input_content: inputContentSchema,
+          strategy: {
+            type: 'string',
+            enum: ['heading', 'paragraph', 'size'],
+            description: 'heading starts a new chunk at every section and splits long sections on paragraph boundaries; paragraph packs consecutive paragraphs, lists and tables up to max_size; size cuts the text into max_size pieces regardless of structure',
+            default: 'heading',
+          },
+          unit: {
+            type: 'string',
+            enum: ['chars', 'tokens'],
+            description: 'Unit of max_size and overlap; tokens are estimated (about 4 characters per token, 1 per CJK character)',
+            default: 'chars',
+          },
+          max_size: {
+            type: 'number',
+            description: 'Maximum chunk size without the overlap (default 4000 chars or 1000 tokens)',
+            minimum: 1,
+          },
+          overlap: {
+            type: 'number',
+            description: 'Text repeated from the end of the previous chunk at the start of each chunk; must be less than max_size',
+            minimum: 0,
+            default: 0,
+          },
+          max_chunks: {
+            type: 'integer',
+            description: 'Maximum number of chunks returned per call',
+            minimum: 1,
+            maximum: 100,
+            default: 10,
+          },
+          cursor: {
+            type: 'string',
+            minLength: 1,
+            description: 'next_cursor from the previous call, to continue with the following chunks',
+          },
+          options: {
+            ...conversionOptionsSchema,
+            description: 'Options for reading the document (pdf_layout, ocr, ocr_languages, spreadsheet_options)',
+          },
+        },
+      },
+    },
+    {
+      name: 'get_document_info',
+      description: 'Get information about a document or image (format, size, dimensions, page count, whether a PDF has a text layer, spreadsheet sheet names and dimensions, presentation slide count, etc.)',
+      inputSchema: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          file_path: {
+            type: 'string',
+            minLength: 1,
+            description: 'Path to the document file',
+          },
+        },
+        required: ['file_path'],
+      },
+    },
+    {
+      name: 'list_supported_formats',
+      description: 'List all supported input and output formats, the conversion matrix and the JSON Schema of the json output format',
+      inputSchema: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {},
+      },
+    },
+    {
+      name: 'get_image_info',
+      description: 'Get detailed information about an image (format, width, height, channels, alpha, color space, density, frame count, duration, frame delays and loop count for animations, EXIF orientation, parsed EXIF fields such as camera, date taken and GPS, and whether an ICC profile or XMP is embedded)',
+      inputSchema: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          file_path: {
+            type: 'string',
+            minLength: 1,
+            description: 'Path to the image file',
+          },
+        },
+        required: ['file_path'],
+      },
+    },
+    {
+      name: 'create_thumbnail',
+      description: 'Create a thumbnail of exactly width x height pixels, cropping to fill the box by default (output format follows the output file extension, JPEG otherwise)',
+      inputSchema: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          input_path: { type: 'string', minLength: 1, description: 'Path to the source image' },
+          output_path: { type: 'string', minLength: 1, description: 'Path for the thumbnail file' },
+          width: { type: 'number', description: 'Thumbnail width in pixels', minimum: 1, default: 200 },
+          height: { type: 'number', description: 'Thumbnail height in pixels', minimum: 1, default: 200 },
+          fit: {
+            type: 'string',
+            enum: ['cover', 'contain', 'fill', 'inside', 'outside'],
+            description: 'How the image fits the box (cover crops, contain letterboxes)',
+            default: 'cover',
+          },
+          position: {
+            type: 'string',
+            enum: ['center', 'top', 'right', 'bottom', 'left', 'attention', 'entropy'],
+            description: 'Crop anchor when fit is cover; attention/entropy pick the most interesting region',
+            default: 'center',
+          },
+          background: { type: 'string', description: 'Background color used by contain (e.g., #ffffff)' },
+          quality: { type: 'number', description: 'Output quality (1-100)', minimum: 1, maximum: 100, default: 80 },
+        },
+        required: ['input_path', 'output_path'],
+      },
+    },
+    {
+      name: 'optimize_image',
+      description:
+        'Re-encode an image with the given quality and progressive encoding, optionally into another format, and report the size change. ' +
+        'With max_bytes the quality (and effort) is searched and the image downscaled if needed to land under the byte budget, ' +
+        'picking the best result among the allowed formats and reporting the chosen format, quality, dimensions and size',
+      inputSchema: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          input_path: { type: 'string', minLength: 1, description: 'Path to the source image' },
+          output_path: { type: 'string', minLength: 1, description: 'Path for the optimized image; the extension follows the chosen format' },
+          quality: { type: 'number', description: 'Output quality (1-100); the upper bound of the search with max_bytes', minimum: 1, maximum: 100, default: 80 },
+          target_format: {
+            type: 'string',
+            enum: ['jpeg', 'jpg', 'png', 'webp', 'avif', 'tiff'],
+            description: 'Output format; defaults to the input format',
+          },
+          max_bytes: { type: 'integer', minimum: 1, description: 'Maximum output size in bytes' },
+          max_width: { type: 'integer', minimum: 1, description: 'Maximum output width in pixels (never enlarges)' },
+          max_height: { type: 'integer', minimum: 1, description: 'Maximum output height in pixels (never enlarges)' },
+          formats: {
+            type: 'array',
+            minItems: 1,
+            items: { type: 'string', enum: ['jpeg', 'png', 'webp', 'avif'] },
+            description: 'Formats allowed for the result, overriding target_format; the one keeping the largest size and highest quality under max_bytes wins',
+          },
+        },
+        required: ['input_path', 'output_path'],
+      },
+    },
+    {
+      name: 'watermark_image',
+      description: 'Add a text or image watermark to an image',
+      inputSchema: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          input_path: { type: 'string', minLength: 1, description: 'Path to the source image' },
+          output_path: { type: 'string', minLength: 1, description: 'Path for the watermarked image' },
+          text: { type: 'string', description: 'Watermark text (either text or watermark_image_path is required)' },
+          watermark_image_path: { type: 'string', minLength: 1, description: 'Path to an image used as the watermark' },
+          position: {
+            type: 'string',
+            enum: ['top-left', 'top-right', 'bottom-left', 'bottom-right', 'center'],
+            description: 'Watermark position',
+            default: 'bottom-right',
+          },
+          opacity: { type: 'number', description: 'Watermark opacity (0-1)', minimum: 0, maximum: 1, default: 0.5 },
+          font_size: { type: 'number', description: 'Font size for text watermarks', minimum: 1, default: 30 },
+          color: { type: 'string', description: 'Text color for text watermarks (e.g., #ffffff)' },
+        },
+        required: ['input_path', 'output_path'],
+      },
+    },
+    {
+      name: 'batch_convert_images',
+      description: 'Convert every image in a directory to the target format with the same options',
+      inputSchema: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          input_dir: { type: 'string', minLength: 1, description: 'Directory containing the source images' },
+          output_dir: { type: 'string', minLength: 1, description: 'Directory for the converted images' },
+          target_format: {
+            type: 'string',
+            enum: ['jpeg', 'jpg', 'png', 'webp', 'avif', 'tiff', 'gif', 'bmp', 'pdf'],
+            description: 'Target image format',
+          },
+          options: {
+            type: 'object',
+            description: 'Image conversion options applied to every file',
+            properties: {
+              width: { type: 'number', description: 'Target width in pixels' },
+              height: { type: 'number', description: 'Target height in pixels' },
+              fit: { type: 'string', enum: ['cover', 'contain', 'fill', 'inside', 'outside'], description: 'Resize fit mode', default: 'inside' },
+              quality: { type: 'number', description: 'Image quality (1-100)', minimum: 1, maximum: 100 },
+              background: { type: 'string', description: 'Background color for padding/transparency' },
+              progressive: { type: 'boolean', description: 'Progressive/interlaced encoding' },
+              lossless: { type: 'boolean', description: 'Lossless encoding (WebP/AVIF)' },
+              animation: {
+                type: 'object',
+                description: 'Animated GIF/WebP options: frame picks one frame (1-based, required for avif output since animated AVIF is not supported), loop and delay (ms) override the timing',
+                properties: {
+                  frame: { type: 'integer', minimum: 1 },
+                  loop: { type: 'integer', minimum: 0 },
+                  delay: { type: 'integer', minimum: 0 },
+                },
+              },
+              metadata: {
+                type: 'object',
+                description: 'Metadata options: mode (strip, keep, strip_gps), auto_orient, set (artist, copyright, description, software) and icc (keep, srgb, p3, cmyk or an ICC file path)',
+                properties: {
+                  mode: { type: 'string', enum: ['strip', 'keep', 'strip_gps'] },
+                  auto_orient: { type: 'boolean' },
+                  set: {
+                    type: 'object',
+                    additionalProperties: false,
+                    properties: {
+                      artist: { type: 'string' },
+                      copyright: { type: 'string' },
+                      description: { type: 'string' },
+                      software: { type: 'string' },
+                    },
+                  },
+                  icc: { type: 'string', minLength: 1 },
+                },
+              },
+              effects: {
+                type: 'object',
+                description: 'Image effects',
+                properties: {
+                  blur: { type: 'number' },
+                  sharpen: { type: 'number' },
+                  brightness: { type: 'number', minimum: -1, maximum: 1 },
+                  saturation: { type: 'number', minimum: -1, maximum: 1 },
+                  hue: { type: 'number', minimum: -180, maximum: 180 },
+                  grayscale: { type: 'boolean' },
+                  invert: { type: 'boolean' },
+                },
+              },
+            },
+          },
+        },
+        required: ['input_dir', 'output_dir', 'target_format'],
+      },
+    },
+    {
+      name: 'combine_images',
+      description: 'Combine several images into one multi-page PDF or multi-page TIFF, one image per page (every frame of a multi-page TIFF becomes a page); page size, fit, margin and orientation can be set for all pages or per image',
+      inputSchema: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          inputs: {
+            type: 'array',
+            minItems: 1,
+            description: 'Images in page order; provide inputs or input_dir',
+            items: {
+              type: 'object',
+              additionalProperties: false,
+              properties: {
+                path: { type: 'string', minLength: 1, description: 'Path to an image file' },
+                page_size: { type: 'string', enum: ['fit', 'a3', 'a4', 'a5', 'letter', 'legal'], description: 'Overrides the page size for this image' },
+                fit: { type: 'string', enum: ['contain', 'cover', 'fill', 'shrink'], description: 'Overrides the fit mode for this image' },
+                margin: { type: 'number', minimum: 0, description: 'Overrides the page margin for this image, in points' },
+                orientation: { type: 'string', enum: ['auto', 'portrait', 'landscape'], description: 'Overrides the page orientation for this image' },
+              },
+              required: ['path'],
+            },
+          },
+          input_dir: {
+            type: 'string',
+            minLength: 1,
+            description: 'Directory whose images become the pages, in natural file name order (page2 before page10); provide inputs or input_dir',
+          },
+          output_path: {
+            type: 'string',
+            minLength: 1,
+            description: 'Path for the document (.pdf, .tif or .tiff)',
+          },
+          format: {
+            type: 'string',
+            enum: ['pdf', 'tiff'],
+            description: 'Document format; inferred from the output_path extension by default',
+          },
+          page_size: {
+            type: 'string',
+            enum: ['fit', 'a3', 'a4', 'a5', 'letter', 'legal'],
+            description: 'Paper size, or fit to size each page to its image',
+            default: 'a4',
+          },
+          fit: {
+            type: 'string',
+            enum: ['contain', 'cover', 'fill', 'shrink'],
+            description: 'How images fill the area inside the margins: contain scales to fit, cover fills and crops, fill stretches, shrink keeps the actual size and only scales down',
+            default: 'shrink',
+          },
+          margin: {
+            type: 'number',
+            minimum: 0,
+            description: 'Page margin in points (default 36 for paper sizes, 0 for fit)',
+          },
+          orientation: {
+            type: 'string',
+            enum: ['auto', 'portrait', 'landscape'],
+            description: 'Page orientation; auto follows each image',
+            default: 'auto',
+          },
+          dpi: {
+            type: 'number',
+            minimum: 36,
+            maximum: 600,
+            description: 'Resolution of TIFF pages',
+            default: 150,
+          },
+          compression: {
+            type: 'string',
+            enum: ['lzw', 'deflate', 'jpeg', 'ccittfax4', 'none'],
+            description: 'TIFF compression; ccittfax4 produces black-and-white pages for scanned text',
+            default: 'lzw',
+          },
+          quality: { type: 'number', minimum: 1, maximum: 100, description: 'Quality for TIFF jpeg compression' },
+        },
+        required: ['output_path'],
+      },
+    },
+    {
+      name: 'split_image_frames',
+      description: 'Export the frames of a multi-page TIFF (or animated GIF/WebP) as separate images named <name>-<n>.<ext>; a single frame is written to output_path',
+      inputSchema: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          input_path: { type: 'string', minLength: 1, description: 'Path to the multi-page image' },
+          output_path: { type: 'string', minLength: 1, description: 'Output path; the frame number is appended when several frames are exported' },
+          target_format: {
+            type: 'string',
+            enum: ['jpeg', 'jpg', 'png', 'webp', 'avif', 'tiff', 'gif', 'bmp'],
+            description: 'Image format of the frames',
+          },
+          pages: { type: 'string', description: 'Frames to export, 1-based (e.g., "1-3,5", "4-", "last"); default all frames' },
+          options: {
+            type: 'object',
+            description: 'Image conversion options applied to every frame',
+            properties: {
+              width: { type: 'number', description: 'Target width in pixels' },
+              height: { type: 'number', description: 'Target height in pixels' },
+              fit: { type: 'string', enum: ['cover', 'contain', 'fill', 'inside', 'outside'], description: 'Resize fit mode', default: 'inside' },
+              quality: { type: 'number', description: 'Image quality (1-100)', minimum: 1, maximum: 100 },
+            },
+          },
+        },
+        required: ['input_path', 'output_path', 'target_format'],
+      },
+    },
+    {
+      name: 'merge_pdfs',
+      description: 'Merge PDFs and images (JPEG, PNG, WebP, TIFF, etc.) into one PDF, in the given order; each image (and each frame of a multi-page TIFF) becomes a page',
+      inputSchema: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          inputs: {
+            type: 'array',
+            minItems: 1,
+            description: 'Files to merge, in order',
+            items: {
+              type: 'object',
+              additionalProperties: false,
+              properties: {
+                path: { type: 'string', minLength: 1, description: 'Path to a PDF or image file' },
+                pages: { type: 'string', description: 'PDF pages to include, 1-based (e.g., "1-3,5", "4-", "last"); default all pages' },
+              },
+              required: ['path'],
+            },
+          },
+          output_path: {
+            type: 'string',
+            minLength: 1,
+            description: 'Path for the merged PDF',
+          },
+          image_page_size: {
+            type: 'string',
+            enum: ['a4', 'letter', 'fit'],
+            description: 'Page size for images: a4 or letter (portrait or landscape to match the image, image centered and scaled down to fit), or fit (page matches the image size)',
+            default: 'a4',
+          },
+        },
+        required: ['inputs', 'output_path'],
+      },
+    },
+    {
+      name: 'split_pdf',
+      description: 'Split a PDF into several files by page ranges, every N pages or by bookmarks; files are written to output_dir as <name>-<n>.pdf',
+      inputSchema: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          input_path: {
+            type: 'string',
+            minLength: 1,
+            description: 'Path to the PDF file',
+          },
+          output_dir: {
+            type: 'string',
+            minLength: 1,
+            description: 'Directory for the split files',
+          },
+          ranges: {
+            type: 'array',
+            minItems: 1,
+            items: { type: 'string', minLength: 1 },
+            description: 'One output file per range, 1-based (e.g., ["1-3", "4-10", "11-"])',
+          },
+          every: {
+            type: 'integer',
+            minimum: 1,
+            description: 'One output file per N pages (default 1, one file per page)',
+          },
+          by_bookmarks: {
+            type: 'boolean',
+            description: 'One output file per bookmark, starting at the bookmarked page; the bookmark title is added to the file name',
+            default: false,
+          },
+          bookmark_level: {
+            type: 'integer',
+            minimum: 1,
+            description: 'Bookmark level used with by_bookmarks (1 = top-level bookmarks)',
+            default: 1,
+          },
+        },
+        required: ['input_path', 'output_dir'],
+      },
+    },
+    {
+      name: 'edit_pdf_pages',
+      description: 'Extract, reorder, delete or rotate PDF pages and write the result to a new PDF',
+      inputSchema: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          input_path: {
+            type: 'string',
+            minLength: 1,
+            description: 'Path to the PDF file',
+          },
+          output_path: {
+            type: 'string',
+            minLength: 1,
+            description: 'Path for the edited PDF',
+          },
+          pages: {
+            type: 'string',
+            description: 'Pages to keep, in output order, 1-based (e.g., "3,1,2", "5-", "last"); default all pages',
+          },
+          delete: {
+            type: 'string',
+            description: 'Pages to remove (e.g., "2,4-6")',
+          },
+          rotate: {
+            type: 'array',
+            description: 'Clockwise rotations; page numbers refer to the input document',
+            items: {
+              type: 'object',
+              additionalProperties: false,
+              properties: {
+                pages: { type: 'string', description: 'Pages to rotate (default all pages)' },
+                angle: { type: 'integer', enum: [90, 180, 270, -90], description: 'Rotation in degrees, clockwise' },
+              },
+              required: ['angle'],
+            },
+          },
+        },
+        required: ['input_path', 'output_path'],
+      },
+    },
+    {
+      name: 'add_page_numbers',
+      description: 'Stamp page numbers on a PDF',
+      inputSchema: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          input_path: {
+            type: 'string',
+            minLength: 1,
+            description: 'Path to the PDF file',
+          },
+          output_path: {
+            type: 'string',
+            minLength: 1,
+            description: 'Path for the numbered PDF',
+          },
+          format: {
+            type: 'string',
+            minLength: 1,
+            description: 'Page number text; {page} is the page number and {total} the last page number (e.g., "Page {page} of {total}"). Latin characters only',
+            default: '{page} / {total}',
+          },
+          position: {
+            type: 'string',
+            enum: ['bottom-center', 'bottom-left', 'bottom-right', 'top-center', 'top-left', 'top-right'],
+            description: 'Where to place the page number',
+            default: 'bottom-center',
+          },
+          pages: {
+            type: 'string',
+            description: 'Pages to number (e.g., "2-"); default all pages',
+          },
+          start: {
+            type: 'integer',
+            description: 'Number shown on the first numbered page',
+            default: 1,
+          },
+          font_size: {
+            type: 'number',
+            minimum: 4,
+            maximum: 72,
+            description: 'Font size in points',
+            default: 10,
+          },
+          color: {
+            type: 'string',
+            description: 'Text color as hex (e.g., "#333333")',
+            default: '#000000',
+          },
+          margin: {
+            type: 'number',
+            minimum: 0,
+            description: 'Distance from the page edge in points',
+            default: 24,
+          },
+        },
+        required: ['input_path', 'output_path'],
+      },
+    },
+    {
+      name: 'start_conversion',
+      description: 'Start an asynchronous document conversion and return a job id immediately; use get_conversion_status to poll its progress and cancel_conversion to stop it',
+      inputSchema: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          input_path: { type: 'string', minLength: 1, description: 'Path to the input document file' },
+          output_path: { type: 'string', minLength: 1, description: 'Path for the output converted file' },
+          target_format: {
+            type: 'string',
+            enum: ['pdf', 'docx', 'md', 'html', 'txt', 'epub', 'json', 'hocr', 'jpeg', 'jpg', 'png', 'webp', 'avif', 'tiff', 'gif', 'bmp'],
+            description: 'Target format for conversion (see list_supported_formats for the supported pairs)',
+          },
+          options: conversionOptionsSchema,
+        },
+        required: ['input_path', 'output_path', 'target_format'],
+      },
+    },
+    {
+      name: 'get_conversion_status',
+      description: 'Get the status, stage (reading, rendering, writing, done) and percent of a conversion job; lists all jobs when job_id is omitted',
+      inputSchema: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          job_id: { type: 'string', minLength: 1, description: 'Job id returned by start_conversion' },
+        },
+      },
+    },
+    {
+      name: 'cancel_conversion',
+      description: 'Cancel a queued or running conversion job, stopping any LibreOffice/Python/Word process and the PDF renderer',
+      inputSchema: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          job_id: { type: 'string', minLength: 1, description: 'Job id returned by start_conversion' },
+        },
+        required: ['job_id'],
+      },
+    },
+    {
+      name: 'conversion_cache',
+      description: 'Inspect or clear the on-disk conversion cache (entries, size, hit/miss counts). The cache is enabled with CONVERSION_CACHE or CONVERSION_CACHE_DIR',
+      inputSchema: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          action: {
+            type: 'string',
+            enum: ['stats', 'clear', 'prune'],
+            description: 'stats shows cache statistics, clear removes all entries, prune removes expired entries and enforces the size limit',
+            default: 'stats',
+          },
+        },
+      },
+    },
+  ];
+}
@@ -0,0 +1,192 @@
+#!/usr/bin/env node
+
+/**
+ * 回归测试脚本（基于 dist 构建产物，先执行 npm run build）
+ *
+ * 每个用例覆盖一个曾经出现过的问题，失败时以非零状态退出。
+ */
+
+const fs = require('fs-extra');
+const os = require('os');
+const path = require('path');
+const { spawn } = require('child_process');
+
+const cases = [];
+
+function regression(name, fn) {
+  cases.push({ name, fn });
+}
+
+function assert(condition, message) {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+// 同样的字节作为 CSV 与 TXT 转换，缓存键必须不同
+regression('cache key includes the input format', async (workDir) => {
+  process.env.CONVERSION_CACHE_DIR = path.join(workDir, 'cache');
+  const { DocumentConverter } = require('./dist/converter');
+  const converter = new DocumentConverter();
+
+  const content = 'name,age\nalice,30\n';
+  const csvPath = path.join(workDir, 'same.csv');
+  const txtPath = path.join(workDir, 'same.txt');
+  await fs.writeFile(csvPath, content);
+  await fs.writeFile(txtPath, content);
+
+  const csvResult = await converter.convertDocument(csvPath, path.join(workDir, 'from-csv.html'), 'html');
+  const txtResult = await converter.convertDocument(txtPath, path.join(workDir, 'from-txt.html'), 'html');
+  assert(csvResult.success && txtResult.success, 'conversions should succeed');
+  assert(!txtResult.metadata?.cache_hit, 'TXT conversion must not hit the CSV cache entry');
+
+  const csvHtml = await fs.readFile(csvResult.output_path, 'utf8');
+  const txtHtml = await fs.readFile(txtResult.output_path, 'utf8');
+  assert(csvHtml.includes('<table'), 'CSV should be rendered as a table');
+  assert(!txtHtml.includes('<table'), 'TXT should not be rendered as a table');
+});
+
+// 嵌入了本地图片的输出不能从缓存返回：图片可能已修改，或当前沙箱不允许读取
+regression('cache skips documents that embed local files', async (workDir) => {
+  process.env.CONVERSION_CACHE_DIR = path.join(workDir, 'cache');
+  const sharp = require('sharp');
+  const { DocumentConverter } = require('./dist/converter');
+  const { PathGuard } = require('./dist/path-guard');
+  const converter = new DocumentConverter();
+
+  const imagePath = path.join(workDir, 'logo.png');
+  await sharp({ create: { width: 4, height: 4, channels: 3, background: '#ff0000' } }).png().toFile(imagePath);
+  const withImage = path.join(workDir, 'with-image.md');
+  const plain = path.join(workDir, 'plain.md');
+  await fs.writeFile(withImage, '# Report\n\n![logo](logo.png)\n');
+  await fs.writeFile(plain, '# Report\n\nNo images, see [docs](https://example.com).\n');
+
+  const first = await converter.convertDocument(withImage, path.join(workDir, 'a.docx'), 'docx');
+  assert(first.success, first.message);
+  // 同样的 Markdown 在只允许访问另一个目录的沙箱下转换，不能拿到嵌入了 logo.png 的缓存结果
+  const uploadDir = path.join(workDir, 'upload');
+  await fs.copy(withImage, path.join(uploadDir, 'with-image.md'));
+  const sandboxed = await converter.convertDocument(path.join(uploadDir, 'with-image.md'), path.join(uploadDir, 'b.docx'), 'docx', {}, {
+    pathGuard: new PathGuard({ write_roots: [uploadDir] }),
+  });
+  assert(!sandboxed.metadata?.cache_hit, 'a sandboxed conversion must not reuse output that embeds local files');
+
+  await converter.convertDocument(plain, path.join(workDir, 'c.docx'), 'docx');
+  const again = await converter.convertDocument(plain, path.join(workDir, 'd.docx'), 'docx');
+  assert(again.metadata?.cache_hit, 'self-contained documents should still be cached');
+});
+
+// RTF 的 HYPERLINK 域应保留为链接，而不是只剩显示文本
+regression('RTF hyperlinks are kept', async (workDir) => {
+  const { DocumentConverter } = require('./dist/converter');
+  const converter = new DocumentConverter();
+
+  const rtfPath = path.join(workDir, 'links.rtf');
+  await fs.writeFile(rtfPath, [
+    '{\\rtf1\\ansi{\\fonttbl{\\f0 Arial;}}',
+    '\\pard See {\\field{\\*\\fldinst{HYPERLINK "https://example.com/docs"}}{\\fldrslt{\\ul the docs}}} now.\\par',
+    '\\pard Jump {\\field{\\*\\fldinst HYPERLINK \\\\l "intro" }{\\fldrslt back}}.\\par',
+    '}',
+  ].join('\n'));
+
+  const result = await converter.convertDocument(rtfPath, path.join(workDir, 'links.md'), 'md');
+  assert(result.success, result.message);
+  const markdown = await fs.readFile(result.output_path, 'utf8');
+  assert(markdown.includes('[the docs](https://example.com/docs)'), `missing external link in: ${markdown}`);
+  assert(markdown.includes('[back](#intro)'), `missing bookmark link in: ${markdown}`);
+});
+
+// RTF / ODT / EPUB 转 TXT 应输出纯文本，而不是 Markdown
+regression('RTF to TXT is plain text', async (workDir) => {
+  const { DocumentConverter } = require('./dist/converter');
+  const converter = new DocumentConverter();
+
+  const rtfPath = path.join(workDir, 'plain.rtf');
+  await fs.writeFile(rtfPath, '{\\rtf1\\ansi \\b Bold\\b0  and {\\field{\\*\\fldinst HYPERLINK "https://example.com"}{\\fldrslt link}}.\\par}');
+
+  const result = await converter.convertDocument(rtfPath, path.join(workDir, 'plain.txt'), 'txt');
+  assert(result.success, result.message);
+  const text = await fs.readFile(result.output_path, 'utf8');
+  assert(text === 'Bold and link.', `unexpected text: ${JSON.stringify(text)}`);
+});
+
+// 上传多页 PDF 栅格化为 PNG 时应返回包含全部页面的 ZIP，而不只是第一页
+regression('multi-page upload returns every page', async (workDir) => {
+  const { PDFDocument } = require('pdf-lib');
+  const JSZip = require('jszip');
+
+  const pdf = await PDFDocument.create();
+  for (let i = 0; i < 3; i++) {
+    pdf.addPage([200, 200]);
+  }
+  const pdfBytes = await pdf.save();
+
+  const server = await startServer();
+  try {
+    const form = new FormData();
+    form.append('file', new Blob([pdfBytes]), 'pages.pdf');
+    form.append('target_format', 'png');
+    const response = await fetch(`${server.url}/convert`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${server.token}` },
+      body: form,
+    });
+    assert(response.status === 200, `expected 200, got ${response.status}`);
+    assert(response.headers.get('content-type') === 'application/zip', 'multi-page result should be a ZIP archive');
+    const zip = await JSZip.loadAsync(Buffer.from(await response.arrayBuffer()));
+    const entries = Object.keys(zip.files).sort();
+    assert(entries.join(',') === 'pages-1.png,pages-2.png,pages-3.png', `unexpected entries: ${entries.join(', ')}`);
+  } finally {
+    await server.stop();
+  }
+});
+
+// 启动 HTTP 服务器（只提供 HTTP 接口），等待健康检查通过
+async function startServer() {
+  const port = 3900 + Math.floor(Math.random() * 90);
+  const token = 'regression-token';
+  const child = spawn('node', [path.join(__dirname, 'dist', 'index.js')], {
+    env: { ...process.env, PORT: String(port), MCP_AUTH_TOKEN: token },
+    stdio: ['pipe', 'ignore', 'ignore'],
+  });
+  const url = `http://127.0.0.1:${port}`;
+  const stop = () => new Promise((resolve) => {
+    child.once('exit', resolve);
+    child.kill();
+  });
+
+  for (let i = 0; i < 50; i++) {
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    try {
+      if ((await fetch(`${url}/health`)).ok) {
+        return { url, token, stop };
+      }
+    } catch {
+      // 服务器尚未就绪
+    }
+  }
+  await stop();
+  throw new Error('server did not start');
+}
+
+async function run() {
+  let failed = 0;
+  for (const { name, fn } of cases) {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-regression-'));
+    try {
+      await fn(workDir);
+      console.log(`✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.error(`❌ ${name}: ${error.message}`);
+    } finally {
+      await fs.remove(workDir);
+    }
+  }
+  console.log(`\n${cases.length - failed}/${cases.length} regression tests passed`);
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+if (require.main === module) {
+  run();
+}